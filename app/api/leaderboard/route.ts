@@ -0,0 +1,8 @@
+// GET the top entries: ?difficulty=easy|medium|hard|very_hard&window=day|week|month|all
+import { parseQuery, topEntries } from "../../game/leaderboard";
+import { readEntries } from "../../../server/scores";
+
+export async function GET(request: Request) {
+  const q = parseQuery(new URL(request.url).searchParams);
+  return Response.json({ entries: topEntries(await readEntries(), q, Date.now()) });
+}
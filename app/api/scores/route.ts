@@ -0,0 +1,22 @@
+// POST a won match: { name, difficulty, style, score, replay }. The replay
+// is played again before the score is taken; see app/game/leaderboard.ts.
+import { SUBMIT_MAX_BYTES, validateSubmission, type Submission } from "../../game/leaderboard";
+import { addScore } from "../../../server/scores";
+
+const tooLarge = () => Response.json({ error: "Submission is too large" }, { status: 413 });
+
+export async function POST(request: Request) {
+  // The declared length turns a big upload away before it's read; the body
+  // is still measured, in bytes, in case the header is missing or wrong
+  if (Number(request.headers.get("content-length")) > SUBMIT_MAX_BYTES) return tooLarge();
+  const text = await request.text();
+  if (new TextEncoder().encode(text).byteLength > SUBMIT_MAX_BYTES) return tooLarge();
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch { return Response.json({ error: "Submission is not valid JSON" }, { status: 400 }); }
+  const err = validateSubmission(raw);
+  if (err) return Response.json({ error: err }, { status: 400 });
+
+  const res = await addScore(raw as Submission);
+  if (!res.ok) return Response.json({ error: res.error }, { status: res.status });
+  return Response.json({ entry: res.entry, rank: res.rank }, { status: 201 });
+}
@@ -1,130 +1,269 @@
 "use client";
 
-import { useRef, useState, useCallback } from "react";
-import { Canvas, useFrame, useThree } from "@react-three/fiber";
+import { useRef, useState, useCallback, useEffect, useMemo } from "react";
+import { Canvas, useFrame } from "@react-three/fiber";
 import * as THREE from "three";
 
-// ─── Constants ────────────────────────────────────────────────
-const TABLE_W  = 6;
-const TABLE_D  = 10;
-const TABLE_H  = 0.15;
-const PADDLE_W = 1.2;
-const PADDLE_D = 0.25;
-const PADDLE_H = 0.1;
-const BALL_R   = 0.15;
-const WIN_SCORE = 7;
-const PLAYER_Z  = TABLE_D / 2 - 0.5;
-const AI_Z      = -TABLE_D / 2 + 0.5;
-
-type Difficulty = "easy" | "medium" | "hard" | "very_hard";
-type Phase      = "start" | "rules" | "difficulty" | "playing" | "between" | "won";
-
-const BALL_LAUNCH_SPEED = 3.5;
-
-// Difficulty shifted up — easy = old medium, very_hard = near-impossible
-const DIFF: Record<Difficulty, { lerp: number; speedInit: number; speedMax: number }> = {
-  easy:      { lerp: 0.038, speedInit: 8,  speedMax: 18 },
-  medium:    { lerp: 0.075, speedInit: 10, speedMax: 24 },
-  hard:      { lerp: 0.14,  speedInit: 13, speedMax: 30 },
-  very_hard: { lerp: 0.55,  speedInit: 16, speedMax: 38 }, // near-perfect AI
+import {
+  TABLE_W, TABLE_D, TABLE_H, PADDLE_D, PADDLE_H, BALL_R, NET_H,
+  PLAYER_Z, AI_Z, DIFF, type Difficulty,
+} from "../game/constants";
+import {
+  createSim, other, serve, step, predictCrossing, SIM_DT, SIM_HZ, BALL_REST_Y, PADDLES, PADDLE_REACH, maxPaddleX,
+  type Fault, type SimEvent, type SimState, type Side,
+} from "../game/simulation";
+import { AI_STYLES, autoSeed, createBrain, focusBall, think, type AiBrain, type AiStyle } from "../game/ai";
+import {
+  newMatch, scorePoint, rulesFor, isDeuce, RULESETS,
+  type BestOf, type MatchScore, type PaddleController, type RulesetId,
+} from "../game/match";
+import { randomSeed } from "../game/rng";
+import { stepKeyPaddle, type KeyPaddle } from "../game/keyPaddle";
+import { createNetClient, matchServerUrl, type NetClient, type NetStatus } from "../game/netClient";
+import { ROOM_CODE_LENGTH, normaliseRoomCode, type RoomInfo } from "../game/protocol";
+import {
+  createRecorder, recordServe, recordTick, recordPoint, loadReplay, quantise,
+  type Frame, type Recorder, type ReplayFile, type ReplayTimeline,
+} from "../game/replay";
+import {
+  addMatch, averageRally, loadStats, saveStats, clearStats, emptyStats, UNITS_TO_KMH,
+  type PointRecord, type Stats,
+} from "../game/stats";
+import {
+  createInput, loadInputConfig, saveInputConfig, moveMenuFocus, pressFocused, focusMenu, keyClash, keyLabel, padLabel,
+  DEFAULT_INPUT, DEVICE_LABEL, INPUT_RANGE,
+  type InputConfig, type InputController, type KeyBinding, type PadBinding, type PaddleDevice, type UiAction,
+} from "../game/input";
+import { DEFAULT_AUDIO, getAudio, type AudioSettings } from "../game/audio";
+import { createPausableTimer } from "../game/timer";
+import {
+  CAMERA_LABEL, CAMERA_MODES, cameraShot, loadCameraMode, nextCamera, orbitShot, saveCameraMode, screenSign,
+  type CameraMode, type CameraShot, type CameraSubject,
+} from "../game/camera";
+import {
+  DEFAULT_SETTINGS, DEFAULT_TUNING, SETTINGS_SCHEMA, isDefaultTuning, loadSettings, saveSettings, tunedParams, tuningOf,
+  type Settings, type SettingsSection, type Tuning,
+} from "../game/settings";
+import {
+  ROSTER, addLadderMatch, emptyCareer, loadCareer, recordOf, rungOf, saveCareer,
+  type Career, type Opponent,
+} from "../game/career";
+import { adaptPoint, createEstimate, loadSkill, nearestDifficulty, saveSkill, skillParams, skillRating, type SkillEstimate } from "../game/adaptive";
+import {
+  POWER_UPS, PICKUP_R, PICKUP_Y, arcadeParams, arcadeServe, createArcade, hasEffect, reverseInput, shieldZ, stepArcade, timeScale,
+  MAX_BALLS, type ArcadeState, type Effect, type Pickup,
+} from "../game/arcade";
+import {
+  DRILLS, MACHINE_Y, addBest, createTraining, loadBests, loadDrill, saveBests, stepTraining, summarise, targetRect, trainingDone,
+  type Drill, type DrillSummary, type Target, type TrainingBests, type TrainingState,
+} from "../game/training";
+import { CONTRAST_BALL, PALETTES, resultAnnouncement, scoreAnnouncement } from "../game/accessibility";
+import { BONES, FINGER_NAMES, POSES, blendPose, handPose, restPose, type Bone, type HandDrive, type Pose } from "../game/handRig";
+import { BotError, importBot, spawnBot, type BotModule } from "../game/bots";
+import {
+  WINDOW_LABEL, fetchBoard, submitScore,
+  type BoardQuery, type Entry, type TimeWindow,
+} from "../game/leaderboard";
+import { commentary, createExhibition, exhibitionParams, randomExhibition, stepExhibition, type Exhibition, type ExhibitionSide } from "../game/exhibition";
+import { FRAME_BUDGET_MS, createFrameMonitor, nextScale, type FrameStats } from "../game/perf";
+import {
+  MOTION_SWITCHES, VFX_QUALITY, VFX_SWITCHES, confettiPieces, createSparks, impactOf, offRail, shakeDrain, shakeKick, shakeOffset, trailLength, vfxOptions,
+  type Sparks, type VfxOptions,
+} from "../game/vfx";
+
+type Phase      = "start" | "rules" | "difficulty" | "versus" | "online" | "playing" | "between" | "won" | "replay" | "stats" | "settings"
+                | "paused" | "countdown" | "ladder" | "training" | "report" | "watch" | "spectate" | "leaderboard";
+type SettingsTab = SettingsSection | "controls" | "sound";
+
+const SETTINGS_TABS: [SettingsTab, string][] = [
+  ["gameplay", "GAMEPLAY"], ["visuals", "VISUALS"], ["access", "ACCESS"], ["controls", "CONTROLS"], ["sound", "SOUND"],
+];
+type Mode       = "solo" | "versus" | "online" | "training";
+
+const SOLO_NAMES: Record<Side, string> = { player: "YOU", ai: "AUTO" };
+
+interface OnlineState {
+  status: NetStatus;
+  side: Side | null;
+  room: RoomInfo | null;
+  error: string | null;
+}
+const OFFLINE: OnlineState = { status: "closed", side: null, room: null, error: null };
+const NAME_MAX = 12;
+
+type Posting = { status: "idle" | "sending" } | { status: "error"; error: string } | { status: "done"; rank: number };
+
+const KEY_ROWS: { id: KeyBinding; label: string }[] = [
+  { id: "left",    label: "MOVE LEFT" },
+  { id: "right",   label: "MOVE RIGHT" },
+  { id: "serve",   label: "SERVE / SKIP" },
+  { id: "pause",   label: "PAUSE" },
+  { id: "camera",  label: "CAMERA" },
+  { id: "p2Left",  label: "P2 LEFT" },
+  { id: "p2Right", label: "P2 RIGHT" },
+];
+const PAD_ROWS: { id: PadBinding; label: string }[] = [
+  { id: "serve", label: "SERVE / SKIP" },
+  { id: "pause", label: "PAUSE" },
+  { id: "camera", label: "CAMERA" },
+];
+const BETWEEN_MS       = 1200;
+const BETWEEN_GAMES_MS = 3500;
+
+// Attract mode: Auto plays Auto behind the menus, and after a while on the
+// start screen with nothing pressed the menu steps aside to show it
+const ATTRACT_MS = 30_000;
+const ATTRACT_PHASES: Phase[] = ["start", "rules", "difficulty", "versus", "online", "stats", "settings", "ladder", "training", "watch", "leaderboard"];
+const WAKE_EVENTS = ["keydown", "pointerdown", "pointermove", "wheel", "touchstart"] as const;
+
+const levelName = (d: Difficulty) => d.replace("_", " ").toUpperCase();
+/** WATCH names each end after its bot or its difficulty, lettered when both are the same. */
+function exhibitionNames(sides: Record<Side, ExhibitionSide>): Record<Side, string> {
+  const name = (e: ExhibitionSide) => e.bot?.toUpperCase() ?? levelName(e.level);
+  const [p, a] = [name(sides.player), name(sides.ai)];
+  return p === a ? { player: `${p} A`, ai: `${a} B` } : { player: p, ai: a };
+}
+
+// Instant replay: the closing moments of a rally, slowed down, from the side
+const INSTANT_REPLAY_TICKS = 300;
+const INSTANT_REPLAY_MIN   = 60;
+const INSTANT_REPLAY_SPEED = 0.4;
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2];
+
+/** Frames the scene draws instead of the live sim, advanced at `speed` × real time. */
+interface Playback {
+  frames: Frame[];
+  t: number;            // fractional frame index
+  speed: number;
+  paused: boolean;
+  sideCam: boolean;
+  onEnd?: () => void;   // otherwise playback holds on the last frame
+}
+
+const FAULT_LABEL: Record<Fault, string> = {
+  missed:        "MISSED",
+  long:          "OUT — MISSED THE TABLE",
+  double_bounce: "DOUBLE BOUNCE",
+  net:           "NET",
+  own_half:      "BOUNCED ON OWN SIDE",
 };
 
-function beep(freq = 440, dur = 0.08) {
-  try {
-    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const o = ctx.createOscillator(), g = ctx.createGain();
-    o.connect(g); g.connect(ctx.destination);
-    o.frequency.value = freq; o.type = "sine";
-    g.gain.setValueAtTime(0.25, ctx.currentTime);
-    g.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + dur);
-    o.start(); o.stop(ctx.currentTime + dur);
-  } catch {}
+// Sounds pan with the ball as it appears on screen; an online guest sees the
+// table turned round, so for them the world's +x is on the left
+const HIT_SPEED_MAX = DIFF.very_hard.speedMax;
+
+function playEventSound(e: SimEvent, ballX: number, mirrored = false) {
+  const pan = (x: number) => (mirrored ? -x : x) / (TABLE_W / 2);
+  const audio = getAudio();
+  switch (e.type) {
+    case "hit":    audio.play("hit",    { pan: pan(ballX), intensity: e.speed / HIT_SPEED_MAX }); break;
+    case "wall":   audio.play("wall",   { pan: pan(e.x) }); break;
+    case "bounce": audio.play("bounce", { pan: pan(ballX), intensity: e.side === "player" ? 0.3 : 0.6 }); break;
+    case "net":    audio.play("net",    { pan: pan(ballX), intensity: e.clipped ? 0.3 : 0.7 }); break;
+    case "score":  audio.play("score"); break;
+  }
+}
+
+// ─── Shared geometry ─────────────────────────────────────────
+// Built once per shape and reused by every mesh that needs it: the two hands
+// alone are some sixty meshes. Spheres and boxes are unit-sized and scaled
+// per mesh; the few shapes that can't be scaled are keyed by their sizes.
+const shapes = new Map<string, THREE.BufferGeometry>();
+function shape<T extends THREE.BufferGeometry>(key: string, make: () => T): T {
+  let g = shapes.get(key) as T | undefined;
+  if (!g) { g = make(); shapes.set(key, g); }
+  return g;
+}
+const unitBox    = () => shape("box", () => new THREE.BoxGeometry(1, 1, 1));
+const unitSphere = (segs: number) => shape(`sphere:${segs}`, () => new THREE.SphereGeometry(1, segs, segs));
+const taper      = (r0: number, r1: number, len: number) => shape(`taper:${r0}:${r1}:${len}`, () => new THREE.CylinderGeometry(r1, r0, len, 10));
+const seamRing   = (segs: number) => shape(`seam:${segs}`, () => new THREE.TorusGeometry(BALL_R, 0.012, 6, segs + 4));
+
+/** One material per colour for a whole component tree; freed when the colour changes. */
+function useLambert(color: string, glow = 0, opacity = 1): THREE.MeshLambertMaterial {
+  const mat = useMemo(() => new THREE.MeshLambertMaterial({
+    color, emissive: glow ? color : "#000000", emissiveIntensity: glow, transparent: opacity < 1, opacity,
+  }), [color, glow, opacity]);
+  useEffect(() => () => mat.dispose(), [mat]);
+  return mat;
 }
 
 // ─── Table ───────────────────────────────────────────────────
-function Table() {
+const LEGS: [number, number][] = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+
+function Table({ color }: { color: string }) {
+  const top  = useLambert(color);
+  const line = useLambert("#ffffff");
+  const net  = useLambert("#cccccc", 0, 0.75);
+  const wood = useLambert("#3d2b1f");
+  const legs = useRef<THREE.InstancedMesh>(null);
+  useEffect(() => {
+    const m = legs.current;
+    if (!m) return;
+    const o = new THREE.Object3D();
+    LEGS.forEach(([x, z], i) => {
+      o.position.set(x * (TABLE_W / 2 - 0.3), -1.5, z * (TABLE_D / 2 - 0.3));
+      o.scale.set(0.15, 3, 0.15);
+      o.updateMatrix();
+      m.setMatrixAt(i, o.matrix);
+    });
+    m.instanceMatrix.needsUpdate = true;
+  }, []);
   return (
     <group>
-      <mesh receiveShadow>
-        <boxGeometry args={[TABLE_W, TABLE_H, TABLE_D]} />
-        <meshLambertMaterial color="#1a6b1a" />
-      </mesh>
-      <mesh position={[0, TABLE_H / 2 + 0.001, 0]}>
-        <boxGeometry args={[TABLE_W, 0.002, 0.05]} />
-        <meshLambertMaterial color="#ffffff" />
-      </mesh>
-      <mesh position={[0, TABLE_H / 2 + 0.13, 0]}>
-        <boxGeometry args={[TABLE_W, 0.24, 0.03]} />
-        <meshLambertMaterial color="#cccccc" transparent opacity={0.75} />
-      </mesh>
+      <mesh receiveShadow geometry={unitBox()} material={top} scale={[TABLE_W, TABLE_H, TABLE_D]} />
+      <mesh geometry={unitBox()} material={line} position={[0, TABLE_H / 2 + 0.001, 0]} scale={[TABLE_W, 0.002, 0.05]} />
+      <mesh geometry={unitBox()} material={net} position={[0, TABLE_H / 2 + NET_H / 2 + 0.005, 0]} scale={[TABLE_W, NET_H - 0.01, 0.03]} />
       {([-1, 1] as const).map(s => (
-        <mesh key={s} position={[s * (TABLE_W / 2 + 0.075), TABLE_H / 2 + 0.2, 0]}>
-          <boxGeometry args={[0.15, 0.4, TABLE_D + 0.3]} />
-          <meshLambertMaterial color="#3d2b1f" />
-        </mesh>
+        <mesh key={`x${s}`} geometry={unitBox()} material={wood}
+          position={[s * (TABLE_W / 2 + 0.075), TABLE_H / 2 + 0.2, 0]} scale={[0.15, 0.4, TABLE_D + 0.3]} />
       ))}
       {([-1, 1] as const).map(s => (
-        <mesh key={s} position={[0, TABLE_H / 2 + 0.2, s * (TABLE_D / 2 + 0.075)]}>
-          <boxGeometry args={[TABLE_W + 0.3, 0.4, 0.15]} />
-          <meshLambertMaterial color="#3d2b1f" />
-        </mesh>
+        <mesh key={`z${s}`} geometry={unitBox()} material={wood}
+          position={[0, TABLE_H / 2 + 0.2, s * (TABLE_D / 2 + 0.075)]} scale={[TABLE_W + 0.3, 0.4, 0.15]} />
       ))}
-      {([-1, 1] as const).flatMap(x =>
-        ([-1, 1] as const).map(z => (
-          <mesh key={`${x}${z}`} position={[x * (TABLE_W / 2 - 0.3), -1.5, z * (TABLE_D / 2 - 0.3)]}>
-            <boxGeometry args={[0.15, 3, 0.15]} />
-            <meshLambertMaterial color="#3d2b1f" />
-          </mesh>
-        ))
-      )}
+      <instancedMesh ref={legs} args={[unitBox(), wood, LEGS.length]} />
     </group>
   );
 }
 
 // ─── Finger Segment ──────────────────────────────────────────
-function Seg({ len, r0, r1, color }: { len: number; r0: number; r1: number; color: string }) {
-  return (
-    <mesh position={[0, -len / 2, 0]}>
-      <cylinderGeometry args={[r1, r0, len, 10]} />
-      <meshLambertMaterial color={color} />
-    </mesh>
-  );
+type Seg3 = { len: number; r0: number; r1: number };
+
+function Seg({ s, mat }: { s: Seg3; mat: THREE.Material }) {
+  return <mesh position={[0, -s.len / 2, 0]} geometry={taper(s.r0, s.r1, s.len)} material={mat} />;
 }
 
-// One finger: 3 segments chained via nested groups
-// Each group rotates its child relative to its own frame
-function Finger({
-  basePos, baseRotX, baseRotZ,
-  seg1, seg2, seg3, color,
-}: {
+function Joint({ y, r, mat, segs }: { y: number; r: number; mat: THREE.Material; segs: number }) {
+  return <mesh position={[0, y, 0]} scale={r} geometry={unitSphere(segs)} material={mat} />;
+}
+
+/** Hands each bone's group to whoever poses the hand. */
+type OnBone = (bone: Bone, g: THREE.Group | null) => void;
+
+// One finger: 3 segments chained via nested groups, one bone each. Each
+// group rotates its child relative to its own frame; the rig sets the angles.
+function Finger({ name, basePos, seg, mat, segs, onBone }: {
+  name: typeof FINGER_NAMES[number];
   basePos: [number, number, number];
-  baseRotX: number; baseRotZ: number;
-  seg1: { len: number; r0: number; r1: number; bx: number };
-  seg2: { len: number; r0: number; r1: number; bx: number };
-  seg3: { len: number; r0: number; r1: number };
-  color: string;
+  seg: [Seg3, Seg3, Seg3];
+  mat: THREE.Material;
+  segs: number;
+  onBone: OnBone;
 }) {
+  const [s1, s2, s3] = seg;
+  const bone = (b: Bone) => ({ ref: (g: THREE.Group | null) => onBone(b, g), rotation: POSES.rest[b] });
   return (
-    <group position={basePos} rotation={[baseRotX, 0, baseRotZ]}>
-      <Seg len={seg1.len} r0={seg1.r0} r1={seg1.r1} color={color} />
-      {/* joint sphere */}
-      <mesh position={[0, -seg1.len, 0]}>
-        <sphereGeometry args={[seg1.r1 * 1.05, 8, 8]} />
-        <meshLambertMaterial color={color} />
-      </mesh>
-      <group position={[0, -seg1.len, 0]} rotation={[seg1.bx, 0, 0]}>
-        <Seg len={seg2.len} r0={seg2.r0} r1={seg2.r1} color={color} />
-        <mesh position={[0, -seg2.len, 0]}>
-          <sphereGeometry args={[seg2.r1 * 1.05, 8, 8]} />
-          <meshLambertMaterial color={color} />
-        </mesh>
-        <group position={[0, -seg2.len, 0]} rotation={[seg2.bx, 0, 0]}>
-          <Seg len={seg3.len} r0={seg3.r0} r1={seg3.r1} color={color} />
+    <group position={basePos} {...bone(`${name}0`)}>
+      <Seg s={s1} mat={mat} />
+      <Joint y={-s1.len} r={s1.r1 * 1.05} mat={mat} segs={segs} />
+      <group position={[0, -s1.len, 0]} {...bone(`${name}1`)}>
+        <Seg s={s2} mat={mat} />
+        <Joint y={-s2.len} r={s2.r1 * 1.05} mat={mat} segs={segs} />
+        <group position={[0, -s2.len, 0]} {...bone(`${name}2`)}>
+          <Seg s={s3} mat={mat} />
           {/* fingertip cap */}
-          <mesh position={[0, -seg3.len, 0]}>
-            <sphereGeometry args={[seg3.r1 * 0.9, 8, 8]} />
-            <meshLambertMaterial color={color} />
-          </mesh>
+          <Joint y={-s3.len} r={s3.r1 * 0.9} mat={mat} segs={segs} />
         </group>
       </group>
     </group>
@@ -132,328 +271,1546 @@ function Finger({
 }
 
 // Thumb: 2 segments
-function Thumb({ basePos, baseRotX, baseRotZ, color }: {
-  basePos: [number, number, number];
-  baseRotX: number; baseRotZ: number; color: string;
-}) {
-  const r0 = 0.062, r1 = 0.055, r2 = 0.046;
-  const l0 = 0.22, l1 = 0.17;
+const THUMB: [Seg3, Seg3] = [{ len: 0.22, r0: 0.062, r1: 0.055 }, { len: 0.17, r0: 0.055, r1: 0.046 }];
+
+function Thumb({ basePos, mat, segs, onBone }: { basePos: [number, number, number]; mat: THREE.Material; segs: number; onBone: OnBone }) {
+  const [t0, t1] = THUMB;
   return (
-    <group position={basePos} rotation={[baseRotX, 0, baseRotZ]}>
-      <Seg len={l0} r0={r0} r1={r1} color={color} />
-      <mesh position={[0, -l0, 0]}>
-        <sphereGeometry args={[r1 * 1.05, 8, 8]} />
-        <meshLambertMaterial color={color} />
-      </mesh>
-      <group position={[0, -l0, 0]} rotation={[0.4, 0, 0]}>
-        <Seg len={l1} r0={r1} r1={r2} color={color} />
-        <mesh position={[0, -l1, 0]}>
-          <sphereGeometry args={[r2 * 0.9, 8, 8]} />
-          <meshLambertMaterial color={color} />
-        </mesh>
+    <group position={basePos} rotation={POSES.rest.thumb0} ref={g => onBone("thumb0", g)}>
+      <Seg s={t0} mat={mat} />
+      <Joint y={-t0.len} r={t0.r1 * 1.05} mat={mat} segs={segs} />
+      <group position={[0, -t0.len, 0]} rotation={POSES.rest.thumb1} ref={g => onBone("thumb1", g)}>
+        <Seg s={t1} mat={mat} />
+        <Joint y={-t1.len} r={t1.r1 * 0.9} mat={mat} segs={segs} />
       </group>
     </group>
   );
 }
 
 // ─── Floating Hand ────────────────────────────────────────────
-// The hand floats above the paddle with fingers curling down around it.
-// dir=1 → player side (camera facing), dir=-1 → AI side
-function FloatingHand({ x, isPlayer, color }: { x: number; isPlayer: boolean; color: string }) {
-  const dir    = isPlayer ? 1 : -1;
-  const baseZ  = isPlayer ? PLAYER_Z : AI_Z;
-  // Palm hovers above paddle, slightly toward player
-  const palmY  = TABLE_H / 2 + PADDLE_H + 0.28;
-  const palmZ  = baseZ + dir * 0.05;
-
-  // Palm tilts slightly toward net (fingers point netward)
-  const palmTiltX = dir * 0.18; // tilt forward
-
-  // Finger colors — slightly lighter for highlight
-  const skin = color;
-
-  // Finger layout: index, middle, ring, pinky
-  // Positions relative to palm center, spread across width
-  // All fingers hang down and curl toward the paddle/net
-  // baseRotX = angle from vertical (downward), more = more forward tilt
-  // For player: fingers point in -z (toward net), for AI: +z
-  const fingerFwd = -dir * Math.PI * 0.42; // tilt fingers forward toward net
-
-  const fingers = [
-    // index
-    { bx: -0.30, bz:  0.04, spreadZ: 0.0,  rotZ: -0.08 },
-    // middle
-    { bx: -0.10, bz:  0.0,  spreadZ: 0.02, rotZ: -0.03 },
-    // ring
-    { bx:  0.10, bz:  0.0,  spreadZ: 0.02, rotZ:  0.03 },
-    // pinky
-    { bx:  0.28, bz: -0.02, spreadZ: 0.0,  rotZ:  0.1  },
-  ];
-
-  // Proximal segment dims (thicker at base, taper toward tip)
-  const s1 = { len: 0.30, r0: 0.068, r1: 0.060, bx: 0.45 };
-  const s2 = { len: 0.24, r0: 0.060, r1: 0.052, bx: 0.55 };
-  const s3 = { len: 0.17, r0: 0.052, r1: 0.040 };
-  const pS = { len: 0.27, r0: 0.064, r1: 0.057, bx: 0.42 }; // pinky slightly smaller
-  const pS2 = { len: 0.20, r0: 0.057, r1: 0.049, bx: 0.52 };
-  const pS3 = { len: 0.14, r0: 0.049, r1: 0.037 };
+// The hand floats above the paddle with fingers curling down around it. It
+// is built as the player's hand; the far one is the same hand mirrored
+// front to back, so the rig's poses work for both.
+// Finger layout: index, middle, ring, pinky, spread across the palm. All hang
+// down and curl toward the paddle/net.
+const FINGER_BASE = [
+  { bx: -0.30, spreadZ: 0.0 },
+  { bx: -0.10, spreadZ: 0.02 },
+  { bx:  0.10, spreadZ: 0.02 },
+  { bx:  0.28, spreadZ: 0.0 },
+];
+// Proximal segment dims (thicker at base, taper toward tip); the pinky is slightly smaller
+const FINGER_SEGS: [Seg3, Seg3, Seg3] = [
+  { len: 0.30, r0: 0.068, r1: 0.060 },
+  { len: 0.24, r0: 0.060, r1: 0.052 },
+  { len: 0.17, r0: 0.052, r1: 0.040 },
+];
+const PINKY_SEGS: [Seg3, Seg3, Seg3] = [
+  { len: 0.27, r0: 0.064, r1: 0.057 },
+  { len: 0.20, r0: 0.057, r1: 0.049 },
+  { len: 0.14, r0: 0.049, r1: 0.037 },
+];
+const KNUCKLES = [-0.30, -0.10, 0.10, 0.28];
+// Palm hovers above the paddle, slightly toward the player
+const PALM_Y = TABLE_H / 2 + PADDLE_H + 0.28;
+
+// The scene moves the outer group (paddle x, lift) through `ref` and poses
+// the bones it is handed through `onBone` every frame; the meshes themselves
+// only render again when the colour or detail changes.
+function FloatingHand({ ref, isPlayer, color, segs, onBone }: {
+  ref: React.Ref<THREE.Group>; isPlayer: boolean; color: string; segs: number; onBone: OnBone;
+}) {
+  const skin = useLambert(color);
 
   return (
-    <group position={[x, palmY, palmZ]} rotation={[palmTiltX, 0, 0]}>
+    <group ref={ref}>
+      <group position={[0, PALM_Y, isPlayer ? PLAYER_Z : AI_Z]} scale={[1, 1, isPlayer ? 1 : -1]}>
+        <group position={[0, 0, 0.05]} rotation={POSES.rest.wrist} ref={g => onBone("wrist", g)}>
+          {/* ── Palm ── */}
+          <mesh position={[0, 0, 0.05]} scale={[0.78, 0.12, 0.52]} geometry={unitBox()} material={skin} castShadow />
+          {/* Palm back (slightly domed) */}
+          <mesh position={[0, 0.05, 0.05]} scale={[0.72, 0.06, 0.44]} geometry={unitBox()} material={skin} />
 
-      {/* ── Palm ── */}
-      <mesh position={[0, 0, dir * 0.05]} castShadow>
-        <boxGeometry args={[0.78, 0.12, 0.52]} />
-        <meshLambertMaterial color={skin} />
-      </mesh>
-      {/* Palm back (slightly domed) */}
-      <mesh position={[0, 0.05, dir * 0.05]}>
-        <boxGeometry args={[0.72, 0.06, 0.44]} />
-        <meshLambertMaterial color={skin} />
-      </mesh>
+          {/* ── 4 Fingers ── */}
+          {FINGER_NAMES.map((name, i) => (
+            <Finger
+              key={name} name={name}
+              basePos={[FINGER_BASE[i].bx, -0.06, -0.22 + FINGER_BASE[i].spreadZ]}
+              seg={name === "pinky" ? PINKY_SEGS : FINGER_SEGS}
+              mat={skin} segs={segs} onBone={onBone}
+            />
+          ))}
 
-      {/* ── 4 Fingers ── */}
-      {fingers.map((f, i) => {
-        const isP = i === 3; // pinky
-        return (
-          <Finger
-            key={i}
-            basePos={[f.bx, -0.06, dir * (-0.22 + f.spreadZ)]}
-            baseRotX={fingerFwd}
-            baseRotZ={f.rotZ}
-            seg1={isP ? pS  : s1}
-            seg2={isP ? pS2 : s2}
-            seg3={isP ? pS3 : s3}
-            color={skin}
-          />
-        );
-      })}
-
-      {/* ── Thumb ── */}
-      {/* Thumb base is on the index-finger side, angled outward & down */}
-      <Thumb
-        basePos={[-0.44, -0.04, dir * 0.12]}
-        baseRotX={dir * 0.3}
-        baseRotZ={-dir * 0.7}
-        color={skin}
-      />
+          {/* ── Thumb ── */}
+          {/* Thumb base is on the index-finger side, angled outward & down */}
+          <Thumb basePos={[-0.44, -0.04, 0.12]} mat={skin} segs={segs} onBone={onBone} />
 
-      {/* ── Knuckle row bumps ── */}
-      {[-0.30, -0.10, 0.10, 0.28].map((kx, i) => (
-        <mesh key={i} position={[kx, -0.03, dir * (-0.24)]}>
-          <sphereGeometry args={[0.065, 8, 8]} />
-          <meshLambertMaterial color={skin} />
-        </mesh>
-      ))}
+          {/* ── Knuckle row bumps ── */}
+          {KNUCKLES.map((kx, i) => (
+            <mesh key={i} position={[kx, -0.03, -0.24]} scale={0.065} geometry={unitSphere(segs)} material={skin} />
+          ))}
+        </group>
+      </group>
     </group>
   );
 }
 
 // ─── Ball ────────────────────────────────────────────────────
-function Ball({ pos }: { pos: THREE.Vector3 }) {
+// The seam ring is there so spin is visible; the scene turns the inner group
+// by the ball's angular velocity every frame.
+function Ball({ ref, spinRef, segments, contrast }: { ref: React.Ref<THREE.Group>; spinRef: React.Ref<THREE.Group>; segments: number; contrast: boolean }) {
+  const white = useLambert(contrast ? CONTRAST_BALL.color : "#ffffff", contrast ? CONTRAST_BALL.glow : 0);
+  const seam  = useLambert(contrast ? CONTRAST_BALL.seam : "#ff8800");
+  return (
+    <group ref={ref} position={[0, BALL_REST_Y, 0]}>
+      <group ref={spinRef}>
+        <mesh castShadow scale={BALL_R} geometry={unitSphere(segments)} material={white} />
+        <mesh rotation={[Math.PI / 2, 0, 0]} geometry={seamRing(segments)} material={seam} />
+      </group>
+    </group>
+  );
+}
+
+// ─── Arcade pickups & shields ────────────────────────────────
+function PickupOrb({ p, fading, still }: { p: Pickup; fading: boolean; still: boolean }) {
+  const col = POWER_UPS[p.kind].color;
+  const ref = useRef<THREE.Mesh>(null);
+  useFrame((_, delta) => { if (ref.current && !still) ref.current.rotation.y += delta * 4.8; });
   return (
-    <mesh position={pos} castShadow>
-      <sphereGeometry args={[BALL_R, 20, 20]} />
-      <meshLambertMaterial color="#ffffff" />
+    <mesh ref={ref} position={[p.x, PICKUP_Y, p.z]}>
+      <octahedronGeometry args={[PICKUP_R * 0.7]} />
+      <meshLambertMaterial color={col} emissive={col} emissiveIntensity={0.6} transparent opacity={fading ? 0.5 : 0.9} />
     </mesh>
   );
 }
 
-// ─── Paddle (thin, under the hand) ───────────────────────────
-function Paddle({ x, z, color }: { x: number; z: number; color: string }) {
+function Shield({ side, color }: { side: Side; color: string }) {
   return (
-    <mesh position={[x, TABLE_H / 2 + PADDLE_H / 2 + 0.01, z]} castShadow>
-      <boxGeometry args={[PADDLE_W, PADDLE_H, PADDLE_D]} />
-      <meshLambertMaterial color={color} />
+    <mesh position={[0, TABLE_H / 2 + 0.3, shieldZ(side)]}>
+      <boxGeometry args={[TABLE_W, 0.6, 0.04]} />
+      <meshLambertMaterial color={color} emissive={color} emissiveIntensity={0.5} transparent opacity={0.25} />
     </mesh>
   );
 }
 
-// ─── Game Scene ──────────────────────────────────────────────
-function GameScene({ phase, difficulty, onScore, ndcRef, ballRef, velRef, playerXRef, aiXRef, firstHitRef }: {
-  phase: Phase; difficulty: Difficulty; onScore: (s: "player" | "ai") => void;
-  ndcRef: React.MutableRefObject<{ x: number; y: number }>;
-  ballRef: React.MutableRefObject<THREE.Vector3>;
-  velRef:  React.MutableRefObject<THREE.Vector3>;
-  playerXRef:  React.MutableRefObject<number>;
-  aiXRef:      React.MutableRefObject<number>;
-  firstHitRef: React.MutableRefObject<boolean>;
+// ─── Training ────────────────────────────────────────────────
+const TARGET_COLOR = (points: number) => points >= 5 ? "#ff4fa3" : points >= 2 ? "#ffaa00" : "#00e5ff";
+
+function TargetZone({ t }: { t: Target }) {
+  const r = targetRect(t);
+  const col = TARGET_COLOR(t.points);
+  return (
+    <mesh position={[r.x, TABLE_H / 2 + 0.004, r.z]} rotation={[-Math.PI / 2, 0, 0]}>
+      <planeGeometry args={[r.w, r.d]} />
+      <meshLambertMaterial color={col} emissive={col} emissiveIntensity={0.4} transparent opacity={0.45} />
+    </mesh>
+  );
+}
+
+function BallMachine() {
+  return (
+    <group position={[0, MACHINE_Y, AI_Z - 0.35]}>
+      <mesh castShadow>
+        <boxGeometry args={[0.9, 0.6, 0.6]} />
+        <meshLambertMaterial color="#444a55" />
+      </mesh>
+      <mesh position={[0, 0, 0.4]} rotation={[Math.PI / 2, 0, 0]}>
+        <cylinderGeometry args={[0.14, 0.18, 0.3, 16]} />
+        <meshLambertMaterial color="#222222" />
+      </mesh>
+      <mesh position={[0, -MACHINE_Y / 2 - 0.15, 0]}>
+        <boxGeometry args={[0.12, MACHINE_Y - 0.3, 0.12]} />
+        <meshLambertMaterial color="#333333" />
+      </mesh>
+    </group>
+  );
+}
+
+// ─── Paddle (thin, under the hand) ───────────────────────────
+// Moved like the hand: the scene sets the group's x and lift through `ref`.
+function Paddle({ ref, z, width, color }: { ref: React.Ref<THREE.Group>; z: number; width: number; color: string }) {
+  const mat = useLambert(color);
+  return (
+    <group ref={ref}>
+      <mesh position={[0, TABLE_H / 2 + PADDLE_H / 2 + 0.01, z]} scale={[width, PADDLE_H, PADDLE_D]} geometry={unitBox()} material={mat} castShadow />
+    </group>
+  );
+}
+
+const spinAxis = new THREE.Vector3();
+const BALL_SLOTS = MAX_BALLS; // arcade multiball; a normal rally uses the first
+
+/** The arcade extras on the table, rendered through state because they change a few times a rally. */
+interface ArcadeView {
+  pickups: Pickup[];
+  fading: number[]; // ids about to vanish
+  shields: Side[];
+  widths: Record<Side, number>;
+}
+
+const SIDE_CAM: CameraShot = { pos: new THREE.Vector3(TABLE_W / 2 + 6, 2.6, 1.5), look: new THREE.Vector3(0, 0.4, 0), fov: 50 };
+const CAM_EASE = 0.08; // per frame
+// The table at rest, for rigs that shouldn't follow play
+const PLAYER_FACE = PLAYER_Z + PADDLES.player.out * (PADDLE_D / 2 + BALL_R);
+const STILL_SUBJECT: CameraSubject = { ball: { x: 0, y: BALL_REST_Y, z: 0 }, nearX: 0, hits: 0 };
+
+// Paddles rise to meet a ball that is coming at them, so a hit taken high
+// on the bounce reads as one. Purely cosmetic — the sim decides the reach.
+function paddleLift(s: Frame, side: Side): number {
+  if (s.lastHitter === side) return 0;
+  const z    = side === "player" ? PLAYER_Z : AI_Z;
+  const near = Math.max(0, 1 - Math.abs(s.pos.z - z) / (TABLE_D / 2));
+  return Math.min(Math.max(s.pos.y - BALL_REST_Y, 0), PADDLE_REACH) * near;
+}
+
+// ─── Frame budget ────────────────────────────────────────────
+// Times every frame; once a second reports the numbers and, when allowed,
+// steps the render scale towards what holds the budget (see ../game/perf).
+function FrameBudget({ scale, auto, onScale, onStats }: {
+  scale: number;
+  auto: boolean;
+  onScale: (scale: number) => void;
+  onStats: ((s: FrameStats) => void) | null;
 }) {
-  useThree(); // keep hook for potential future use
-  const [ballPos, setBallPos] = useState(() => ballRef.current.clone());
-  const [playerX, setPlayerX] = useState(0);
-  const [aiX,     setAiX]     = useState(0);
-  const scoredRef = useRef(false);
-  const prevPhase = useRef(phase);
-
-  if (prevPhase.current !== phase) {
-    if (phase === "playing") scoredRef.current = false;
-    prevPhase.current = phase;
+  const [monitor] = useState(() => createFrameMonitor());
+  const since = useRef(0);
+
+  useFrame((_, delta) => {
+    monitor.add(delta);
+    since.current += delta;
+    if (since.current < 1) return;
+    since.current = 0;
+    const stats = monitor.stats();
+    onStats?.(stats);
+    const next = auto ? nextScale(scale, stats) : 1;
+    // Frames timed at the old size say nothing about the new one
+    if (next !== scale) { onScale(next); monitor.reset(); }
+  });
+
+  return null;
+}
+
+// ─── Hand animation ──────────────────────────────────────────
+// Feeds the rig in ../game/handRig from the rally: hits start a swing, the
+// paddle's speed tilts the wrist, and the phase decides idling and moods.
+interface HandRigs {
+  bones:  Record<Side, Partial<Record<Bone, THREE.Group>>>;
+  shown:  Record<Side, Pose>;
+  target: Record<Side, Pose>;
+  hitAt:  Record<Side, number>; // clock time of each hand's last hit
+  hits:   number;
+  x:      Record<Side, number>;
+  speed:  Record<Side, number>;
+}
+
+const HAND_FULL_SPEED = 8;  // units/s of paddle travel for the full wrist lean
+const HAND_EASE       = 14; // per s; how quickly a hand settles into its pose
+const drive: HandDrive = { t: 0, reach: 0, sinceHit: Infinity, speed: 0, idle: false, mood: null };
+
+function createHandRigs(): HandRigs {
+  return {
+    bones:  { player: {}, ai: {} },
+    shown:  { player: restPose(), ai: restPose() },
+    target: { player: restPose(), ai: restPose() },
+    hitAt:  { player: -Infinity, ai: -Infinity },
+    hits:   0,
+    x:      { player: 0, ai: 0 },
+    speed:  { player: 0, ai: 0 },
+  };
+}
+
+function poseHands(r: HandRigs, s: Frame | null, now: number, delta: number, idle: boolean, winner: Side | null) {
+  if (s && s.hits !== r.hits) {
+    if (s.hits > r.hits && s.lastHitter) r.hitAt[s.lastHitter] = now;
+    r.hits = s.hits;
   }
+  for (const side of ["player", "ai"] as const) {
+    const bones = r.bones[side];
+    if (!bones.wrist) continue;
+    const x = s ? (side === "player" ? s.playerX : s.aiX) : r.x[side];
+    const v = delta > 0 ? (x - r.x[side]) / delta : 0;
+    r.x[side] = x;
+    r.speed[side] += (Math.max(-1, Math.min(1, v / HAND_FULL_SPEED)) - r.speed[side]) * 0.2;
 
-  const { lerp, speedMax } = DIFF[difficulty];
-  const maxPX = TABLE_W / 2 - PADDLE_W / 2;
+    const paddle = PADDLES[side];
+    const coming = s && s.lastHitter !== side && s.vel.z * paddle.out < 0;
+    drive.t        = now;
+    drive.reach    = coming ? Math.max(0, 1 - Math.abs(s.pos.z - paddle.z) / (TABLE_D / 2)) : 0;
+    drive.sinceHit = now - r.hitAt[side];
+    drive.speed    = r.speed[side];
+    drive.idle     = idle;
+    drive.mood     = winner ? (winner === side ? "celebrate" : "slump") : null;
+    const shown = blendPose(r.shown[side], handPose(drive, r.target[side]), 1 - Math.exp(-delta * HAND_EASE));
+    for (const b of BONES) {
+      const rot = shown[b];
+      bones[b]?.rotation.set(rot[0], rot[1], rot[2]);
+    }
+  }
+}
 
-  useFrame((_, delta) => {
-    if (phase !== "playing" || scoredRef.current) return;
-    const dt  = Math.min(delta, 0.05);
-    const vel = velRef.current;
-    const pos = ballRef.current;
-
-    // Direct NDC x → world x mapping (ndcRef.x is -1..1 across screen)
-    // Amplify slightly so full paddle range is reachable without edge-to-edge mouse travel
-    playerXRef.current = Math.max(-maxPX, Math.min(maxPX, ndcRef.current.x * (TABLE_W / 2) * 1.1));
-
-    pos.x += vel.x * dt;
-    pos.z += vel.z * dt;
-
-    const wallX = TABLE_W / 2 - BALL_R;
-    if (pos.x >  wallX) { pos.x =  wallX; vel.x = -Math.abs(vel.x); beep(300, 0.05); }
-    if (pos.x < -wallX) { pos.x = -wallX; vel.x =  Math.abs(vel.x); beep(300, 0.05); }
-
-    const maxAX = TABLE_W / 2 - PADDLE_W / 2;
-    aiXRef.current += (pos.x - aiXRef.current) * lerp;
-    aiXRef.current  = Math.max(-maxAX, Math.min(maxAX, aiXRef.current));
-
-    // Player hit
-    if (vel.z > 0
-      && pos.z >= PLAYER_Z - PADDLE_D / 2 - BALL_R
-      && pos.z <= PLAYER_Z + PADDLE_D / 2 + BALL_R
-      && Math.abs(pos.x - playerXRef.current) < PADDLE_W / 2 + BALL_R) {
-      vel.z = -Math.abs(vel.z);
-      vel.x += ((pos.x - playerXRef.current) / (PADDLE_W / 2)) * 3;
-      // First hit: snap to full game speed
-      if (!firstHitRef.current) {
-        firstHitRef.current = true;
-        const dir = vel.clone().normalize();
-        vel.copy(dir.multiplyScalar(DIFF[difficulty].speedInit));
-      } else if (vel.length() < speedMax) {
-        vel.multiplyScalar(1.05);
+// ─── Effects ─────────────────────────────────────────────────
+// Driven like the hands: each frame is compared with the last, and what the
+// rally did in between (a hit, a rail, a point) starts its effect. Replays
+// and online rallies carry frames but no sim events, so this way they get
+// the same show. Built once as plain three objects and drawn through one
+// <primitive>; see ../game/vfx for the pools and the numbers.
+const TRAIL_MAX  = VFX_QUALITY.high.trail;
+const TRAIL_STEP = BALL_R * 0.7; // path between trail points
+const HISTORY    = 32;           // frames of ball path kept for trails
+const TRAIL_JUMP = 2;            // a ball moved further than this in a frame was put back for a serve
+const RIPPLES    = 4;
+const FLASH_S    = 0.18;
+const RIPPLE_S   = 0.45;
+const GOAL_S     = 0.7;
+const WHITE: [number, number, number] = [1, 1, 1];
+
+interface Vfx {
+  group:   THREE.Group;
+  trails:  THREE.InstancedMesh<THREE.BufferGeometry, THREE.MeshBasicMaterial>[]; // one per ball slot
+  history: Float32Array[];        // each slot's recent positions, newest first
+  filled:  number[];
+  sparks:  Sparks;
+  points:  THREE.Points<THREE.BufferGeometry, THREE.PointsMaterial>;
+  ripples: THREE.Mesh<THREE.RingGeometry, THREE.MeshBasicMaterial>[];
+  flash:   Record<Side, THREE.Mesh<THREE.BufferGeometry, THREE.MeshBasicMaterial>>;
+  goal:    THREE.Mesh<THREE.BufferGeometry, THREE.MeshBasicMaterial>;
+  ages:    { ripples: number[]; flash: Record<Side, number>; goal: number }; // s since each started
+  ripple:  number; // next ripple to use
+  trauma:  number;
+  shook:   THREE.Vector3; // what the camera was moved by last frame
+  hits:    number;
+  velX:    number;
+  scored:  boolean;
+}
+
+/** What a hit needs to know about a paddle on the table. */
+interface PaddleLook { x: number; lift: number; width: number; color: string }
+
+const glowMaterial = (opacity = 1) => new THREE.MeshBasicMaterial({
+  transparent: true, opacity, depthWrite: false, blending: THREE.AdditiveBlending,
+});
+
+function createVfx(): Vfx {
+  const group = new THREE.Group();
+  const trailMat = new THREE.MeshBasicMaterial({ color: "#ffffff", transparent: true, opacity: 0.28, depthWrite: false });
+  const trails = Array.from({ length: BALL_SLOTS }, () => {
+    const m = new THREE.InstancedMesh(unitSphere(10), trailMat, TRAIL_MAX);
+    m.count = 0;
+    m.frustumCulled = false;
+    return m;
+  });
+  const sparks = createSparks(VFX_QUALITY.high.sparks * 6);
+  const geo = new THREE.BufferGeometry();
+  geo.setAttribute("position", new THREE.BufferAttribute(sparks.pos, 3));
+  geo.setAttribute("color", new THREE.BufferAttribute(sparks.shade, 3));
+  const points = new THREE.Points(geo, new THREE.PointsMaterial({
+    size: 0.07, vertexColors: true, transparent: true, depthWrite: false, blending: THREE.AdditiveBlending,
+  }));
+  points.frustumCulled = false;
+  const ring = new THREE.RingGeometry(0.8, 1, 24);
+  const ripples = Array.from({ length: RIPPLES }, () => {
+    const m = new THREE.Mesh(ring, glowMaterial());
+    m.rotation.y = Math.PI / 2;
+    m.visible = false;
+    return m;
+  });
+  const flash = { player: new THREE.Mesh(unitBox(), glowMaterial()), ai: new THREE.Mesh(unitBox(), glowMaterial()) };
+  const goal  = new THREE.Mesh(unitBox(), glowMaterial());
+  goal.scale.set(TABLE_W, 0.8, 0.02);
+  for (const m of [flash.player, flash.ai, goal]) m.visible = false;
+  group.add(...trails, points, ...ripples, flash.player, flash.ai, goal);
+  return {
+    group, trails, sparks, points, ripples, flash, goal,
+    history: trails.map(() => new Float32Array(HISTORY * 3)),
+    filled:  trails.map(() => 0),
+    ages:    { ripples: ripples.map(() => Infinity), flash: { player: Infinity, ai: Infinity }, goal: Infinity },
+    ripple: 0, trauma: 0, shook: new THREE.Vector3(), hits: 0, velX: 0, scored: false,
+  };
+}
+
+// The shared unit shapes stay; everything else was made for this layer
+function disposeVfx(fx: Vfx) {
+  fx.trails[0].material.dispose();
+  fx.points.geometry.dispose();
+  fx.points.material.dispose();
+  fx.ripples[0].geometry.dispose();
+  for (const m of [...fx.ripples, fx.flash.player, fx.flash.ai, fx.goal]) m.material.dispose();
+}
+
+const rgbOf = (hex: string): [number, number, number] => {
+  const c = new THREE.Color(hex);
+  return [c.r, c.g, c.b];
+};
+
+/** Moves the camera back to where the rig put it, before the rig eases it on. */
+function unshake(fx: Vfx, camera: THREE.Camera) {
+  camera.position.sub(fx.shook);
+  fx.shook.set(0, 0, 0);
+}
+
+function shake(fx: Vfx, camera: THREE.Camera, now: number, delta: number) {
+  fx.trauma = shakeDrain(fx.trauma, delta);
+  if (fx.trauma > 0) camera.position.add(shakeOffset(fx.trauma, now, fx.shook));
+}
+
+// Trail points are spaced evenly along the path the ball took, however far it
+// went each frame, and shrink towards the tail
+const trailMatrix = new THREE.Matrix4();
+
+function drawTrail(mesh: THREE.InstancedMesh, h: Float32Array, filled: number, n: number) {
+  let k = 0, j = 0, walked = 0;
+  const seg = (j: number) => Math.hypot(h[j * 3 + 3] - h[j * 3], h[j * 3 + 4] - h[j * 3 + 1], h[j * 3 + 5] - h[j * 3 + 2]);
+  for (let d = TRAIL_STEP; k < n; d += TRAIL_STEP) {
+    while (j + 1 < filled && walked + seg(j) < d) walked += seg(j++);
+    if (j + 1 >= filled) break;
+    const t = (d - walked) / seg(j), a = j * 3, b = a + 3;
+    const r = BALL_R * 0.85 * (1 - k / n);
+    trailMatrix.makeScale(r, r, r).setPosition(h[a] + (h[b] - h[a]) * t, h[a + 1] + (h[b + 1] - h[a + 1]) * t, h[a + 2] + (h[b + 2] - h[a + 2]) * t);
+    mesh.setMatrixAt(k++, trailMatrix);
+  }
+  mesh.count = k;
+  mesh.instanceMatrix.needsUpdate = true;
+}
+
+function runVfx(fx: Vfx, s: Frame, balls: readonly Frame[], scorer: Side | null, paddles: Partial<Record<Side, PaddleLook>>, o: VfxOptions, delta: number) {
+  const impact = impactOf(Math.hypot(s.vel.x, s.vel.y, s.vel.z));
+
+  // A paddle hit: sparks the hitter's colour, thrown the way the ball left
+  const hitter = s.hits > fx.hits ? paddles[s.lastHitter] : undefined;
+  if (hitter) {
+    if (o.flashes) fx.ages.flash[s.lastHitter] = 0;
+    if (o.sparks) fx.sparks.burst(s.pos, s.vel, Math.round(o.sparks * (0.4 + 0.6 * impact)), rgbOf(hitter.color), 1.5 + 4 * impact);
+    if (o.shake) fx.trauma = shakeKick(fx.trauma, impact);
+  }
+  fx.hits = s.hits;
+
+  // Off a rail: a ripple on its inside face
+  if (offRail(s.pos, s.vel.x, fx.velX)) {
+    const sx = Math.sign(s.pos.x);
+    if (o.sparks) {
+      fx.ripples[fx.ripple].position.set(sx * (TABLE_W / 2 - 0.01), s.pos.y, s.pos.z);
+      fx.ages.ripples[fx.ripple] = 0;
+      fx.ripple = (fx.ripple + 1) % RIPPLES;
+      fx.sparks.burst(s.pos, { x: -sx, y: 0.5, z: 0 }, Math.ceil(o.sparks / 3), WHITE, 1 + 2 * impact);
+    }
+    if (o.shake) fx.trauma = shakeKick(fx.trauma, impact * 0.5);
+  }
+  fx.velX = s.vel.x;
+
+  // A point: light up the end the ball got past, in the scorer's colour
+  if (scorer && !fx.scored && o.flashes) {
+    const color = paddles[scorer]?.color;
+    if (color) fx.goal.material.color.set(color);
+    fx.goal.position.set(0, TABLE_H / 2 + 0.4, -PADDLES[other(scorer)].out * (TABLE_D / 2 + 0.16));
+    fx.ages.goal = 0;
+  }
+  fx.scored = !!scorer;
+
+  for (const [i, mesh] of fx.trails.entries()) {
+    const b = balls[i], h = fx.history[i];
+    const n = b ? trailLength(Math.hypot(b.vel.x, b.vel.y, b.vel.z), o.trail) : 0;
+    if (!b || n === 0) { fx.filled[i] = 0; mesh.count = 0; continue; }
+    const moved = Math.hypot(h[0] - b.pos.x, h[1] - b.pos.y, h[2] - b.pos.z);
+    if (moved > TRAIL_JUMP) fx.filled[i] = 0;
+    // A paused ball adds nothing, so its trail holds still with it
+    if (moved > 0 || !fx.filled[i]) {
+      h.copyWithin(3, 0, (HISTORY - 1) * 3);
+      h[0] = b.pos.x; h[1] = b.pos.y; h[2] = b.pos.z;
+      fx.filled[i] = Math.min(HISTORY, fx.filled[i] + 1);
+    }
+    drawTrail(mesh, h, fx.filled[i], n);
+  }
+
+  if (fx.sparks.update(delta)) {
+    fx.points.geometry.attributes.position.needsUpdate = true;
+    fx.points.geometry.attributes.color.needsUpdate = true;
+  }
+  for (const [i, m] of fx.ripples.entries()) {
+    const age = fx.ages.ripples[i] += delta;
+    m.visible = age < RIPPLE_S;
+    if (!m.visible) continue;
+    m.scale.setScalar(0.08 + 0.4 * age / RIPPLE_S);
+    m.material.opacity = 1 - age / RIPPLE_S;
+  }
+  for (const side of ["player", "ai"] as const) {
+    const m = fx.flash[side], p = paddles[side];
+    const age = fx.ages.flash[side] += delta;
+    m.visible = !!p && age < FLASH_S;
+    if (!p || !m.visible) continue;
+    m.position.set(p.x, p.lift + TABLE_H / 2 + PADDLE_H / 2 + 0.01, PADDLES[side].z);
+    m.scale.set(p.width + 0.1, PADDLE_H + 0.08, PADDLE_D + 0.1);
+    m.material.opacity = 0.9 * (1 - age / FLASH_S);
+  }
+  const goalAge = fx.ages.goal += delta;
+  fx.goal.visible = goalAge < GOAL_S;
+  fx.goal.material.opacity = 0.7 * (1 - goalAge / GOAL_S);
+}
+
+// ─── Game Scene ──────────────────────────────────────────────
+// Renders the headless sim in ../game/simulation. Frames feed an accumulator
+// and the sim advances in whole SIM_DT steps, so rallies play out the same
+// at any frame rate.
+function GameScene({ phase, mode, difficulty, skill, aiStyle, opponent, drill, winner, cameraMode, settings, tuning, onScore, onEffects, onTraining, inputRef, simRef, brainRef, botRef, netRef, onlineSide, recRef, arcadeRef, trainingRef, playbackRef, exhibition, exhibitionRef, watchBotsRef, onExhibition, onBotError }: {
+  phase: Phase; mode: Mode; difficulty: Difficulty; skill: number | null; aiStyle: AiStyle; cameraMode: CameraMode; onScore: (s: Side, fault: Fault) => void;
+  opponent: Opponent | null; // a ladder match: its AI and colours replace Auto's
+  drill: Drill | null;       // a training drill: the ball machine and targets replace Auto
+  winner: Side | null;       // on the won screen, for the hands
+  settings: Settings;
+  tuning: Tuning; // what the sim is playing with, which isn't the saved settings online or in a replay
+  inputRef: React.MutableRefObject<InputController | null>;
+  simRef: React.MutableRefObject<SimState>;
+  brainRef: React.MutableRefObject<AiBrain>;
+  botRef:   React.MutableRefObject<PaddleController | null>; // a loaded bot plays instead of Auto
+  onBotError: (e: unknown, watchSide?: Side) => void; // a bot threw; Auto has taken over
+  netRef:   React.MutableRefObject<NetClient | null>;
+  onlineSide: Side | null;
+  recRef:   React.MutableRefObject<Recorder | null>;
+  arcadeRef: React.MutableRefObject<ArcadeState | null>; // set for ARCADE matches
+  onEffects: (effects: Effect[]) => void;
+  trainingRef: React.MutableRefObject<TrainingState | null>; // set for TRAINING drills
+  onTraining: (t: TrainingState) => void;
+  playbackRef: React.MutableRefObject<Playback | null>;
+  exhibition: "attract" | "watch" | null; // Auto plays both ends instead of the match
+  exhibitionRef: React.MutableRefObject<Exhibition | null>;
+  watchBotsRef: React.MutableRefObject<Partial<Record<Side, PaddleController>>>; // WATCH only: bots playing instead of Auto
+  onExhibition: (ex: Exhibition) => void; // WATCH only: after every hit and point
+}) {
+  const camLook = useRef(new THREE.Vector3());
+  const shotRef = useRef<CameraShot>({ pos: new THREE.Vector3(0, 8, 12), look: new THREE.Vector3(), fov: 50 });
+  const subject = useRef<CameraSubject>({ ball: { x: 0, y: BALL_REST_Y, z: 0 }, nearX: 0, hits: 0 });
+  const [arcade,  setArcade]  = useState<ArcadeView | null>(null);
+  const accRef   = useRef(0);
+  const p2Ref    = useRef<KeyPaddle>({ x: 0, v: 0 });
+  const focusRef = useRef(0);  // which ball the AI is watching
+  const hudRef   = useRef(""); // last effects summary sent up
+  const viewKey  = useRef(""); // last arcade view rendered
+  const lift     = useRef<Record<Side, number>>({ player: 0, ai: 0 });
+  // The moving parts, positioned every frame straight from the sim. Nothing
+  // per-frame goes through React state, so the scene only re-renders when
+  // what is on the table changes.
+  const ballRefs   = useRef<(THREE.Group | null)[]>([]);
+  const spinRefs   = useRef<(THREE.Group | null)[]>([]);
+  const paddleRefs = useRef<Record<Side, THREE.Group | null>>({ player: null, ai: null });
+  const handRefs   = useRef<Record<Side, THREE.Group | null>>({ player: null, ai: null });
+  const guideRef   = useRef<THREE.Mesh>(null);
+  const rig        = useRef(createHandRigs());
+  const [fx]       = useState(createVfx);
+  useEffect(() => () => disposeVfx(fx), [fx]);
+  const vfx = useMemo(() => vfxOptions(settings), [settings]);
+
+  const params   = useMemo(() => tunedParams(skill === null ? difficulty : skillParams(skill), tuning), [skill, difficulty, tuning]);
+  const aiParams = useMemo(() => opponent ? { ...params, ...opponent.ai } : params, [params, opponent]);
+  const maxX   = maxPaddleX(tuning.paddleW);
+
+  // Solo / versus / training: step the local sim in whole SIM_DT ticks
+  // A bot that throws is dropped for the rest of the match and Auto takes its end
+  const driveBot = (view: SimState): number | null => {
+    try {
+      return botRef.current ? botRef.current(view) : null;
+    } catch (e) {
+      botRef.current = null;
+      onBotError(e);
+      return null;
+    }
+  };
+
+  const frameLocal = (targetX: number, delta: number, sign: number): SimState | null => {
+    // A drill runs on through the end of each ball, so only a match stops at a point
+    const training = mode === "training" ? trainingRef.current : null;
+    if (phase !== "playing" || (training ? trainingDone(training) : simRef.current.scorer)) { accRef.current = 0; return null; }
+    accRef.current += Math.min(delta, 0.05) * (arcadeRef.current ? timeScale(arcadeRef.current) : 1);
+    const p2Axis = mode === "versus" ? (inputRef.current?.p2Axis() ?? 0) * sign : 0;
+
+    let s = simRef.current;
+    while (accRef.current >= SIM_DT && (training || !s.scorer)) {
+      accRef.current -= SIM_DT;
+      const t = trainingRef.current;
+      if (training && t) {
+        const res = stepTraining(t, s, quantise(targetX), params);
+        trainingRef.current = res.training;
+        s = res.state;
+        res.events.forEach(e => playEventSound(e, s.pos.x));
+        if (res.result || res.training.fired !== t.fired) onTraining(res.training);
+        if (trainingDone(res.training)) { onTraining(res.training); break; }
+        continue;
+      }
+      const a = arcadeRef.current;
+      const reversed = (side: Side) => !!a && hasEffect(a, "reverse", side);
+      let aiX: number;
+      if (mode === "versus") {
+        p2Ref.current = stepKeyPaddle({ ...p2Ref.current, x: s.aiX }, reversed("ai") ? -p2Axis : p2Axis, SIM_DT, maxX);
+        aiX = p2Ref.current.x;
+      } else {
+        // With several balls in play Auto watches the most urgent one, and
+        // switching costs it a fresh reaction delay
+        const focus = a ? focusBall(a.balls, "ai") : 0;
+        if (focus !== focusRef.current) { focusRef.current = focus; brainRef.current = { ...brainRef.current, shot: "" }; }
+        const view = a ? a.balls[focus] : s;
+        const botX = driveBot(view);
+        if (botX !== null) aiX = botX;
+        else [aiX, brainRef.current] = think(brainRef.current, view, a ? arcadeParams(a, aiParams) : aiParams, opponent?.style ?? aiStyle);
+        if (reversed("ai")) aiX = reverseInput(aiX, s.aiX, false);
+      }
+      const playerX = reversed("player") ? reverseInput(targetX, s.playerX, true) : targetX;
+      const input = { playerX: quantise(playerX), aiX: quantise(aiX) };
+      if (a) {
+        const res = stepArcade(a, input, params);
+        arcadeRef.current = res.state;
+        s = res.lead;
+        res.events.forEach(e => e.type === "pickup" ? getAudio().play("pickup") : playEventSound(e, s.pos.x));
+        continue;
       }
-      pos.z = PLAYER_Z - PADDLE_D / 2 - BALL_R;
-      beep(640, 0.09);
+      const res = step(s, input, params);
+      s = res.state;
+      if (recRef.current) recordTick(recRef.current, input, s);
+      res.events.forEach(e => playEventSound(e, s.pos.x));
     }
+    simRef.current = s;
+    if (!training && s.scorer && s.fault) { onScore(s.scorer, s.fault); return null; }
+    return s;
+  };
 
-    // AI hit
-    if (vel.z < 0
-      && pos.z <= AI_Z + PADDLE_D / 2 + BALL_R
-      && pos.z >= AI_Z - PADDLE_D / 2 - BALL_R
-      && Math.abs(pos.x - aiXRef.current) < PADDLE_W / 2 + BALL_R) {
-      vel.z = Math.abs(vel.z);
-      vel.x += ((pos.x - aiXRef.current) / (PADDLE_W / 2)) * 2;
-      if (!firstHitRef.current) {
-        firstHitRef.current = true;
-        const dir = vel.clone().normalize();
-        vel.copy(dir.multiplyScalar(DIFF[difficulty].speedInit));
-      } else if (vel.length() < speedMax) {
-        vel.multiplyScalar(1.03);
+  // Online: the server runs the rally; we send our paddle and draw its
+  // predicted view
+  const frameOnline = (targetX: number): SimState | null => {
+    const net = netRef.current;
+    if (!net || !onlineSide || (phase !== "playing" && phase !== "between")) return null;
+    // The guest looks down the table from the far end, so screen-right is world -x
+    const localX = onlineSide === "ai" ? -targetX : targetX;
+    net.sendInput(localX);
+    return net.view(localX, performance.now());
+  };
+
+  // Attract and WATCH: step Auto against Auto, or a loaded bot. The attract
+  // match rolls straight on into a new one; a watched match stops at its end.
+  // A bot that throws holds its paddle for that tick and Auto takes over
+  const watchDriver = (side: Side): PaddleController | undefined => {
+    const d = watchBotsRef.current[side];
+    return d && (s => {
+      try {
+        return d(s);
+      } catch (e) {
+        onBotError(e, side);
+        return side === "player" ? s.playerX : s.aiX;
+      }
+    });
+  };
+  const frameExhibition = (delta: number): Exhibition => {
+    const watching = exhibition === "watch";
+    let ex = exhibitionRef.current;
+    if (!ex || (!watching && ex.score.winner && ex.wait === 0)) ex = randomExhibition(randomSeed());
+    accRef.current += Math.min(delta, 0.05);
+    let news = false;
+    while (accRef.current >= SIM_DT) {
+      accRef.current -= SIM_DT;
+      const res = stepExhibition(ex, watching ? { player: watchDriver("player"), ai: watchDriver("ai") } : {});
+      ex = res.state;
+      for (const e of res.events) {
+        if (e.type === "hit" || e.type === "score") news = true;
+        // Behind the menus the demo plays silently
+        if (watching) playEventSound(e, ex.sim.pos.x);
       }
-      pos.z = AI_Z + PADDLE_D / 2 + BALL_R;
-      beep(520, 0.09);
+    }
+    exhibitionRef.current = ex;
+    if (watching && news) onExhibition(ex);
+    return ex;
+  };
+
+  // Replays: step through recorded frames instead of the sim
+  const framePlayback = (pb: Playback, delta: number): Frame => {
+    const last = pb.frames.length - 1;
+    if (!pb.paused) pb.t = Math.min(pb.t + delta * pb.speed / SIM_DT, last);
+    if (pb.t >= last) {
+      if (pb.onEnd) pb.onEnd();
+      else pb.paused = true;
+    }
+    return pb.frames[Math.floor(pb.t)];
+  };
+
+  // An online guest plays the far paddle, so the table is turned round for
+  // them and "your" colours go to that side. A colour-safe palette overrides
+  // both the pickers and a ladder opponent's colours.
+  const guest = onlineSide === "ai";
+  const pal   = settings.palette === "standard" ? null : PALETTES[settings.palette].sides;
+  const you   = pal ? { paddle: pal.player, hand: pal.player } : { paddle: settings.playerColor, hand: settings.playerHand };
+  const them  = pal ? { paddle: pal.ai, hand: pal.ai }
+    : guest ? { paddle: settings.aiColor, hand: settings.aiHand }
+    : { paddle: opponent?.color ?? settings.aiColor, hand: opponent?.hand ?? settings.aiHand };
+  const [near, far] = guest ? [them, you] : [you, them];
+  const paddle = { player: near.paddle, ai: far.paddle };
+  const hand   = { player: near.hand,   ai: far.hand };
+
+  useFrame(({ camera, clock }, delta) => {
+    const pb = playbackRef.current;
+    unshake(fx, camera);
+
+    // The input layer hands over a device-independent intent, -1..1 of the
+    // paddle's reach across the screen; the camera decides which way that is
+    const sign    = screenSign(shotRef.current);
+    const targetX = (inputRef.current?.paddle(delta) ?? 0) * maxX * sign;
+    const ex  = pb || !exhibition ? null : frameExhibition(delta);
+    const sim = pb ? null : ex ? ex.sim : mode === "online" ? frameOnline(targetX) : frameLocal(targetX, delta, sign);
+    const s   = pb ? framePlayback(pb, delta) : sim;
+
+    // Assist: mark where a ball on its way to you will reach your paddle
+    const guide = guideRef.current;
+    if (guide) {
+      const c = sim && !ex && !sim.scorer && sim.vel.z * PADDLES.player.out < 0 ? predictCrossing(sim, PLAYER_FACE) : null;
+      guide.visible = !!c;
+      if (c) guide.position.x = c.x;
+    }
+
+    // Rigs frame the table from the local player's end, turned round for a guest
+    if (s) {
+      const flip = onlineSide === "ai" ? -1 : 1;
+      subject.current = {
+        ball:  { x: s.pos.x * flip, y: s.pos.y, z: s.pos.z * flip },
+        nearX: flip > 0 ? s.playerX : -s.aiX,
+        hits:  s.hits,
+      };
+    }
+    // Attract circles the table slowly; reduced motion parks it overhead
+    const shot = exhibition === "attract" && !settings.reducedMotion ? orbitShot(clock.elapsedTime, shotRef.current)
+      : cameraShot(exhibition === "attract" ? "overhead" : cameraMode, settings.reducedMotion ? STILL_SUBJECT : subject.current, shotRef.current);
+    const cam  = pb?.sideCam ? SIDE_CAM : shot;
+    const lens = camera as THREE.PerspectiveCamera;
+    // Reduced motion holds the rigs still and cuts between them instead of sweeping
+    const ease = settings.reducedMotion ? 1 : CAM_EASE;
+    camera.position.lerp(cam.pos, ease);
+    camLook.current.lerp(cam.look, ease);
+    camera.lookAt(camLook.current);
+    if (Math.abs(lens.fov - cam.fov) > 0.01) {
+      lens.fov += (cam.fov - lens.fov) * ease;
+      lens.updateProjectionMatrix();
+    }
+    if (vfx.shake) shake(fx, camera, clock.elapsedTime, delta);
+    const idle = ex ? ex.wait > 0 : phase === "between";
+    poseHands(rig.current, s, clock.elapsedTime, delta, idle && !settings.reducedMotion, ex ? ex.score.winner : winner);
+    if (!s) return;
+
+    const a = !pb && !ex && mode !== "online" ? arcadeRef.current : null;
+    let paddleW = { player: tuning.paddleW, ai: tuning.paddleW };
+    if (a) {
+      // The HUD counts down in whole seconds, so only tell it when one ticks over
+      const hud = a.effects.map(e => `${e.kind}${e.side}${Math.ceil(e.ttl / SIM_HZ)}`).join();
+      if (hud !== hudRef.current) { hudRef.current = hud; onEffects(a.effects); }
+      const widths = arcadeParams(a, params).widths ?? {};
+      const view: ArcadeView = {
+        pickups: a.pickups,
+        fading:  a.pickups.filter(p => p.ttl < SIM_HZ * 2).map(p => p.id),
+        shields: (["player", "ai"] as const).filter(side => hasEffect(a, "shield", side)),
+        widths:  { player: widths.player ?? tuning.paddleW, ai: widths.ai ?? tuning.paddleW },
+      };
+      paddleW = view.widths;
+      const key = `${a.pickups.map(p => p.id)}|${view.fading}|${view.shields}|${view.widths.player}|${view.widths.ai}`;
+      if (key !== viewKey.current) { viewKey.current = key; setArcade(view); }
+    } else if (viewKey.current) {
+      viewKey.current = "";
+      setArcade(null);
     }
 
-    if (pos.z >  TABLE_D / 2 + 0.5) { scoredRef.current = true; onScore("ai");     return; }
-    if (pos.z < -TABLE_D / 2 - 0.5) { scoredRef.current = true; onScore("player"); return; }
+    const balls = a ? a.balls : [s];
+    for (let i = 0; i < BALL_SLOTS; i++) {
+      const g = ballRefs.current[i], b = balls[i];
+      if (!g) continue;
+      g.visible = !!b;
+      if (!b) continue;
+      g.position.set(b.pos.x, b.pos.y, b.pos.z);
+      const spin = spinRefs.current[i];
+      const w = Math.hypot(b.spin.x, b.spin.y, b.spin.z);
+      if (spin && w > 0) {
+        spinAxis.set(b.spin.x / w, b.spin.y / w, b.spin.z / w);
+        spin.rotateOnWorldAxis(spinAxis, w * delta);
+      }
+    }
+    for (const side of ["player", "ai"] as const) {
+      const l = lift.current[side] += (paddleLift(s, side) - lift.current[side]) * 0.3;
+      const x = side === "player" ? s.playerX : s.aiX;
+      paddleRefs.current[side]?.position.set(x, l, 0);
+      handRefs.current[side]?.position.set(x, l, 0);
+    }
 
-    setBallPos(pos.clone());
-    setPlayerX(playerXRef.current);
-    setAiX(aiXRef.current);
+    // A drill's far end is the ball machine, which gets no sparks or flash,
+    // and its balls ending aren't points
+    const look = (side: Side): PaddleLook => ({ x: side === "player" ? s.playerX : s.aiX, lift: lift.current[side], width: paddleW[side], color: paddle[side] });
+    const paddles = drill ? { player: look("player") } : { player: look("player"), ai: look("ai") };
+    runVfx(fx, s, balls, drill ? null : sim?.scorer ?? null, paddles, vfx, delta);
   });
 
+  const jointSegs = Math.max(6, Math.round(settings.ballSegments * 0.4));
+  const boneSetter = (side: Side): OnBone => (b, g) => {
+    if (g) rig.current.bones[side][b] = g;
+    else delete rig.current.bones[side][b];
+  };
   return (
-    <>
-      <Table />
-      <Ball pos={ballPos} />
-      <Paddle x={playerX} z={PLAYER_Z} color="#00c8e0" />
-      <Paddle x={aiX}     z={AI_Z}     color="#cc3333" />
-      <FloatingHand x={playerX} isPlayer={true}  color="#00c8e0" />
-      <FloatingHand x={aiX}     isPlayer={false} color="#cc3333" />
-    </>
+    <group rotation={[0, guest ? Math.PI : 0, 0]}>
+      <Table color={settings.tableColor} />
+      <primitive object={fx.group} />
+      {Array.from({ length: BALL_SLOTS }, (_, i) => (
+        <Ball key={i} ref={g => { ballRefs.current[i] = g; }} spinRef={g => { spinRefs.current[i] = g; }} segments={settings.ballSegments} contrast={settings.contrastBall} />
+      ))}
+      {arcade?.pickups.map(p => <PickupOrb key={p.id} p={p} fading={arcade.fading.includes(p.id)} still={settings.reducedMotion} />)}
+      {arcade?.shields.map(side => <Shield key={side} side={side} color={paddle[side]} />)}
+      <Paddle ref={g => { paddleRefs.current.player = g; }} z={PLAYER_Z} width={arcade?.widths.player ?? tuning.paddleW} color={paddle.player} />
+      {settings.assist && settings.aimGuide && mode !== "online" && (
+        <mesh ref={guideRef} visible={false} position={[0, TABLE_H / 2 + 0.006, PLAYER_FACE]} rotation={[-Math.PI / 2, 0, 0]}>
+          <ringGeometry args={[BALL_R * 1.6, BALL_R * 2.4, 24]} />
+          <meshBasicMaterial color={paddle.player} transparent opacity={0.8} />
+        </mesh>
+      )}
+      <FloatingHand ref={g => { handRefs.current.player = g; }} onBone={boneSetter("player")} isPlayer={true} color={hand.player} segs={jointSegs} />
+      {drill ? (
+        <>
+          <BallMachine />
+          {drill.targets.map((t, i) => <TargetZone key={i} t={t} />)}
+        </>
+      ) : (
+        <>
+          <Paddle ref={g => { paddleRefs.current.ai = g; }} z={AI_Z} width={arcade?.widths.ai ?? tuning.paddleW} color={paddle.ai} />
+          <FloatingHand ref={g => { handRefs.current.ai = g; }} onBone={boneSetter("ai")} isPlayer={false} color={hand.ai} segs={jointSegs} />
+        </>
+      )}
+    </group>
   );
 }
 
-// ─── Helpers ─────────────────────────────────────────────────
-function doReset(
-  ballRef:       React.MutableRefObject<THREE.Vector3>,
-  velRef:        React.MutableRefObject<THREE.Vector3>,
-  firstHitRef:   React.MutableRefObject<boolean>,
-  diff: Difficulty, towardPlayer: boolean
-) {
-  const a = (Math.random() - 0.5) * 0.5;
-  ballRef.current.set(0, TABLE_H / 2 + BALL_R + 0.01, 0);
-  // Always launch slow — ramps to full speed on first paddle hit
-  velRef.current.set(
-    Math.sin(a) * BALL_LAUNCH_SPEED,
-    0,
-    (towardPlayer ? 1 : -1) * Math.cos(a) * BALL_LAUNCH_SPEED
+// ─── Score counter ───────────────────────────────────────────
+// Jumps when its number goes up. Played through the Web Animations API, so
+// the pop needs no stylesheet and no re-render of its own.
+function ScoreCount({ value, pop }: { value: number; pop: boolean }) {
+  const ref  = useRef<HTMLSpanElement>(null);
+  const last = useRef(value);
+  useEffect(() => {
+    const up = value > last.current;
+    last.current = value;
+    if (up && pop) ref.current?.animate(
+      [{ transform: "scale(1.8)", filter: "brightness(2)" }, { transform: "scale(1)", filter: "brightness(1)" }],
+      { duration: 450, easing: "cubic-bezier(0.2, 0.8, 0.3, 1)" },
+    );
+  }, [value, pop]);
+  return <span ref={ref} style={{ display:"inline-block" }}>{value}</span>;
+}
+
+// ─── Confetti ────────────────────────────────────────────────
+// Pieces in the game's neon colours plus the winner's, falling twice over
+// the won screen and then gone. Sits under the overlay's text.
+const CONFETTI_COLORS = ["#00e5ff", "#ff4fa3", "#ffaa00", "#00ff88", "#b967ff", "#ffffff"];
+
+function Confetti({ count, color }: { count: number; color: string }) {
+  const ref    = useRef<HTMLDivElement>(null);
+  const colors = useMemo(() => [...CONFETTI_COLORS, color, color], [color]);
+  const pieces = useMemo(() => confettiPieces(count, colors.length), [count, colors]);
+  useEffect(() => {
+    const els = ref.current?.children;
+    if (!els) return;
+    const falls = pieces.map((p, i) => els[i].animate(
+      [{ transform: "translate(0, 0) rotate(0deg)" }, { transform: `translate(${p.drift}px, calc(100vh + 40px)) rotate(${p.turn}deg)` }],
+      { duration: p.fall * 1000, delay: p.delay * 1000, iterations: 2 },
+    ));
+    return () => falls.forEach(f => f.cancel());
+  }, [pieces]);
+  return (
+    <div ref={ref} aria-hidden="true" style={{ position:"absolute", inset:0, overflow:"hidden", pointerEvents:"none", zIndex:-1 }}>
+      {pieces.map((p, i) => (
+        <span key={i} style={{ position:"absolute", top:-30, left:`${p.x}%`, width:p.w, height:p.h, background:colors[p.color], borderRadius:2 }} />
+      ))}
+    </div>
   );
-  firstHitRef.current = false; // reset flag
 }
 
 // ─── Root ────────────────────────────────────────────────────
 export default function Game() {
   const [phase,      setPhase]      = useState<Phase>("start");
+  const [mode,       setMode]       = useState<Mode>("solo");
+  const [versusNames, setVersusNames] = useState<Record<Side, string>>({ player: "P1", ai: "P2" });
   const [difficulty, setDifficulty] = useState<Difficulty>("medium");
-  const [scores,     setScores]     = useState({ player: 0, ai: 0 });
-  const [winner,     setWinner]     = useState<"Player" | "Auto" | null>(null);
-
-  const ndcRef      = useRef({ x: 0, y: 0 });
-  const ballRef     = useRef(new THREE.Vector3(0, TABLE_H / 2 + BALL_R + 0.01, 0));
-  const velRef      = useRef(new THREE.Vector3(0, 0, BALL_LAUNCH_SPEED));
-  const playerXRef  = useRef(0);
-  const aiXRef      = useRef(0);
-  const firstHitRef = useRef(false);
-
-  const startGame = useCallback((diff: Difficulty) => {
-    setScores({ player: 0, ai: 0 });
-    setWinner(null);
-    setDifficulty(diff);
-    doReset(ballRef, velRef, firstHitRef, diff, true);
+  const [aiStyle,    setAiStyle]    = useState<AiStyle>("aggressive");
+  const [ruleset,    setRuleset]    = useState<RulesetId>("classic");
+  const [bestOf,     setBestOf]     = useState<BestOf>(3);
+  const [match,      setMatch]      = useState<MatchScore>(() => newMatch());
+  const [winner,     setWinner]     = useState<Side | null>(null);
+  const [lastFault,  setLastFault]  = useState<Fault | null>(null);
+  const [online,     setOnline]     = useState<OnlineState>(OFFLINE);
+  const [onlineName, setOnlineName] = useState("");
+  const [joinCode,   setJoinCode]   = useState("");
+  const [ping,       setPing]       = useState<number | null>(null);
+  const [instantReplay, setInstantReplay] = useState(false);
+  const [viewer,     setViewer]     = useState<{ file: ReplayFile; timeline: ReplayTimeline } | null>(null);
+  const [viewerT,    setViewerT]    = useState(0);
+  const [viewerCtl,  setViewerCtl]  = useState({ paused: false, speed: 1 });
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [stats,      setStats]      = useState<Stats>(emptyStats);
+  const [career,     setCareer]     = useState<Career>(emptyCareer);
+  const [opponent,   setOpponent]   = useState<Opponent | null>(null); // set for ladder matches
+  const [newRung,    setNewRung]    = useState<Opponent | null>(null); // unlocked by the match just won
+  const [adaptive,   setAdaptive]   = useState<SkillEstimate | null>(null); // set for ADAPTIVE matches
+  const [savedSkill, setSavedSkill] = useState(loadSkill); // where the next one starts
+  const [effects,    setEffects]    = useState<Effect[]>([]); // ARCADE power-ups in play
+  const [drill,      setDrill]      = useState<Drill | null>(null);
+  const [training,   setTraining]   = useState<TrainingState | null>(null); // the drill in progress, for the HUD
+  const [customDrills, setCustomDrills] = useState<Drill[]>([]); // loaded from files this session
+  const [drillError, setDrillError] = useState<string | null>(null);
+  const [bot,        setBot]        = useState<BotModule | null>(null); // loaded with LOAD BOT, plays instead of Auto
+  const [vsBot,      setVsBot]      = useState<BotModule | null>(null); // the bot in the match being played
+  const [botError,   setBotError]   = useState<string | null>(null);
+  const [attract,    setAttract]    = useState(false); // the start menu has stepped aside for the demo
+  const [watchSides, setWatchSides] = useState<Record<Side, Difficulty>>({ player: "hard", ai: "medium" });
+  const [watchBots,  setWatchBots]  = useState<Record<Side, BotModule | null>>({ player: null, ai: null }); // bots playing WATCH ends instead of Auto
+  const [watchView,  setWatchView]  = useState<Exhibition | null>(null); // the watched match, as of its last hit
+  const [board,      setBoard]      = useState<{ query: BoardQuery; entries: Entry[] | null; error: string | null }>({
+    query: { difficulty: null, window: "week" }, entries: null, error: null,
+  });
+  const [posting,    setPosting]    = useState<Posting>({ status: "idle" }); // the won match's leaderboard submission
+  const [bests,      setBests]      = useState<TrainingBests>({});
+  const [report,     setReport]     = useState<{ summary: DrillSummary; improved: boolean } | null>(null);
+  const [openMatch,  setOpenMatch]  = useState<number | null>(null);
+  const [confirmReset, setConfirmReset] = useState(false);
+  const [inputCfg,   setInputCfg]   = useState<InputConfig>(loadInputConfig); // client-only component
+  const [binding,    setBinding]    = useState<string | null>(null); // slot waiting for a key or button
+  const [bindNote,   setBindNote]   = useState<string | null>(null); // why the last key pressed wasn't bound
+  const [audioCfg,   setAudioCfg]   = useState<AudioSettings>(() => getAudio().settings());
+  const [cameraMode, setCameraMode] = useState<CameraMode>(loadCameraMode);
+  const [settings,   setSettings]   = useState<Settings>(loadSettings);
+  const [renderScale, setRenderScale] = useState(1); // × pixel ratio, lowered when frames run late
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  const [settingsTab, setSettingsTab] = useState<SettingsTab>("gameplay");
+  const [settingsFrom, setSettingsFrom] = useState<"start" | "paused">("start");
+  const [pausedFrom, setPausedFrom] = useState<"playing" | "between">("playing");
+  const [countdown,  setCountdown]  = useState(0);
+  const [pointTimer] = useState(createPausableTimer); // the wait before the next serve
+  const [countTimer] = useState(createPausableTimer); // the 3-2-1 after a pause
+
+  const rootRef  = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<InputController | null>(null);
+  const actionRef = useRef<(a: UiAction) => void>(() => {});
+  const simRef   = useRef<SimState>(createSim(0));
+  const brainRef = useRef<AiBrain>(createBrain("ai", 0));
+  const botRef   = useRef<PaddleController | null>(null);
+  const demoRef  = useRef<Exhibition | null>(null);  // attract mode's match
+  const watchRef = useRef<Exhibition | null>(null);  // WATCH's
+  const watchBotsRef = useRef<Partial<Record<Side, PaddleController>>>({}); // and the bots driving its ends
+  const wokeAt   = useRef(0);
+  const netRef   = useRef<NetClient | null>(null);
+  const matchRef = useRef<MatchScore>(match);
+  const adaptRef = useRef<SkillEstimate | null>(null);
+  const recRef   = useRef<Recorder | null>(null);
+  const arcadeRef = useRef<ArcadeState | null>(null);
+  const trainingRef = useRef<TrainingState | null>(null);
+  const playbackRef = useRef<Playback | null>(null);
+  const fileRef  = useRef<HTMLInputElement>(null);
+  const drillFileRef = useRef<HTMLInputElement>(null);
+  const botFileRef = useRef<HTMLInputElement>(null);
+  const botTarget  = useRef<Side | null>(null); // where LOAD BOT puts the bot: a WATCH end, or null for the solo opponent
+  const pointsRef = useRef<PointRecord[]>([]);
+
+  const names: Record<Side, string> =
+      phase === "replay" && viewer ? viewer.file.names
+    : phase === "spectate" && watchView ? exhibitionNames(watchView.sides)
+    : mode === "versus" ? versusNames
+    : mode === "online" && online.room ? { player: online.room.names.player ?? "HOST", ai: online.room.names.ai ?? "GUEST" }
+    : opponent ? { ...SOLO_NAMES, ai: opponent.name }
+    : vsBot ? { ...SOLO_NAMES, ai: vsBot.name.toUpperCase() }
+    : SOLO_NAMES;
+  // The side this screen's player is on, if there is exactly one
+  const me: Side | null = mode === "solo" ? "player" : mode === "online" ? online.side : null;
+
+  // ─── Online ───
+  // The server drives phase and score; we mirror whatever room state it sends
+  const applyRoom = useCallback((room: RoomInfo) => {
+    setOnline(o => ({ ...o, room }));
+    matchRef.current = room.score;
+    setMatch(room.score);
+    setLastFault(room.lastFault);
+    if (room.phase === "waiting") { setPhase("online"); return; }
+    setMode("online");
+    if (room.phase === "won") { setWinner(room.winner); setPhase("won"); }
+    else setPhase(room.phase === "playing" ? "playing" : "between");
+  }, []);
+
+  // Opening the client also reclaims a seat this tab held before a reload
+  const openNet = useCallback((): NetClient => {
+    if (netRef.current) return netRef.current;
+    netRef.current = createNetClient(matchServerUrl(), {
+      onStatus: status => setOnline(o => ({ ...o, status })),
+      onSeat:   side   => setOnline(o => ({ ...o, side, error: null })),
+      onRoom:   applyRoom,
+      onEvents: (events, x, side) => events.forEach(e => playEventSound(e, x, side === "ai")),
+      onError:  error  => setOnline(o => ({ ...o, error })),
+    });
+    return netRef.current;
+  }, [applyRoom]);
+
+  const leaveOnline = useCallback(() => {
+    netRef.current?.close();
+    netRef.current = null;
+    setOnline(OFFLINE);
+    setPing(null);
+    setMode("solo");
+  }, []);
+
+  useEffect(() => () => netRef.current?.close(), []);
+
+  useEffect(() => {
+    if (mode !== "online" && phase !== "online") return;
+    const id = setInterval(() => setPing(netRef.current?.rtt() ?? null), 1000);
+    return () => clearInterval(id);
+  }, [mode, phase]);
+
+  const quitToMenu = useCallback(() => {
+    if (mode === "online") leaveOnline();
+    pointTimer.cancel();
+    countTimer.cancel();
+    playbackRef.current = null;
+    setInstantReplay(false);
+    setPhase("start");
+  }, [mode, leaveOnline, pointTimer, countTimer]);
+
+  // ─── Pause ───
+  // Only local matches can stop the clock; online the server keeps playing.
+  // Everything time-based (the next-serve wait, an instant replay) freezes
+  // with the game and picks up where it left off after a 3-2-1.
+  const pauseGame = useCallback(() => {
+    if (mode === "online") return;
+    if (phase === "countdown") countTimer.cancel();
+    else if (phase === "playing" || phase === "between") setPausedFrom(phase);
+    else return;
+    pointTimer.pause();
+    if (playbackRef.current) playbackRef.current.paused = true;
+    inputRef.current?.releasePointer();
+    setPhase("paused");
+  }, [mode, phase, pointTimer, countTimer]);
+
+  const resumeGame = useCallback(() => {
+    if (inputCfg.device === "locked") inputRef.current?.lockPointer();
+    const tick = (n: number) => {
+      setCountdown(n);
+      if (n > 0) { countTimer.set(() => tick(n - 1), 1000); return; }
+      if (playbackRef.current) playbackRef.current.paused = false;
+      pointTimer.resume();
+      setPhase(pausedFrom);
+    };
+    setPhase("countdown");
+    tick(3);
+  }, [inputCfg.device, pausedFrom, pointTimer, countTimer]);
+
+  // Leaving the tab or the window, or losing Pointer Lock (Esc), pauses too
+  useEffect(() => {
+    const onVisibility = () => { if (document.hidden) pauseGame(); };
+    const onLockChange = () => { if (!document.pointerLockElement && inputCfg.device === "locked") pauseGame(); };
+    document.addEventListener("visibilitychange", onVisibility);
+    document.addEventListener("pointerlockchange", onLockChange);
+    window.addEventListener("blur", pauseGame);
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibility);
+      document.removeEventListener("pointerlockchange", onLockChange);
+      window.removeEventListener("blur", pauseGame);
+    };
+  }, [pauseGame, inputCfg.device]);
+
+  // ─── Input ───
+  useEffect(() => {
+    const input = createInput(rootRef.current!, loadInputConfig(), a => actionRef.current(a));
+    inputRef.current = input;
+    return () => { input.dispose(); inputRef.current = null; };
+  }, []);
+
+  // Audio can only start inside a user gesture; the first one anywhere will do
+  useEffect(() => {
+    const unlock = () => getAudio().unlock();
+    window.addEventListener("pointerdown", unlock);
+    window.addEventListener("keydown", unlock);
+    return () => {
+      window.removeEventListener("pointerdown", unlock);
+      window.removeEventListener("keydown", unlock);
+    };
+  }, []);
+
+  const updateSettings = (s: Settings) => {
+    setSettings(s);
+    saveSettings(s);
+  };
+
+  const openSettings = (from: "start" | "paused") => {
+    setSettingsFrom(from);
+    setPhase("settings");
+  };
+
+  const closeSettings = () => {
+    inputRef.current?.capture(null);
+    setBinding(null);
+    setPhase(settingsFrom);
+  };
+
+  const updateCamera = (m: CameraMode) => {
+    setCameraMode(m);
+    saveCameraMode(m);
+  };
+
+  const updateAudio = (cfg: AudioSettings) => {
+    setAudioCfg(cfg);
+    getAudio().setSettings(cfg);
+  };
+
+  useEffect(() => {
+    if (phase !== "won" || !winner) return;
+    getAudio().play(me === null || winner === me ? "win" : "lose");
+  }, [phase, winner, me]);
+
+  const updateInput = (cfg: InputConfig) => {
+    setInputCfg(cfg);
+    inputRef.current?.setConfig(cfg);
+    saveInputConfig(cfg);
+  };
+
+  // Pointer Lock only holds while a rally is on screen; menus need the cursor
+  useEffect(() => {
+    if (phase !== "playing" && phase !== "between") inputRef.current?.releasePointer();
+  }, [phase]);
+
+  // Each menu opens with focus on its first button
+  useEffect(() => { focusMenu(); }, [phase, attract]);
+
+  // ─── Attract ───
+  // Left alone on the start screen, the menu steps aside for the demo. The
+  // input that brings it back does only that: it doesn't press anything, and
+  // the demo plays on from where it was.
+  useEffect(() => {
+    if (phase !== "start") return;
+    let timer = 0;
+    const arm = () => { window.clearTimeout(timer); timer = window.setTimeout(() => setAttract(true), ATTRACT_MS); };
+    const onInput = (e: Event) => {
+      if (!attract) { arm(); return; }
+      if (e.type !== "pointermove") { e.preventDefault(); e.stopImmediatePropagation(); }
+      wokeAt.current = e.timeStamp;
+      setAttract(false);
+    };
+    // A press that woke the menu would otherwise land as a click on whatever it brought back
+    const onClick = (e: MouseEvent) => {
+      if (e.timeStamp - wokeAt.current < 1000) { e.preventDefault(); e.stopImmediatePropagation(); wokeAt.current = 0; }
+    };
+    if (!attract) arm();
+    WAKE_EVENTS.forEach(t => window.addEventListener(t, onInput, { capture: true, passive: false }));
+    window.addEventListener("click", onClick, true);
+    return () => {
+      window.clearTimeout(timer);
+      WAKE_EVENTS.forEach(t => window.removeEventListener(t, onInput, { capture: true }));
+      window.removeEventListener("click", onClick, true);
+    };
+  }, [phase, attract]);
+
+  const localRules  = useMemo(() => rulesFor(ruleset, bestOf, settings.classicPoints), [ruleset, bestOf, settings.classicPoints]);
+  const localTuning = useMemo(() => tuningOf(settings), [settings]);
+  const rulesetSub  = (r: RulesetId) => r === "classic" ? `Arcade · First to ${settings.classicPoints}` : RULESETS[r].sub;
+  const rules =
+      phase === "replay" && viewer ? viewer.file.rules
+    : phase === "spectate" && watchView ? watchView.rules
+    : mode === "online" && online.room ? online.room.rules
+    : localRules;
+  const gameEnded = match.history.length > 0 && match.points.player + match.points.ai === 0;
+  const inPlay    = phase === "playing" || phase === "between" || phase === "countdown";
+  const sideCol   = PALETTES[settings.palette].sides;
+  const vfx       = vfxOptions(settings);
+  // The leaderboard takes solo wins over plain Auto at standard rules; the server checks the rest
+  const boardMatch = mode === "solo" && !opponent && !adaptive && !vsBot && localRules.ruleset !== "arcade"
+    && localRules.points === rulesFor(localRules.ruleset, localRules.bestOf).points;
+  // A paused match keeps the table while its settings are open
+  const exhibition = phase === "spectate" ? "watch" as const
+    : ATTRACT_PHASES.includes(phase) && !(phase === "settings" && settingsFrom === "paused") ? "attract" as const
+    : null;
+  // While watching a replay file the HUD shows the score before the point on screen
+  const viewerPoint = viewer ? Math.max(0, viewer.timeline.points.filter(p => p.start <= viewerT).length - 1) : 0;
+  const hud = phase === "replay" && viewer
+    ? (viewerPoint > 0 ? viewer.timeline.points[viewerPoint - 1].score : newMatch())
+    : phase === "spectate" && watchView ? watchView.score
+    : match;
+  const fault     = phase === "spectate" ? watchView?.lastPoint?.fault ?? null : lastFault;
+  const liveText  =
+      phase === "won" && winner ? resultAnnouncement(names, winner, hud.points, rules.bestOf > 1 ? hud.games : null)
+    : phase === "report" && training ? `Drill over. Score ${summarise(training).score}`
+    : mode === "training" && training && (phase === "playing" || phase === "paused") ? `Ball ${training.fired} of ${training.drill.balls}. Score ${summarise(training).score}`
+    : phase === "spectate" && watchView?.score.winner ? resultAnnouncement(names, watchView.score.winner, hud.points, rules.bestOf > 1 ? hud.games : null)
+    : phase === "playing" || phase === "between" || phase === "paused" || (phase === "spectate" && watchView?.lastPoint)
+      ? scoreAnnouncement(names, hud.points, rules.bestOf > 1 ? hud.games : null, fault && FAULT_LABEL[fault])
+    : "";
+
+  const serveNext = useCallback((m: MatchScore) => {
+    const towardPlayer = m.server === "ai";
+    simRef.current = serve(simRef.current, towardPlayer, localTuning.serveSpeed);
+    if (arcadeRef.current) arcadeRef.current = arcadeServe(arcadeRef.current, simRef.current);
+    if (recRef.current) recordServe(recRef.current, simRef.current, towardPlayer, adaptRef.current?.skill);
     setPhase("playing");
+  }, [localTuning.serveSpeed]);
+
+  // A bot that throws is unloaded, and Auto plays the rest of the match.
+  // `watchSide` is the WATCH end it was playing; without it, the solo opponent.
+  // This runs from the frame loop, so it never throws: spawnBot and
+  // botController wrap a bot's own errors in a BotError, and anything else
+  // from that call falls back to Auto the same way rather than stop the scene
+  const dropBot = useCallback((e: unknown, watchSide?: Side) => {
+    if (watchSide) {
+      delete watchBotsRef.current[watchSide];
+      setWatchBots(w => ({ ...w, [watchSide]: null }));
+    } else {
+      botRef.current = null;
+      setBot(null);
+    }
+    setBotError(e instanceof BotError ? e.message : `Bot failed: ${e instanceof Error ? e.message : String(e)}`);
   }, []);
 
-  const handleScore = useCallback((scorer: "player" | "ai") => {
-    setScores(prev => {
-      const next = {
-        player: scorer === "player" ? prev.player + 1 : prev.player,
-        ai:     scorer === "ai"     ? prev.ai + 1     : prev.ai,
-      };
-      if (next.player >= WIN_SCORE)      { setWinner("Player"); setPhase("won"); }
-      else if (next.ai >= WIN_SCORE)     { setWinner("Auto");     setPhase("won"); }
-      else {
-        setPhase("between");
-        setTimeout(() => {
-          doReset(ballRef, velRef, firstHitRef, difficulty, scorer === "ai");
-          setPhase("playing");
-        }, 1200);
+  const startGame = useCallback((level: Difficulty | "adaptive", m: Mode = "solo", opp: Opponent | null = null) => {
+    pointTimer.cancel();
+    countTimer.cancel();
+    playbackRef.current = null;
+    setInstantReplay(false);
+    const fresh = newMatch();
+    matchRef.current = fresh;
+    setMatch(fresh);
+    setWinner(null);
+    // ADAPTIVE picks up from the skill the last adaptive match ended on
+    const est = level === "adaptive" ? createEstimate(loadSkill()) : null;
+    const diff = est ? nearestDifficulty(est.skill) : level as Difficulty;
+    adaptRef.current = est;
+    setAdaptive(est);
+    setDifficulty(diff);
+    setMode(m);
+    setOpponent(opp);
+    setNewRung(null);
+    const seed = randomSeed();
+    simRef.current   = createSim(seed);
+    brainRef.current = createBrain("ai", autoSeed(seed));
+    // A loaded bot takes Auto's place in a plain solo match, at this difficulty's ball speeds
+    const b = m === "solo" && !opp && !est ? bot : null;
+    const params = tunedParams(diff, localTuning);
+    setBotError(null);
+    try {
+      botRef.current = b && spawnBot(b, { side: "ai", seed: seed ^ 0x1b873593, params });
+      setVsBot(b);
+    } catch (e) {
+      dropBot(e);
+      setVsBot(null);
+    }
+    setPosting({ status: "idle" });
+    // ARCADE isn't recorded: its pickups and extra balls aren't in the replay format
+    const arcade = localRules.ruleset === "arcade";
+    arcadeRef.current = arcade ? createArcade(seed ^ 0x85ebca6b) : null;
+    recRef.current    = arcade ? null : createRecorder(seed, diff, localRules, localTuning);
+    setEffects([]);
+    pointsRef.current = [];
+    // Called from a click, which is the gesture Pointer Lock needs
+    if (inputCfg.device === "locked") inputRef.current?.lockPointer();
+    serveNext(fresh);
+  }, [localRules, localTuning, serveNext, inputCfg.device, pointTimer, countTimer, bot, dropBot]);
+
+  const handleScore = useCallback((scorer: Side, fault: Fault) => {
+    setLastFault(fault);
+    const prev = matchRef.current;
+    const next = scorePoint(prev, scorer, localRules);
+    matchRef.current = next;
+    setMatch(next);
+    const rec = recRef.current;
+    if (rec) recordPoint(rec, scorer);
+    const rally = rec?.rally ?? [];
+    pointsRef.current.push({
+      scorer, fault,
+      hits:     simRef.current.hits,
+      ticks:    Math.max(0, rally.length - 1),
+      topSpeed: rally.reduce((v, f) => Math.max(v, Math.hypot(f.vel.x, f.vel.z)), 0),
+    });
+    const est = adaptRef.current && adaptPoint(adaptRef.current, { won: scorer === "player", hits: simRef.current.hits, fault });
+    if (est) {
+      adaptRef.current = est;
+      setAdaptive(est);
+      setDifficulty(nearestDifficulty(est.skill));
+    }
+
+    if (next.winner) {
+      if (mode === "solo" || mode === "versus") {
+        saveStats(addMatch(loadStats(), {
+          at: new Date().toISOString(),
+          mode,
+          difficulty: est ? nearestDifficulty(est.skill) : difficulty,
+          ...(est && { skill: est.skill }),
+          ...(mode === "solo" && { against: opponent ? "ladder" : vsBot ? "bot" : "auto" }),
+          ruleset: localRules.ruleset,
+          names: mode === "versus" ? versusNames : opponent ? { ...SOLO_NAMES, ai: opponent.name } : vsBot ? { ...SOLO_NAMES, ai: vsBot.name.toUpperCase() } : SOLO_NAMES,
+          winner: next.winner,
+          games: next.games,
+          history: next.history,
+          points: pointsRef.current,
+        }));
+      }
+      if (est) { saveSkill(est.skill); setSavedSkill(est.skill); }
+      if (mode === "solo" && opponent) {
+        const before = loadCareer();
+        const after  = addLadderMatch(before, opponent.id, next);
+        saveCareer(after);
+        setCareer(after);
+        const i = ROSTER.indexOf(opponent);
+        const unlocked = i + 1 < ROSTER.length && rungOf(before, i + 1) === "locked" && rungOf(after, i + 1) !== "locked";
+        setNewRung(unlocked ? ROSTER[i + 1] : null);
       }
-      return next;
+      setWinner(next.winner);
+      setPhase("won");
+      return;
+    }
+
+    setPhase("between");
+    const wait = next.history.length > prev.history.length ? BETWEEN_GAMES_MS : BETWEEN_MS;
+    const resume = () => pointTimer.set(() => serveNext(next), wait);
+    if (!rec || rec.rally.length < INSTANT_REPLAY_MIN || settings.reducedMotion) { resume(); return; }
+
+    playbackRef.current = {
+      frames: rec.rally.slice(-INSTANT_REPLAY_TICKS),
+      t: 0, speed: INSTANT_REPLAY_SPEED, paused: false, sideCam: true,
+      onEnd: () => {
+        playbackRef.current = null;
+        setInstantReplay(false);
+        resume();
+      },
+    };
+    setInstantReplay(true);
+  }, [localRules, serveNext, mode, difficulty, versusNames, opponent, vsBot, pointTimer, settings.reducedMotion]);
+
+  // Bindings screen: a slot waits for the next key (or pad button) pressed.
+  // Escape keeps the old binding, Backspace / Delete clears the slot, and a
+  // key that already moves the other player's paddle is turned away.
+  const bindKey = (id: KeyBinding, slot: number) => {
+    setBinding(`${id}:${slot}`);
+    setBindNote(null);
+    inputRef.current?.capture(got => {
+      setBinding(null);
+      if (!("key" in got) || got.key === "Escape") return;
+      const keys = [...inputCfg.keys[id]];
+      const clash = keyClash(inputCfg.keys, id, got.key);
+      if (got.key === "Backspace" || got.key === "Delete") keys.splice(slot, 1);
+      else if (clash) { setBindNote(`${keyLabel(got.key)} already moves ${clash.startsWith("p2") ? "player two" : "player one"}`); return; }
+      else keys[slot] = got.key;
+      updateInput({ ...inputCfg, keys: { ...inputCfg.keys, [id]: keys.filter(Boolean) } });
     });
-  }, [difficulty]);
+  };
+
+  const bindPad = (id: PadBinding) => {
+    setBinding(`pad:${id}`);
+    inputRef.current?.capture(got => {
+      setBinding(null);
+      if ("button" in got) updateInput({ ...inputCfg, pad: { ...inputCfg.pad, [id]: got.button } });
+    });
+  };
+
+  const openLadder = () => {
+    setCareer(loadCareer());
+    setPhase("ladder");
+  };
+
+  // ─── Training ───
+  const openTraining = () => {
+    setBests(loadBests());
+    setDrillError(null);
+    setPhase("training");
+  };
 
-  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
-    const r = e.currentTarget.getBoundingClientRect();
-    ndcRef.current.x = ((e.clientX - r.left) / r.width) * 2 - 1;
-    ndcRef.current.y = -((e.clientY - r.top) / r.height) * 2 + 1;
+  const startDrill = (d: Drill) => {
+    pointTimer.cancel();
+    countTimer.cancel();
+    playbackRef.current = null;
+    setInstantReplay(false);
+    const seed = randomSeed();
+    simRef.current      = createSim(seed);
+    trainingRef.current = createTraining(d, seed ^ 0x2545f491);
+    recRef.current      = null;
+    arcadeRef.current   = null;
+    setDrill(d);
+    setTraining(trainingRef.current);
+    setReport(null);
+    setMode("training");
+    if (inputCfg.device === "locked") inputRef.current?.lockPointer();
+    setPhase("playing");
+  };
+
+  const handleTraining = useCallback((t: TrainingState) => {
+    setTraining(t);
+    if (!trainingDone(t)) return;
+    const summary = summarise(t);
+    const res = addBest(loadBests(), t.drill.id, summary, new Date().toISOString());
+    saveBests(res.bests);
+    setBests(res.bests);
+    setReport({ summary, improved: res.improved });
+    inputRef.current?.releasePointer();
+    setPhase("report");
   }, []);
 
-  // Touch: use first touch point, map X directly — no preventDefault needed on passive
-  const handleTouchMove = useCallback((e: React.TouchEvent<HTMLDivElement>) => {
-    const touch = e.touches[0];
-    if (!touch) return;
-    const r = e.currentTarget.getBoundingClientRect();
-    ndcRef.current.x = ((touch.clientX - r.left) / r.width) * 2 - 1;
-    ndcRef.current.y = -((touch.clientY - r.top) / r.height) * 2 + 1;
+  const openDrill = async (f: File) => {
+    const d = loadDrill(await f.text());
+    if (typeof d === "string") { setDrillError(d); return; }
+    setDrillError(null);
+    setCustomDrills(prev => [...prev.filter(c => c.id !== d.id), d]);
+  };
+
+  const openBot = async (f: File) => {
+    const b = await importBot(await f.text(), f.name.replace(/\.m?js$/, ""));
+    if (typeof b === "string") { setBotError(b); return; }
+    setBotError(null);
+    const side = botTarget.current;
+    if (side) setWatchBots(w => ({ ...w, [side]: b }));
+    else setBot(b);
+  };
+  const loadBot = (side: Side | null) => {
+    botTarget.current = side;
+    botFileRef.current?.click();
+  };
+
+  // ─── Leaderboard ───
+  const loadBoard = async (query: BoardQuery) => {
+    setBoard({ query, entries: null, error: null });
+    const res = await fetchBoard(query);
+    // A slow answer to an older filter doesn't overwrite a newer one
+    setBoard(b => b.query !== query ? b : typeof res === "string" ? { ...b, error: res } : { ...b, entries: res });
+  };
+
+  const openBoard = (query: BoardQuery = board.query) => {
+    setPhase("leaderboard");
+    void loadBoard(query);
+  };
+
+  const postScore = async () => {
+    const rec = recRef.current;
+    if (!rec) return;
+    setPosting({ status: "sending" });
+    const res = await submitScore({
+      name: onlineName, difficulty, style: aiStyle,
+      score:  { games: match.games, points: match.points },
+      replay: { ...rec.file, names },
+    });
+    setPosting(typeof res === "string" ? { status: "error", error: res } : { status: "done", rank: res.rank });
+  };
+
+  // ─── Watch ───
+  const startWatch = () => {
+    // Power-ups aren't part of an exhibition, so ARCADE is watched as CLASSIC
+    const r = localRules.ruleset === "arcade" ? rulesFor("classic", 1, settings.classicPoints) : localRules;
+    const seed = randomSeed();
+    const sides: Record<Side, ExhibitionSide> = {
+      player: { level: watchSides.player, style: "aggressive", bot: watchBots.player?.name },
+      ai:     { level: watchSides.ai, style: "aggressive", bot: watchBots.ai?.name },
+    };
+    // A loaded bot plays its end at that end's ball speeds; one that fails to start leaves it to Auto
+    const params = exhibitionParams(sides);
+    const drivers: Partial<Record<Side, PaddleController>> = {};
+    setBotError(null);
+    for (const side of ["player", "ai"] as const) {
+      const b = watchBots[side];
+      if (!b) continue;
+      try {
+        drivers[side] = spawnBot(b, { side, seed: seed ^ (side === "player" ? 0x5bd1 : 0x1b87), params: params[side] });
+      } catch (e) {
+        dropBot(e, side);
+        sides[side] = { ...sides[side], bot: undefined };
+      }
+    }
+    const ex = createExhibition(seed, sides, r);
+    watchBotsRef.current = drivers;
+    watchRef.current = ex;
+    setWatchView(ex);
+    setPhase("spectate");
+  };
+
+  const openStats = () => {
+    setStats(loadStats());
+    setOpenMatch(null);
+    setConfirmReset(false);
+    setPhase("stats");
+  };
+
+  // ─── Replay files ───
+  const saveReplay = () => {
+    const rec = recRef.current;
+    if (!rec) return;
+    const file: ReplayFile = { ...rec.file, names };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(file)], { type: "application/json" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `mpp-replay-${file.recordedAt.slice(0, 19).replace(/[:T]/g, "-")}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const openReplay = useCallback(async (f: File) => {
+    const res = loadReplay(await f.text());
+    if (typeof res === "string") { setReplayError(res); return; }
+    setReplayError(null);
+    setViewer(res);
+    setViewerT(0);
+    setViewerCtl({ paused: false, speed: 1 });
+    playbackRef.current = { frames: res.timeline.frames, t: 0, speed: 1, paused: false, sideCam: false };
+    setPhase("replay");
   }, []);
 
-  const handleTouchStart = useCallback((e: React.TouchEvent<HTMLDivElement>) => {
-    const touch = e.touches[0];
-    if (!touch) return;
-    const r = e.currentTarget.getBoundingClientRect();
-    ndcRef.current.x = ((touch.clientX - r.left) / r.width) * 2 - 1;
-    ndcRef.current.y = -((touch.clientY - r.top) / r.height) * 2 + 1;
+  const closeReplay = useCallback(() => {
+    playbackRef.current = null;
+    setViewer(null);
+    setPhase("start");
   }, []);
 
+  // The scrubber follows playback at a modest rate rather than every frame
+  useEffect(() => {
+    if (phase !== "replay") return;
+    const id = setInterval(() => {
+      const pb = playbackRef.current;
+      if (!pb) return;
+      setViewerT(pb.t);
+      setViewerCtl(c => c.paused === pb.paused ? c : { ...c, paused: pb.paused });
+    }, 100);
+    return () => clearInterval(id);
+  }, [phase]);
+
+  const seekReplay = (t: number) => {
+    const pb = playbackRef.current;
+    if (!pb) return;
+    pb.t = Math.max(0, Math.min(t, pb.frames.length - 1));
+    setViewerT(pb.t);
+  };
+
+  const controlReplay = (ctl: { paused: boolean; speed: number }) => {
+    const pb = playbackRef.current;
+    if (!pb) return;
+    // Play from the top again once the end is reached
+    if (!ctl.paused && pb.t >= pb.frames.length - 1) seekReplay(0);
+    pb.paused = ctl.paused;
+    pb.speed  = ctl.speed;
+    setViewerCtl(ctl);
+  };
+
+  // What keys and pad buttons do depends on the screen; the input layer only
+  // reports them, through actionRef so it always reaches the latest state
+  useEffect(() => {
+    actionRef.current = (a: UiAction) => {
+      if (binding) return;
+      if (attract) { setAttract(false); return; }
+      if (a === "camera") { updateCamera(nextCamera(cameraMode)); return; }
+      if (phase === "playing" || phase === "between" || phase === "countdown") {
+        if (a === "serve" && phase !== "countdown") playbackRef.current?.onEnd?.();
+        if (a === "pause") pauseGame();
+        return;
+      }
+      if (phase === "paused" && (a === "pause" || a === "back")) { resumeGame(); return; }
+      if (phase === "replay") {
+        const pb = playbackRef.current;
+        if (a === "confirm" || a === "serve") controlReplay({ ...viewerCtl, paused: !viewerCtl.paused });
+        if (pb && (a === "left" || a === "right")) seekReplay(pb.t + (a === "left" ? -2 : 2) / SIM_DT);
+        if (a === "back") closeReplay();
+        return;
+      }
+      if (a === "up" || a === "left") moveMenuFocus(-1);
+      else if (a === "down" || a === "right") moveMenuFocus(1);
+      else if (a === "confirm") pressFocused();
+      else if (a === "back" && phase === "settings") closeSettings();
+      else if (a === "back" && phase !== "start") {
+        if (phase === "online") leaveOnline();
+        quitToMenu();
+      }
+    };
+  });
+
   const ov = (extra?: React.CSSProperties): React.CSSProperties => ({
     position: "absolute", inset: 0,
     display: "flex", flexDirection: "column",
@@ -478,17 +1835,40 @@ export default function Game() {
     very_hard: { label: "VERY HARD", sub: "Near-perfect Auto · Nearly impossible", col: "#ff4444" },
   } as const;
 
+  // Online rooms only offer the rulesets the server plays
+  const rulesPicker = (onlineOnly = false) => (
+    <div style={{ display:"flex", gap:10, alignItems:"center", marginBottom:16 }}>
+      <span style={{ color:"#555", fontSize:11, letterSpacing:2, marginRight:6 }}>RULES</span>
+      {(Object.keys(RULESETS) as RulesetId[]).filter(r => !onlineOnly || RULESETS[r].online).map(r => (
+        <button type="button" key={r} onClick={() => setRuleset(r)} title={rulesetSub(r)} style={{
+          ...btn(r === ruleset ? "#fff" : "#555"),
+          padding:"8px 18px", fontSize:12, letterSpacing:2,
+        }}>
+          {RULESETS[r].label}
+        </button>
+      ))}
+      {ruleset === "ittf" && ([1, 3, 5, 7] as BestOf[]).map(n => (
+        <button type="button" key={n} onClick={() => setBestOf(n)} style={{
+          ...btn(n === bestOf ? "#ffaa00" : "#555"),
+          padding:"8px 12px", fontSize:12, letterSpacing:1,
+        }}>
+          BO{n}
+        </button>
+      ))}
+    </div>
+  );
+
   return (
     <div
-      style={{ width: "100vw", height: "100vh", position: "relative", background: "#050510", cursor: "none", touchAction: "none" }}
-      onMouseMove={handleMouseMove}
-      onTouchMove={handleTouchMove}
-      onTouchStart={handleTouchStart}
+      style={{ width: "100vw", height: "100vh", position: "relative", background: "#050510", cursor: inPlay ? "none" : "default", touchAction: "none" }}
+      ref={rootRef}
+      onClick={() => { if (inputCfg.device === "locked" && phase === "playing") inputRef.current?.lockPointer(); }}
     >
-      {/* In-game menu button — top right */}
+      {/* In-game menu button — top right. The buttons over the table don't
+          take focus on click, or Space would press them instead of serving. */}
       {(phase === "playing" || phase === "between") && (
-        <div
-          onClick={() => setPhase("start")}
+        <button type="button"
+          onClick={mode === "online" ? quitToMenu : pauseGame} onMouseDown={e => e.preventDefault()}
           style={{
             position:"absolute", top:16, right:20, zIndex:20,
             fontFamily:"monospace", fontSize:11, letterSpacing:2,
@@ -499,55 +1879,174 @@ export default function Game() {
           onMouseEnter={e => (e.currentTarget.style.color = "#fff")}
           onMouseLeave={e => (e.currentTarget.style.color = "rgba(255,255,255,0.3)")}
         >
-          ← MENU
+          {mode === "online" ? "← MENU" : "❚❚ PAUSE"}
+        </button>
+      )}
+
+      {/* Camera — cycles like the hotkey */}
+      {(phase === "playing" || phase === "between" || phase === "replay" || phase === "spectate") && (
+        <button type="button"
+          onClick={() => updateCamera(nextCamera(cameraMode))} onMouseDown={e => e.preventDefault()}
+          title={`Camera (${keyLabel(inputCfg.keys.camera[0] ?? "KeyC")})`}
+          style={{
+            position:"absolute", top: phase === "replay" ? 16 : 52, right:20, zIndex:20,
+            fontFamily:"monospace", fontSize:10, letterSpacing:2,
+            color:"rgba(255,255,255,0.3)", cursor:"pointer", userSelect:"none",
+          }}
+        >
+          ◉ {CAMERA_LABEL[cameraMode]}
+        </button>
+      )}
+
+      {/* Latency — online only */}
+      {mode === "online" && (phase === "playing" || phase === "between") && (
+        <div style={{ position:"absolute", top:16, left:20, zIndex:20, fontFamily:"monospace", fontSize:11, letterSpacing:2, pointerEvents:"none",
+          color: online.status !== "open" ? "#ff4444" : ping === null ? "#555" : ping < 60 ? "#00ff88" : ping < 150 ? "#ffaa00" : "#ff4444" }}>
+          {online.status !== "open" ? "RECONNECTING…" : `PING ${ping === null ? "—" : Math.round(ping)} ms`}
         </div>
       )}
 
       {/* HUD — score moved down, smaller text */}
-      <div style={{ position:"absolute", top:52, left:0, right:0, display:"flex", justifyContent:"center", alignItems:"center", gap:36, zIndex:10, pointerEvents:"none" }}>
-        <span style={{ fontFamily:"monospace", color:"#00e5ff", fontSize:22, textShadow:"0 0 10px #00e5ff" }}>YOU: {scores.player}</span>
-        <span style={{ fontFamily:"monospace", color:"#444", fontSize:16 }}>vs</span>
-        <span style={{ fontFamily:"monospace", color:"#ff4444", fontSize:22, textShadow:"0 0 10px #ff4444" }}>AUTO: {scores.ai}</span>
-      </div>
+      {mode === "training" && training && phase !== "replay" ? (
+        <div style={{ position:"absolute", top:52, left:0, right:0, display:"flex", justifyContent:"center", alignItems:"center", gap:36, zIndex:10, pointerEvents:"none", fontFamily:"monospace" }}>
+          <span style={{ color:"#00ff88", fontSize:16, letterSpacing:3 }}>{training.drill.name}</span>
+          <span style={{ color:"#888", fontSize:16 }}>BALL {training.fired} / {training.drill.balls}</span>
+          <span style={{ color:"#00e5ff", fontSize:22, textShadow:"0 0 10px #00e5ff" }}>
+            SCORE {training.results.reduce((n, r) => n + r.points, 0)}
+          </span>
+        </div>
+      ) : (
+        <div style={{ position:"absolute", top:52, left:0, right:0, display:"flex", justifyContent:"center", alignItems:"center", gap:36, zIndex:10, pointerEvents:"none" }}>
+          <span style={{ fontFamily:"monospace", color:sideCol.player, fontSize:22, textShadow:`0 0 10px ${sideCol.player}` }}>
+            {rules.serveEvery > 0 && hud.server === "player" ? "● " : ""}{names.player}: <ScoreCount value={hud.points.player} pop={vfx.scorePop} />
+          </span>
+          <span style={{ fontFamily:"monospace", color:"#444", fontSize:16 }}>vs</span>
+          <span style={{ fontFamily:"monospace", color:sideCol.ai, fontSize:22, textShadow:`0 0 10px ${sideCol.ai}` }}>
+            {names.ai}: <ScoreCount value={hud.points.ai} pop={vfx.scorePop} />{rules.serveEvery > 0 && hud.server === "ai" ? " ●" : ""}
+          </span>
+        </div>
+      )}
+      {rules.bestOf > 1 && (
+        <div style={{ position:"absolute", top:30, left:0, right:0, textAlign:"center", fontFamily:"monospace", fontSize:11, letterSpacing:3, color:"#777", pointerEvents:"none", zIndex:10 }}>
+          GAMES {hud.games.player} – {hud.games.ai} · BEST OF {rules.bestOf}
+          {isDeuce(hud.points, rules) && <span style={{ color:"#ffaa00" }}> · DEUCE</span>}
+        </div>
+      )}
       <div style={{ position:"absolute", top:84, left:0, right:0, textAlign:"center", fontFamily:"monospace", color:"#00e5ff", fontSize:10, letterSpacing:6, opacity:0.3, pointerEvents:"none", zIndex:10 }}>
         MPIRE PING PONG
       </div>
+      {rules.ruleset === "arcade" && (phase === "playing" || phase === "between" || phase === "paused") && (["player", "ai"] as const).map(side => (
+        <div key={side} style={{ position:"absolute", top:110, [side === "player" ? "left" : "right"]:20, display:"flex", flexDirection:"column", gap:6,
+          alignItems: side === "player" ? "flex-start" : "flex-end", fontFamily:"monospace", fontSize:12, letterSpacing:2, pointerEvents:"none", zIndex:10 }}>
+          {effects.filter(e => e.side === side).map(e => (
+            <span key={e.kind} style={{ color:POWER_UPS[e.kind].color, textShadow:`0 0 8px ${POWER_UPS[e.kind].color}` }}>
+              {POWER_UPS[e.kind].label} {Math.ceil(e.ttl / SIM_HZ)}s
+            </span>
+          ))}
+        </div>
+      ))}
+      {(phase === "spectate" || mode === "solo" && inPlay) && botError && (
+        <div style={{ position:"absolute", top:110, left:0, right:0, textAlign:"center", fontFamily:"monospace", fontSize:12, letterSpacing:2, color:"#ff4444", pointerEvents:"none", zIndex:10 }}>
+          BOT ERROR · AUTO TAKES OVER — {botError}
+        </div>
+      )}
+
+      {settings.showFps && frameStats && (
+        <div style={{ position:"absolute", bottom:12, right:16, fontFamily:"monospace", fontSize:11, letterSpacing:1, pointerEvents:"none", zIndex:10,
+          color: frameStats.p95Ms > FRAME_BUDGET_MS * 1.2 ? "#ffaa00" : "#666" }}>
+          {Math.round(frameStats.fps)} FPS · P95 {frameStats.p95Ms.toFixed(1)}/{FRAME_BUDGET_MS.toFixed(1)} MS · RES {Math.round(renderScale * 100)}%
+        </div>
+      )}
+
+      {/* Screen readers hear the score after each point and the result */}
+      <div role="status" aria-live="polite" style={{ position:"absolute", width:1, height:1, overflow:"hidden", clipPath:"inset(50%)" }}>
+        {liveText}
+      </div>
 
       {/* 3D Canvas */}
-      <Canvas camera={{ position: [0, 8, 12], fov: 50 }} shadows style={{ width:"100%", height:"100%" }}>
+      <Canvas
+        camera={{ position: [0, 8, 12], fov: 50 }} shadows={settings.shadows}
+        dpr={Math.min(window.devicePixelRatio, settings.pixelRatio) * renderScale} style={{ width:"100%", height:"100%" }}
+      >
+        <FrameBudget scale={renderScale} auto={settings.autoResolution} onScale={setRenderScale} onStats={settings.showFps ? setFrameStats : null} />
         <ambientLight intensity={0.45} />
-        <directionalLight position={[5, 10, 5]} intensity={0.9} castShadow />
+        <directionalLight position={[5, 10, 5]} intensity={0.9} castShadow={settings.shadows} />
         <pointLight position={[0, 6, 0]} intensity={0.5} color="#00e5ff" />
         <GameScene
-          phase={phase} difficulty={difficulty} onScore={handleScore}
-          ndcRef={ndcRef} ballRef={ballRef} velRef={velRef}
-          playerXRef={playerXRef} aiXRef={aiXRef}
-          firstHitRef={firstHitRef}
+          phase={phase} mode={mode} difficulty={difficulty} aiStyle={aiStyle}
+          skill={mode === "solo" && phase !== "replay" && adaptive ? adaptive.skill : null} cameraMode={cameraMode} onScore={handleScore}
+          opponent={mode === "solo" && phase !== "replay" && !exhibition ? opponent : null}
+          drill={mode === "training" && phase !== "replay" && !exhibition ? drill : null}
+          winner={phase === "won" ? winner : null}
+          settings={settings} tuning={mode === "online" || exhibition ? DEFAULT_TUNING : phase === "replay" && viewer ? { ...DEFAULT_TUNING, ...viewer.file.tuning } : localTuning}
+          inputRef={inputRef} simRef={simRef} brainRef={brainRef} botRef={botRef} onBotError={dropBot}
+          exhibition={exhibition} exhibitionRef={exhibition === "watch" ? watchRef : demoRef} watchBotsRef={watchBotsRef} onExhibition={setWatchView}
+          netRef={netRef} onlineSide={mode === "online" && !exhibition ? online.side : null}
+          recRef={recRef} arcadeRef={arcadeRef} onEffects={setEffects}
+          trainingRef={trainingRef} onTraining={handleTraining} playbackRef={playbackRef}
         />
       </Canvas>
 
       {/* Start */}
-      {phase === "start" && (
-        <div style={ov()}>
+      {phase === "start" && attract && (
+        <div style={{ position:"absolute", bottom:48, left:0, right:0, textAlign:"center", fontFamily:"monospace", color:"#fff", fontSize:14, letterSpacing:6, opacity:0.6, pointerEvents:"none", zIndex:20 }}>
+          PRESS ANY KEY
+        </div>
+      )}
+      {phase === "start" && !attract && (
+        <div data-menu style={ov()}>
           <div style={{ color:"#00e5ff", fontSize:46, textShadow:"0 0 28px #00e5ff", letterSpacing:6, textAlign:"center" }}>MPIRE PING PONG</div>
-          <div style={{ marginTop:10, color:"#555", fontSize:13, letterSpacing:2 }}>First to {WIN_SCORE} wins</div>
+          <div style={{ marginTop:10, color:"#555", fontSize:13, letterSpacing:2 }}>{rulesetSub(ruleset)}</div>
           <div style={{ display:"flex", gap:16, marginTop:48 }}>
-            <div onClick={() => setPhase("rules")} onTouchEnd={() => setPhase("rules")} style={btn("#888")}>HOW TO PLAY</div>
-            <div onClick={() => setPhase("difficulty")} onTouchEnd={() => setPhase("difficulty")} style={btn()}>PLAY</div>
+            <button type="button" onClick={() => setPhase("rules")} onTouchEnd={() => setPhase("rules")} style={btn("#888")}>HOW TO PLAY</button>
+            <button type="button" onClick={() => setPhase("difficulty")} onTouchEnd={() => setPhase("difficulty")} style={btn()}>PLAY</button>
+            <button type="button" onClick={openLadder} onTouchEnd={openLadder} style={btn("#b967ff")}>CAREER</button>
+            <button type="button" onClick={openTraining} onTouchEnd={openTraining} style={btn("#00ff88")}>TRAINING</button>
+            <button type="button" onClick={() => setPhase("versus")} onTouchEnd={() => setPhase("versus")} style={btn("#ff4444")}>2 PLAYERS</button>
+            <button type="button" onClick={() => { openNet(); setPhase("online"); }} onTouchEnd={() => { openNet(); setPhase("online"); }} style={btn("#ffaa00")}>ONLINE</button>
           </div>
+          <div style={{ display:"flex", gap:16, marginTop:20 }}>
+            <button type="button" onClick={openStats} style={btn("#888", { padding:"10px 32px", fontSize:13 })}>STATS</button>
+            <button type="button" onClick={() => openSettings("start")} style={btn("#888", { padding:"10px 32px", fontSize:13 })}>SETTINGS</button>
+            <button type="button" onClick={() => openBoard()} style={btn("#888", { padding:"10px 32px", fontSize:13 })}>LEADERBOARD</button>
+            <button type="button" onClick={() => setPhase("watch")} style={btn("#888", { padding:"10px 32px", fontSize:13 })}>WATCH</button>
+            <button type="button" onClick={() => fileRef.current?.click()} style={btn("#888", { padding:"10px 32px", fontSize:13 })}>WATCH REPLAY</button>
+          </div>
+          {replayError && <div style={{ marginTop:12, color:"#ff4444", fontSize:12, letterSpacing:1 }}>{replayError}</div>}
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,application/json"
+            style={{ display:"none" }}
+            onChange={e => {
+              const f = e.target.files?.[0];
+              e.target.value = "";
+              if (f) void openReplay(f);
+            }}
+          />
         </div>
       )}
 
       {/* Rules */}
       {phase === "rules" && (
-        <div style={ov()}>
+        <div data-menu style={ov()}>
           <div style={{ color:"#00e5ff", fontSize:28, letterSpacing:4, marginBottom:32 }}>HOW TO PLAY</div>
           <div style={{ display:"flex", flexDirection:"column", gap:18, maxWidth:480, textAlign:"left" }}>
             {[
-              { icon:"🖱️", title:"Controls", body:"Move your mouse (or slide your finger on mobile) left and right to move the cyan paddle." },
-              { icon:"🏓", title:"Objective", body:`Rally the ball past Auto's paddle. First player to score ${WIN_SCORE} points wins the match.` },
+              { icon:"🖱️", title:"Controls", body:"Move your mouse (or slide your finger on mobile) left and right to move the cyan paddle. Keyboard, gamepad and Pointer Lock mouse work too — pick one under CONTROLS." },
+              { icon:"🎮", title:"2 Players", body:"In local versus the red paddle is player two: J / L or numpad 4 / 6 on the keyboard, or the stick / d-pad of a second gamepad. Rebind either player under CONTROLS." },
+              { icon:"🌐", title:"Online", body:"Create a room and share its 4-letter code, or join someone else's. If your connection drops you have 30 seconds to come back before the match is forfeited." },
+              { icon:"🏓", title:"Objective", body:`Rally the ball past Auto's paddle. In CLASSIC the first player to score ${settings.classicPoints} points wins the match.` },
+              { icon:"🏆", title:"ITTF Rules", body:"Games go to 11 and must be won by 2. Serve changes every two points, and every point from 10–10. Win the majority of a best-of-3, 5 or 7 match. The ● in the score marks who serves next." },
+              { icon:"🎁", title:"Arcade", body:"Power-ups float over the table — hit the ball through one to take it. Some help you (WIDE, SHIELD, SLOW-MO, CURVE, MULTIBALL), some land on your opponent (NARROW, REVERSED). Local play only." },
+              { icon:"🎯", title:"Training", body:"A ball machine feeds you drills while you aim for the target zones on the far half. Best scores are kept per drill, and you can load your own drills as JSON files." },
+              { icon:"📺", title:"Watch", body:"WATCH on the start screen plays Auto against Auto at the levels you pick, calling out the rally count, shot speed and streaks. Leave the start screen alone for a while and the menu steps aside for a demo match; any key brings it back." },
+              { icon:"🤖", title:"Bots", body:"LOAD BOT on the difficulty screen swaps Auto for your own opponent: a JavaScript module that gets the ball and both paddles every tick and answers with where to move. See bots/tracker.mjs." },
+              { icon:"♿", title:"Accessibility", body:"Menus work with Tab, arrows and Enter, and scores are read out to screen readers. SETTINGS → ACCESS has colour-safe palettes, a high-contrast ball and reduced motion; GAMEPLAY has an assist mode with a bigger paddle, a slower ball and an aim guide." },
               { icon:"⚡", title:"Speed Up", body:"Every time a paddle makes contact the ball speeds up slightly. React faster as the rally goes on." },
-              { icon:"📐", title:"Angles", body:"Hit the ball off-center to change its angle. The further from center you hit, the sharper the deflection." },
+              { icon:"📐", title:"Angles", body:"Hit the ball off-center to change its angle. The further from center you hit, the sharper the deflection — and the more likely it sails long." },
+              { icon:"🌀", title:"Spin", body:"Swipe across the ball as you hit it to add sidespin — it curves the way you swiped and kicks off the rails. Balls taken high leave with topspin and dip; balls scooped low float with backspin." },
+              { icon:"⬆️", title:"Bounce", body:"Every shot must bounce once on the other half. Take the ball high on the bounce to drive it deep; let it drop low and your return floats short toward the net." },
               { icon:"🚀", title:"Serve", body:"Each point starts with a slow serve — gives you time to get in position before the real rally begins." },
             ].map(r => (
               <div key={r.title} style={{ display:"flex", gap:14, alignItems:"flex-start" }}>
@@ -560,53 +2059,900 @@ export default function Game() {
             ))}
           </div>
           <div style={{ display:"flex", gap:16, marginTop:44 }}>
-            <div onClick={() => setPhase("start")} style={btn("#555")}>← BACK</div>
-            <div onClick={() => setPhase("difficulty")} style={btn()}>SELECT DIFFICULTY</div>
+            <button type="button" onClick={() => setPhase("start")} style={btn("#555")}>← BACK</button>
+            <button type="button" onClick={() => setPhase("difficulty")} style={btn()}>SELECT DIFFICULTY</button>
           </div>
         </div>
       )}
 
+      {/* Mute — always in reach */}
+      <button type="button"
+        onClick={() => updateAudio({ ...audioCfg, muted: !audioCfg.muted })} onMouseDown={e => e.preventDefault()}
+        title={audioCfg.muted ? "Unmute" : "Mute"} aria-label={audioCfg.muted ? "Unmute" : "Mute"}
+        style={{
+          position:"absolute", bottom:16, left:20, zIndex:25, cursor:"pointer",
+          fontSize:18, opacity: audioCfg.muted ? 0.8 : 0.35, userSelect:"none",
+        }}
+      >
+        {audioCfg.muted ? "🔇" : "🔊"}
+      </button>
+
+      {/* Settings */}
+      {phase === "settings" && (() => {
+        const locked = settingsFrom === "paused"; // gameplay can't change under a match in progress
+        const field = (key: keyof Settings) => {
+          const f = SETTINGS_SCHEMA[key];
+          const off = (locked && f.section === "gameplay") || (key === "aimGuide" && !settings.assist)
+            || (VFX_SWITCHES.includes(key) && settings.vfx === "off") || (MOTION_SWITCHES.includes(key) && settings.reducedMotion);
+          const set = (v: Settings[keyof Settings]) => updateSettings({ ...settings, [key]: v });
+          // A label hands clicks on its text to its control, which only makes sense with one
+          const Row = f.kind === "choice" ? "div" : "label";
+          return (
+            <Row key={key} {...(f.kind === "choice" && { role: "group", "aria-label": f.label })} style={{ display:"flex", alignItems:"center", gap:12, color: off ? "#444" : "#777", fontSize:12, letterSpacing:1 }}>
+              <span style={{ width:170 }}>{f.label}</span>
+              {f.kind === "number" && <>
+                <input
+                  type="range" min={f.min} max={f.max} step={f.step} value={settings[key] as number} disabled={off}
+                  onChange={e => set(Number(e.target.value))}
+                  style={{ width:200, accentColor:"#00e5ff", cursor: off ? "default" : "pointer" }}
+                />
+                <span style={{ width:44, color: off ? "#444" : "#fff" }}>{settings[key] as number}</span>
+              </>}
+              {f.kind === "color" && (
+                <input type="color" value={settings[key] as string} onChange={e => set(e.target.value)}
+                  style={{ width:64, height:24, border:"none", background:"transparent", cursor:"pointer" }} />
+              )}
+              {f.kind === "bool" && (
+                <button type="button" onClick={() => set(!settings[key])} disabled={off} aria-pressed={!!settings[key]} style={{
+                  ...btn(settings[key] && !off ? "#00e5ff" : "#555"), padding:"4px 14px", fontSize:11,
+                }}>
+                  {settings[key] ? "ON" : "OFF"}
+                </button>
+              )}
+              {f.kind === "choice" && Object.entries(f.options).map(([v, label]) => (
+                <button type="button" key={v} onClick={() => set(v)} aria-pressed={settings[key] === v} style={{
+                  ...btn(settings[key] === v ? "#fff" : "#555"), padding:"4px 12px", fontSize:11,
+                }}>
+                  {label}
+                </button>
+              ))}
+            </Row>
+          );
+        };
+        const fields = (section: SettingsSection) =>
+          (Object.keys(SETTINGS_SCHEMA) as (keyof Settings)[]).filter(k => SETTINGS_SCHEMA[k].section === section).map(field);
+        const slot = (label: string, id: string) => {
+          const active = binding === id;
+          const [what, n] = id.split(":");
+          const press = () => what === "pad" ? bindPad(n as PadBinding) : bindKey(what as KeyBinding, Number(n));
+          return (
+          <button type="button" onClick={press} style={{
+            ...btn(active ? "#ffaa00" : "#00e5ff", { padding:"6px 0", fontSize:12, letterSpacing:1 }),
+            width:120,
+          }}>
+            {active ? "PRESS…" : label}
+          </button>
+          );
+        };
+        const slider = (label: string, key: keyof typeof INPUT_RANGE, [min, max] = INPUT_RANGE[key]) => (
+          <label key={key} style={{ display:"flex", alignItems:"center", gap:12, color:"#777", fontSize:12, letterSpacing:1 }}>
+            <span style={{ width:150 }}>{label}</span>
+            <input
+              type="range" min={min} max={max} step={(max - min) / 40} value={inputCfg[key]}
+              onChange={e => updateInput({ ...inputCfg, [key]: Number(e.target.value) })}
+              style={{ width:200, accentColor:"#00e5ff", cursor:"pointer" }}
+            />
+            <span style={{ width:44, color:"#fff" }}>{inputCfg[key].toFixed(2)}</span>
+          </label>
+        );
+        const reset = () => {
+          if (settingsTab === "controls") updateInput(DEFAULT_INPUT);
+          else if (settingsTab === "sound") updateAudio(DEFAULT_AUDIO);
+          else if (!(locked && settingsTab === "gameplay")) {
+            const section = settingsTab;
+            const keys = (Object.keys(SETTINGS_SCHEMA) as (keyof Settings)[]).filter(k => SETTINGS_SCHEMA[k].section === section);
+            updateSettings({ ...settings, ...Object.fromEntries(keys.map(k => [k, DEFAULT_SETTINGS[k]])) });
+          }
+        };
+        return (
+          <div data-menu style={ov({ cursor:"default", overflowY:"auto", justifyContent:"flex-start", paddingTop:60 })}>
+            <div style={{ color:"#00e5ff", fontSize:28, letterSpacing:4, marginBottom:20 }}>SETTINGS</div>
+            <div style={{ display:"flex", gap:10, marginBottom:28 }}>
+              {SETTINGS_TABS.map(([t, label]) => (
+                <button type="button" key={t} onClick={() => { inputRef.current?.capture(null); setBinding(null); setBindNote(null); setSettingsTab(t); }} style={{
+                  ...btn(t === settingsTab ? "#fff" : "#555"),
+                  padding:"8px 18px", fontSize:12, letterSpacing:2,
+                }}>
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {settingsTab === "gameplay" && <>
+              <div style={{ color:"#555", fontSize:13, marginBottom:16 }}>
+                {locked ? "Finish or quit the match to change these" : "Local matches only · online rooms play the standard game"}
+              </div>
+              <div style={{ display:"flex", flexDirection:"column", gap:10, marginBottom:28 }}>{fields("gameplay")}</div>
+            </>}
+
+            {settingsTab === "visuals" && <>
+              <div style={{ color:"#555", fontSize:13, marginBottom:12 }}>Camera</div>
+              <div style={{ display:"flex", gap:10, marginBottom:24 }}>
+                {CAMERA_MODES.map(m => (
+                  <button type="button" key={m} onClick={() => updateCamera(m)} style={{
+                    ...btn(m === cameraMode ? "#fff" : "#555"),
+                    padding:"8px 16px", fontSize:12, letterSpacing:2,
+                  }}>
+                    {CAMERA_LABEL[m]}
+                  </button>
+                ))}
+              </div>
+              <div style={{ display:"flex", flexDirection:"column", gap:10, marginBottom:28 }}>{fields("visuals")}</div>
+            </>}
+
+            {settingsTab === "access" && <>
+              <div style={{ color:"#555", fontSize:13, marginBottom:16 }}>
+                Colour-safe palettes replace the cyan and red sides · Assist mode is under GAMEPLAY
+              </div>
+              <div style={{ display:"flex", flexDirection:"column", gap:10, marginBottom:28 }}>{fields("access")}</div>
+              <div style={{ display:"flex", gap:24, marginBottom:28 }}>
+                {(["player", "ai"] as const).map(side => (
+                  <span key={side} style={{ color:sideCol[side], fontSize:14, letterSpacing:2, textShadow:`0 0 10px ${sideCol[side]}` }}>■ {names[side]}</span>
+                ))}
+              </div>
+            </>}
+
+            {settingsTab === "controls" && <>
+              <div style={{ color:"#555", fontSize:13, marginBottom:16 }}>How player one moves the paddle</div>
+              <div style={{ display:"flex", gap:10, marginBottom:24 }}>
+                {(Object.keys(DEVICE_LABEL) as PaddleDevice[]).map(d => (
+                  <button type="button" key={d} onClick={() => updateInput({ ...inputCfg, device: d })} style={{
+                    ...btn(d === inputCfg.device ? "#fff" : "#555"),
+                    padding:"8px 16px", fontSize:12, letterSpacing:2,
+                  }}>
+                    {DEVICE_LABEL[d]}
+                  </button>
+                ))}
+              </div>
+              <div style={{ display:"flex", flexDirection:"column", gap:8, marginBottom:28 }}>
+                {slider("MOUSE GAIN",     "mouseGain")}
+                {slider("LOCKED SPEED",   "lockedSpeed")}
+                {slider("KEY / STICK SPEED", "axisSpeed")}
+                {slider("STICK DEAD ZONE", "deadZone")}
+              </div>
+              <div style={{ display:"grid", gridTemplateColumns:"150px 120px 120px", gap:8, alignItems:"center", marginBottom:16 }}>
+                {KEY_ROWS.map(r => [
+                  <span key={r.id} style={{ color:"#777", fontSize:12, letterSpacing:1 }}>{r.label}</span>,
+                  ...[0, 1].map(i => (
+                    <span key={`${r.id}${i}`}>
+                      {slot(inputCfg.keys[r.id][i] ? keyLabel(inputCfg.keys[r.id][i]) : "—", `${r.id}:${i}`)}
+                    </span>
+                  )),
+                ])}
+                {PAD_ROWS.map(r => [
+                  <span key={`pad${r.id}`} style={{ color:"#777", fontSize:12, letterSpacing:1 }}>PAD {r.label}</span>,
+                  <span key={`padslot${r.id}`}>{slot(padLabel(inputCfg.pad[r.id]), `pad:${r.id}`)}</span>,
+                  <span key={`padgap${r.id}`} />,
+                ])}
+              </div>
+              {bindNote && <div style={{ color:"#ff4444", fontSize:12, letterSpacing:1, marginBottom:8 }}>{bindNote}</div>}
+              <div style={{ color:"#444", fontSize:11, marginBottom:24 }}>
+                Click a slot, then press a key or pad button · Esc cancels · Backspace clears · Menus always take arrows, Enter and the d-pad
+              </div>
+            </>}
+
+            {settingsTab === "sound" && <>
+              <div style={{ display:"flex", flexDirection:"column", gap:14, marginBottom:28 }}>
+                {([["MASTER", "master"], ["EFFECTS", "sfx"], ["MUSIC", "music"]] as const).map(([label, key]) => (
+                  <label key={key} style={{ display:"flex", alignItems:"center", gap:14, color:"#777", fontSize:13, letterSpacing:2 }}>
+                    <span style={{ width:90 }}>{label}</span>
+                    <input
+                      type="range" min={0} max={1} step={0.05} value={audioCfg[key]}
+                      onChange={e => updateAudio({ ...audioCfg, [key]: Number(e.target.value) })}
+                      onPointerUp={() => key === "sfx" && getAudio().play("hit")}
+                      style={{ width:240, accentColor:"#00e5ff", cursor:"pointer" }}
+                    />
+                    <span style={{ width:40, color:"#fff" }}>{Math.round(audioCfg[key] * 100)}</span>
+                  </label>
+                ))}
+              </div>
+              <button type="button" onClick={() => updateAudio({ ...audioCfg, muted: !audioCfg.muted })} style={{ ...btn(audioCfg.muted ? "#ff4444" : "#555"), marginBottom:36 }}>
+                {audioCfg.muted ? "MUTED" : "MUTE"}
+              </button>
+            </>}
+
+            <div style={{ display:"flex", gap:16, marginBottom:40 }}>
+              <button type="button" onClick={closeSettings} style={btn("#555")}>← BACK</button>
+              <button type="button" onClick={reset} style={btn("#888")}>RESET DEFAULTS</button>
+            </div>
+          </div>
+        );
+      })()}
+
+      {/* Leaderboard */}
+      {phase === "leaderboard" && (
+        <div data-menu style={ov({ justifyContent:"flex-start", paddingTop:60, overflowY:"auto", cursor:"default" })}>
+          <div style={{ color:"#00ff88", fontSize:28, letterSpacing:4, marginBottom:24 }}>LEADERBOARD</div>
+          <div style={{ display:"flex", gap:10, marginBottom:12 }}>
+            {([null, ...Object.keys(diffMeta)] as (Difficulty | null)[]).map(d => (
+              <button type="button" key={d ?? "all"} aria-pressed={board.query.difficulty === d} onClick={() => void loadBoard({ ...board.query, difficulty: d })}
+                style={btn(board.query.difficulty === d ? (d ? diffMeta[d].col : "#fff") : "#555", { padding:"6px 14px", fontSize:12, letterSpacing:1 })}>
+                {d ? diffMeta[d].label : "ALL"}
+              </button>
+            ))}
+          </div>
+          <div style={{ display:"flex", gap:10, marginBottom:28 }}>
+            {(Object.keys(WINDOW_LABEL) as TimeWindow[]).map(w => (
+              <button type="button" key={w} aria-pressed={board.query.window === w} onClick={() => void loadBoard({ ...board.query, window: w })}
+                style={btn(board.query.window === w ? "#ffaa00" : "#555", { padding:"6px 14px", fontSize:12, letterSpacing:1 })}>
+                {WINDOW_LABEL[w]}
+              </button>
+            ))}
+          </div>
+          {board.error ? (
+            <div style={{ color:"#ff4444", fontSize:13, letterSpacing:1 }}>{board.error}</div>
+          ) : !board.entries ? (
+            <div style={{ color:"#555", fontSize:13, letterSpacing:2 }}>LOADING…</div>
+          ) : board.entries.length === 0 ? (
+            <div style={{ color:"#555", fontSize:13, letterSpacing:1 }}>No scores here yet. Beat Auto and submit yours from the win screen.</div>
+          ) : (
+            <table style={{ borderCollapse:"collapse", fontSize:13, color:"#aaa", minWidth:560 }}>
+              <thead>
+                <tr style={{ color:"#555", fontSize:10, letterSpacing:2, textAlign:"left" }}>
+                  {["#", "NAME", "LEVEL", "RULES", "SCORE", "DATE"].map(h => <th key={h} style={{ padding:"6px 12px", fontWeight:400 }}>{h}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {board.entries.map((e, i) => (
+                  <tr key={e.id} style={{ borderTop:"1px solid #1a1a1a" }}>
+                    <td style={{ padding:"8px 12px", color: i < 3 ? "#ffaa00" : "#555" }}>{i + 1}</td>
+                    <td style={{ padding:"8px 12px", color:"#fff", letterSpacing:1 }}>{e.name}</td>
+                    <td style={{ padding:"8px 12px", color:diffMeta[e.difficulty].col }}>{diffMeta[e.difficulty].label}</td>
+                    <td style={{ padding:"8px 12px" }}>{RULESETS[e.ruleset].label}{e.bestOf > 1 ? ` BO${e.bestOf}` : ""}</td>
+                    <td style={{ padding:"8px 12px", color:"#fff" }}>
+                      {e.bestOf > 1 ? `${e.games.player}–${e.games.ai} ` : ""}
+                      <span style={{ color: e.bestOf > 1 ? "#666" : "#fff" }}>{e.bestOf > 1 ? `(${e.pointsFor}–${e.pointsAgainst})` : `${e.pointsFor}–${e.pointsAgainst}`}</span>
+                    </td>
+                    <td style={{ padding:"8px 12px", color:"#666" }}>{new Date(e.at).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <button type="button" onClick={() => setPhase("start")} style={{ ...btn("#555"), marginTop:32, marginBottom:40 }}>← BACK</button>
+        </div>
+      )}
+
+      {/* Stats */}
+      {phase === "stats" && (
+        <div data-menu style={ov({ justifyContent:"flex-start", paddingTop:60, overflowY:"auto", cursor:"default" })}>
+          <div style={{ color:"#00e5ff", fontSize:28, letterSpacing:4, marginBottom:28 }}>STATS</div>
+          <div style={{ display:"grid", gridTemplateColumns:"repeat(3, 170px)", gap:14, marginBottom:32 }}>
+            {[
+              { label:"MATCHES",       value: stats.matches },
+              { label:"LONGEST RALLY", value: `${stats.longestRally} hits` },
+              { label:"AVERAGE RALLY", value: `${averageRally(stats).toFixed(1)} hits` },
+              { label:"TOTAL HITS",    value: stats.totalHits },
+              { label:"FASTEST BALL",  value: `${Math.round(stats.fastestBall * UNITS_TO_KMH)} km/h` },
+              { label:"TIME RALLYING", value: `${Math.round(stats.rallyTicks * SIM_DT / 60)} min` },
+            ].map(t => (
+              <div key={t.label} style={{ border:"1px solid #222", borderRadius:6, padding:"12px 14px", textAlign:"center" }}>
+                <div style={{ color:"#555", fontSize:10, letterSpacing:2 }}>{t.label}</div>
+                <div style={{ color:"#fff", fontSize:20, marginTop:6 }}>{t.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ color:"#555", fontSize:11, letterSpacing:3, marginBottom:10 }}>VS AUTO</div>
+          <div style={{ display:"flex", gap:14, marginBottom:32 }}>
+            {(["easy","medium","hard","very_hard"] as Difficulty[]).map(d => {
+              const { played, won } = stats.byDifficulty[d];
+              return (
+                <div key={d} style={{ border:`1px solid ${diffMeta[d].col}55`, borderRadius:6, padding:"10px 16px", minWidth:110, textAlign:"center" }}>
+                  <div style={{ color:diffMeta[d].col, fontSize:12, letterSpacing:2 }}>{diffMeta[d].label}</div>
+                  <div style={{ color:"#fff", fontSize:18, marginTop:6 }}>{won} / {played}</div>
+                  <div style={{ color:"#666", fontSize:11, marginTop:2 }}>{played ? `${Math.round(100 * won / played)}% won` : "—"}</div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div style={{ color:"#555", fontSize:11, letterSpacing:3, marginBottom:10 }}>RECENT MATCHES</div>
+          <div style={{ display:"flex", flexDirection:"column", gap:6, width:560, marginBottom:32 }}>
+            {stats.recent.length === 0 && <div style={{ color:"#444", fontSize:13, textAlign:"center" }}>No matches yet</div>}
+            {stats.recent.map((m, i) => {
+              const last = m.history[m.history.length - 1];
+              const result = m.history.length > 1 ? `${m.games.player}–${m.games.ai}` : last ? `${last.player}–${last.ai}` : "";
+              const col = sideCol[m.winner];
+              return (
+                <button type="button" key={m.at} onClick={() => setOpenMatch(openMatch === i ? null : i)} style={{ border:"1px solid #1c1c1c", borderRadius:6, padding:"8px 12px", cursor:"pointer" }}>
+                  <div style={{ display:"flex", gap:12, fontSize:13, alignItems:"center" }}>
+                    <span style={{ color:"#555", width:96 }}>{new Date(m.at).toLocaleDateString()}</span>
+                    <span style={{ color:"#888", flex:1 }}>
+                      {m.names.player} vs {m.names.ai}
+                      <span style={{ color:"#444" }}> · {m.mode !== "solo" ? "VERSUS" : m.skill !== undefined ? `ADAPTIVE ${skillRating(m.skill)}` : diffMeta[m.difficulty].label}</span>
+                    </span>
+                    <span style={{ color:col }}>{m.names[m.winner]}</span>
+                    <span style={{ color:"#fff", width:52, textAlign:"right" }}>{result}</span>
+                  </div>
+                  {openMatch === i && (
+                    <div style={{ display:"flex", flexWrap:"wrap", gap:4, marginTop:8 }}>
+                      {m.points.map((p, n) => (
+                        <span
+                          key={n}
+                          title={`${m.names[p.scorer]} · ${FAULT_LABEL[p.fault]} · ${p.hits} hits`}
+                          style={{ width:12, height:12, borderRadius:6, background: sideCol[p.scorer], opacity: 0.35 + Math.min(p.hits, 12) / 18 }}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          <div style={{ display:"flex", gap:16, marginBottom:48 }}>
+            <button type="button" onClick={() => setPhase("start")} style={btn("#555")}>← BACK</button>
+            <button type="button"
+              onClick={() => {
+                if (!confirmReset) { setConfirmReset(true); return; }
+                clearStats();
+                setStats(emptyStats());
+                setConfirmReset(false);
+              }}
+              style={btn("#ff4444")}
+            >
+              {confirmReset ? "CONFIRM RESET" : "RESET"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Ladder */}
+      {phase === "ladder" && (
+        <div data-menu style={ov({ cursor:"default", overflowY:"auto", justifyContent:"flex-start", paddingTop:48 })}>
+          <div style={{ color:"#b967ff", fontSize:28, letterSpacing:4, marginBottom:8 }}>CAREER LADDER</div>
+          <div style={{ color:"#555", fontSize:13, marginBottom:20 }}>Beat each opponent to unlock the next</div>
+          {rulesPicker()}
+          <div style={{ display:"flex", flexDirection:"column", gap:10, marginBottom:28, width:560 }}>
+            {ROSTER.map((o, i) => {
+              const rung = rungOf(career, i);
+              const rec  = recordOf(career, o.id);
+              const open = rung !== "locked";
+              return (
+                <div key={o.id} style={{
+                  display:"flex", alignItems:"center", gap:16, padding:"12px 18px", borderRadius:6,
+                  border:`1px solid ${open ? o.color + "88" : "#222"}`, opacity: open ? 1 : 0.45,
+                }}>
+                  <span style={{ color:"#444", fontSize:12, width:18 }}>{i + 1}</span>
+                  <div style={{ flex:1 }}>
+                    <div style={{ color: open ? o.color : "#555", fontSize:15, letterSpacing:2 }}>
+                      {open ? o.name : "???"}
+                      <span style={{ color:"#555", fontSize:11, marginLeft:10 }}>{diffMeta[o.difficulty].label}</span>
+                    </div>
+                    <div style={{ color:"#666", fontSize:11, marginTop:4 }}>{open ? o.bio : "Beat the opponent above to unlock"}</div>
+                    {rec.played > 0 && (
+                      <div style={{ color:"#555", fontSize:11, marginTop:4, letterSpacing:1 }}>
+                        {rec.won}/{rec.played} WON{rec.best && ` · BEST ${rec.best.map(g => `${g.player}–${g.ai}`).join(" ")}`}
+                      </div>
+                    )}
+                  </div>
+                  {rung === "beaten" && <span style={{ color:"#00e5ff", fontSize:11, letterSpacing:2 }}>✓ BEATEN</span>}
+                  {open && (
+                    <button type="button" onClick={() => startGame(o.difficulty, "solo", o)} style={btn(o.color, { padding:"8px 20px", fontSize:12 })}>
+                      {rung === "beaten" ? "REMATCH" : "PLAY"}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <button type="button" onClick={() => setPhase("start")} style={{ ...btn("#555"), marginBottom:40 }}>← BACK</button>
+        </div>
+      )}
+
+      {/* Training: drill select */}
+      {phase === "training" && (
+        <div data-menu style={ov({ cursor:"default" })}>
+          <div style={{ color:"#00ff88", fontSize:28, letterSpacing:4, marginBottom:8 }}>TRAINING</div>
+          <div style={{ color:"#555", fontSize:13, marginBottom:28 }}>A ball machine feeds you; land your returns in the targets</div>
+          <div style={{ display:"flex", flexDirection:"column", gap:10, width:560, maxHeight:"56vh", overflowY:"auto" }}>
+            {[...DRILLS, ...customDrills].map(d => {
+              const best = bests[d.id];
+              return (
+                <div key={d.id} style={{ display:"flex", alignItems:"center", gap:16, border:"1px solid #1c1c1c", borderRadius:6, padding:"12px 16px" }}>
+                  <div style={{ flex:1, textAlign:"left" }}>
+                    <div style={{ color:"#fff", fontSize:15, letterSpacing:2 }}>
+                      {d.name}
+                      <span style={{ color:"#555", fontSize:11, marginLeft:10 }}>{d.balls} BALLS</span>
+                    </div>
+                    <div style={{ color:"#777", fontSize:12, marginTop:4 }}>{d.description}</div>
+                    <div style={{ color: best ? "#ffaa00" : "#444", fontSize:11, letterSpacing:1, marginTop:4 }}>
+                      {best ? `BEST ${best.score} · ${Math.round(best.accuracy * 100)}% ON TARGET` : "NO BEST YET"}
+                    </div>
+                  </div>
+                  <button type="button" onClick={() => startDrill(d)} style={btn("#00ff88", { padding:"8px 20px", fontSize:12 })}>START</button>
+                </div>
+              );
+            })}
+          </div>
+          {drillError && <div style={{ marginTop:12, color:"#ff4444", fontSize:12, letterSpacing:1 }}>{drillError}</div>}
+          <div style={{ display:"flex", gap:16, marginTop:28 }}>
+            <button type="button" onClick={() => setPhase("start")} style={btn("#555")}>← BACK</button>
+            <button type="button" onClick={() => drillFileRef.current?.click()} style={btn("#888")}>LOAD DRILL</button>
+          </div>
+          <input
+            ref={drillFileRef}
+            type="file"
+            accept=".json,application/json"
+            style={{ display:"none" }}
+            onChange={e => {
+              const f = e.target.files?.[0];
+              e.target.value = "";
+              if (f) void openDrill(f);
+            }}
+          />
+        </div>
+      )}
+
+      {/* Training: drill report */}
+      {phase === "report" && drill && report && (
+        <div data-menu style={ov({ cursor:"default" })}>
+          <div style={{ color:"#00ff88", fontSize:15, letterSpacing:4 }}>{drill.name}</div>
+          <div style={{ marginTop:12, color:"#fff", fontSize:54, letterSpacing:4, textShadow:"0 0 28px #00e5ff" }}>{report.summary.score}</div>
+          <div style={{ color:"#555", fontSize:13, letterSpacing:2 }}>OF {report.summary.maxScore} POINTS</div>
+          <div style={{ display:"flex", gap:14, marginTop:28 }}>
+            {[
+              { label:"ON TARGET", value: `${report.summary.onTarget} / ${report.summary.balls}` },
+              { label:"ACCURACY",  value: `${Math.round(report.summary.accuracy * 100)}%` },
+              { label:"RETURNED",  value: `${report.summary.returned} / ${report.summary.balls}` },
+            ].map(c => (
+              <div key={c.label} style={{ border:"1px solid #222", borderRadius:6, padding:"10px 16px", minWidth:110, textAlign:"center" }}>
+                <div style={{ color:"#fff", fontSize:18 }}>{c.value}</div>
+                <div style={{ color:"#555", fontSize:10, letterSpacing:2, marginTop:4 }}>{c.label}</div>
+              </div>
+            ))}
+          </div>
+          <div style={{ marginTop:22, color: report.improved ? "#ffaa00" : "#555", fontSize:14, letterSpacing:3 }}>
+            {report.improved ? "NEW PERSONAL BEST" : `PERSONAL BEST ${bests[drill.id]?.score ?? 0}`}
+          </div>
+          <div style={{ display:"flex", gap:20, marginTop:44 }}>
+            <button type="button" onClick={() => startDrill(drill)} style={btn()}>AGAIN</button>
+            <button type="button" onClick={openTraining} style={btn("#00ff88")}>DRILLS</button>
+            <button type="button" onClick={quitToMenu} style={btn("#888")}>MENU</button>
+          </div>
+        </div>
+      )}
+
+      {/* Watch: pick the two Autos */}
+      {phase === "watch" && (
+        <div data-menu style={ov()}>
+          <div style={{ color:"#fff", fontSize:28, letterSpacing:4, marginBottom:8 }}>WATCH</div>
+          <div style={{ color:"#555", fontSize:13, marginBottom:24 }}>Auto against Auto, or a bot at either end. Pick a level for each end; for a bot it only sets the ball speeds.</div>
+          {rulesPicker(true)}
+          <div style={{ display:"flex", gap:40, marginTop:12 }}>
+            {(["player", "ai"] as const).map(side => (
+              <div key={side} style={{ display:"flex", flexDirection:"column", gap:10, alignItems:"center" }}>
+                <span style={{ color:sideCol[side], fontSize:11, letterSpacing:3, marginBottom:4 }}>{side === "player" ? "NEAR END" : "FAR END"}</span>
+                {(Object.keys(diffMeta) as Difficulty[]).map(d => (
+                  <button type="button" key={d} aria-pressed={watchSides[side] === d} onClick={() => setWatchSides(w => ({ ...w, [side]: d }))} style={{
+                    ...btn(watchSides[side] === d ? diffMeta[d].col : "#555"),
+                    padding:"10px 28px", fontSize:14, minWidth:200,
+                  }}>
+                    {diffMeta[d].label}
+                  </button>
+                ))}
+                {watchBots[side]
+                  ? <button type="button" onClick={() => setWatchBots(w => ({ ...w, [side]: null }))} style={{ ...btn("#888"), padding:"10px 28px", fontSize:12, minWidth:200 }}>
+                      {watchBots[side].name.toUpperCase()} ✕
+                    </button>
+                  : <button type="button" onClick={() => loadBot(side)} style={{ ...btn("#888"), padding:"10px 28px", fontSize:12, minWidth:200 }}>LOAD BOT</button>}
+              </div>
+            ))}
+          </div>
+          {botError && <div style={{ marginTop:16, color:"#ff4444", fontSize:12, letterSpacing:1 }}>{botError}</div>}
+          <div style={{ display:"flex", gap:16, marginTop:32 }}>
+            <button type="button" onClick={() => setPhase("start")} style={btn("#555")}>← BACK</button>
+            <button type="button" onClick={startWatch} style={btn()}>WATCH</button>
+          </div>
+        </div>
+      )}
+
+      {/* Watch: commentary, and the result once it's over */}
+      {phase === "spectate" && watchView && (() => {
+        const line = commentary(watchView, names);
+        const { streak } = watchView;
+        return (
+          <>
+            <button type="button" onClick={quitToMenu} onMouseDown={e => e.preventDefault()} style={{
+              position:"absolute", top:16, left:20, zIndex:20, fontFamily:"monospace", fontSize:11, letterSpacing:2,
+              color:"rgba(255,255,255,0.4)", cursor:"pointer",
+            }}>
+              ← MENU
+            </button>
+            <div style={{ position:"absolute", bottom:36, left:0, right:0, display:"flex", flexDirection:"column", alignItems:"center", gap:8,
+              fontFamily:"monospace", pointerEvents:"none", zIndex:10 }}>
+              {line && <div style={{ color:"#ffaa00", fontSize:16, letterSpacing:3, textShadow:"0 0 12px #ffaa0088" }}>{line.toUpperCase()}</div>}
+              <div style={{ display:"flex", gap:28, color:"#888", fontSize:12, letterSpacing:2 }}>
+                <span>RALLY <span style={{ color:"#fff" }}>{watchView.sim.hits}</span></span>
+                <span>LAST SHOT <span style={{ color:"#fff" }}>{Math.round(watchView.shotSpeed * UNITS_TO_KMH)} km/h</span></span>
+                <span>LONGEST <span style={{ color:"#fff" }}>{watchView.longest}</span></span>
+                {streak && streak.n > 1 && <span>STREAK <span style={{ color:sideCol[streak.side] }}>{names[streak.side]} ×{streak.n}</span></span>}
+              </div>
+            </div>
+            {watchView.score.winner && (
+              <div data-menu style={ov({ background:"rgba(0,0,0,0.5)" })}>
+                <div style={{ color:sideCol[watchView.score.winner], fontSize:40, letterSpacing:4, textShadow:`0 0 24px ${sideCol[watchView.score.winner]}` }}>
+                  {names[watchView.score.winner]} WINS
+                </div>
+                <div style={{ marginTop:10, color:"#777", fontSize:13, letterSpacing:2 }}>LONGEST RALLY {watchView.longest} HITS</div>
+                <div style={{ display:"flex", gap:20, marginTop:36 }}>
+                  <button type="button" onClick={startWatch} style={btn()}>WATCH AGAIN</button>
+                  <button type="button" onClick={() => setPhase("watch")} style={btn("#888")}>CHANGE LEVELS</button>
+                  <button type="button" onClick={quitToMenu} style={btn("#555")}>MENU</button>
+                </div>
+              </div>
+            )}
+          </>
+        );
+      })()}
+
       {/* Difficulty */}
       {phase === "difficulty" && (
-        <div style={ov()}>
+        <div data-menu style={ov()}>
           <div style={{ color:"#fff", fontSize:28, letterSpacing:4, marginBottom:8 }}>SELECT DIFFICULTY</div>
-          <div style={{ color:"#555", fontSize:13, marginBottom:44 }}>How hard do you want Auto?</div>
-          <div style={{ display:"flex", flexDirection:"column", gap:16 }}>
+          <div style={{ color:"#555", fontSize:13, marginBottom:24 }}>
+            {bot ? `${bot.name.toUpperCase()} plays instead of Auto · difficulty sets the ball speeds` : "How hard do you want Auto?"}
+          </div>
+          {rulesPicker()}
+          {!bot && <div style={{ display:"flex", gap:10, alignItems:"center", marginBottom:32 }}>
+            <span style={{ color:"#555", fontSize:11, letterSpacing:2, marginRight:6 }}>STYLE</span>
+            {(Object.keys(AI_STYLES) as AiStyle[]).map(st => (
+              <button type="button" key={st} onClick={() => setAiStyle(st)} style={{
+                ...btn(st === aiStyle ? "#fff" : "#555"),
+                padding:"8px 18px", fontSize:12, letterSpacing:2,
+              }}>
+                {AI_STYLES[st].label}
+              </button>
+            ))}
+          </div>}
+          <div style={{ display:"flex", flexDirection:"column", gap:16, marginTop: bot ? 8 : 0 }}>
             {(["easy","medium","hard","very_hard"] as Difficulty[]).map(d => {
               const m = diffMeta[d];
               return (
-                <div key={d} onClick={() => startGame(d)} style={{
+                <button type="button" key={d} onClick={() => startGame(d)} style={{
                   ...btn(m.col),
                   display:"flex", flexDirection:"column", alignItems:"center", gap:4,
                   minWidth:340, padding:"18px 52px",
                 }}>
                   <span style={{ fontSize:20, letterSpacing:3 }}>{m.label}</span>
                   <span style={{ fontSize:12, opacity:0.6, letterSpacing:1, fontWeight:400 }}>{m.sub}</span>
-                </div>
+                </button>
               );
             })}
+            {!bot && <button type="button" onClick={() => startGame("adaptive")} style={{
+              ...btn("#b967ff"),
+              display:"flex", flexDirection:"column", alignItems:"center", gap:4,
+              minWidth:340, padding:"18px 52px",
+            }}>
+              <span style={{ fontSize:20, letterSpacing:3 }}>ADAPTIVE</span>
+              <span style={{ fontSize:12, opacity:0.6, letterSpacing:1, fontWeight:400 }}>Auto follows your level · Skill {skillRating(savedSkill)}</span>
+            </button>}
+          </div>
+          {botError && <div style={{ marginTop:12, color:"#ff4444", fontSize:12, letterSpacing:1 }}>{botError}</div>}
+          <div style={{ display:"flex", gap:16, marginTop:28 }}>
+            <button type="button" onClick={() => setPhase("start")} style={btn("#555")}>← BACK</button>
+            <button type="button" onClick={() => setPhase("versus")} style={btn("#ff4444")}>LOCAL VERSUS</button>
+            {bot
+              ? <button type="button" onClick={() => setBot(null)} style={btn("#888")}>BACK TO AUTO</button>
+              : <button type="button" onClick={() => loadBot(null)} style={btn("#888")}>LOAD BOT</button>}
+          </div>
+        </div>
+      )}
+      <input
+        ref={botFileRef}
+        type="file"
+        accept=".js,.mjs,text/javascript"
+        style={{ display:"none" }}
+        onChange={e => {
+          const f = e.target.files?.[0];
+          e.target.value = "";
+          if (f) void openBot(f);
+        }}
+      />
+
+      {/* Local versus setup */}
+      {phase === "versus" && (
+        <div data-menu style={ov()}>
+          <div style={{ color:"#fff", fontSize:28, letterSpacing:4, marginBottom:8 }}>LOCAL VERSUS</div>
+          <div style={{ color:"#555", fontSize:13, marginBottom:36 }}>Two players, one machine — no bot</div>
+          <div style={{ display:"flex", gap:28, marginBottom:32 }}>
+            {([
+              { side: "player", col: "#00e5ff", hint: "Mouse / touch" },
+              { side: "ai",     col: "#ff4444", hint: "J L · 4 6 · gamepad" },
+            ] as const).map(p => (
+              <label key={p.side} style={{ display:"flex", flexDirection:"column", alignItems:"center", gap:8 }}>
+                <input
+                  value={versusNames[p.side]}
+                  maxLength={NAME_MAX}
+                  onChange={e => {
+                    const name = e.target.value.toUpperCase();
+                    setVersusNames(prev => ({ ...prev, [p.side]: name }));
+                  }}
+                  style={{
+                    width:200, padding:"10px 14px", background:"transparent", textAlign:"center",
+                    border:`2px solid ${p.col}`, borderRadius:6, color:p.col, outline:"none",
+                    fontFamily:"monospace", fontSize:18, letterSpacing:2, cursor:"text",
+                  }}
+                />
+                <span style={{ color:"#666", fontSize:11, letterSpacing:1 }}>{p.hint}</span>
+              </label>
+            ))}
+          </div>
+          {rulesPicker()}
+          <div style={{ display:"flex", gap:10, alignItems:"center", marginBottom:36 }}>
+            <span style={{ color:"#555", fontSize:11, letterSpacing:2, marginRight:6 }}>BALL SPEED</span>
+            {(["easy","medium","hard","very_hard"] as Difficulty[]).map(d => (
+              <button type="button" key={d} onClick={() => setDifficulty(d)} style={{
+                ...btn(d === difficulty ? diffMeta[d].col : "#555"),
+                padding:"8px 18px", fontSize:12, letterSpacing:2,
+              }}>
+                {diffMeta[d].label}
+              </button>
+            ))}
+          </div>
+          <div style={{ display:"flex", gap:16 }}>
+            <button type="button" onClick={() => setPhase("start")} style={btn("#555")}>← BACK</button>
+            <button type="button"
+              onClick={() => {
+                setVersusNames(prev => ({ player: prev.player.trim() || "P1", ai: prev.ai.trim() || "P2" }));
+                startGame(difficulty, "versus");
+              }}
+              style={btn()}
+            >
+              START
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Online lobby */}
+      {phase === "online" && (
+        <div data-menu style={ov()}>
+          <div style={{ color:"#fff", fontSize:28, letterSpacing:4, marginBottom:8 }}>ONLINE</div>
+          <div style={{ color: online.error ? "#ff4444" : "#555", fontSize:13, marginBottom:36 }}>
+            {online.error ?? (online.status === "open" ? "Connected to the match server" : "Connecting to the match server…")}
+          </div>
+          {online.room ? (
+            <>
+              <div style={{ color:"#555", fontSize:11, letterSpacing:3 }}>ROOM CODE</div>
+              <div style={{ color:"#ffaa00", fontSize:56, letterSpacing:14, textShadow:"0 0 24px #ffaa00", margin:"8px 0 16px" }}>{online.room.code}</div>
+              <div style={{ color:"#777", fontSize:13, marginBottom:36 }}>Waiting for an opponent — they join with this code (a second tab works too)</div>
+              <button type="button" onClick={() => { leaveOnline(); setPhase("start"); }} style={btn("#555")}>CANCEL</button>
+            </>
+          ) : (
+            <>
+              <input
+                value={onlineName}
+                placeholder="YOUR NAME"
+                maxLength={NAME_MAX}
+                onChange={e => setOnlineName(e.target.value.toUpperCase())}
+                style={{
+                  width:240, padding:"10px 14px", background:"transparent", textAlign:"center", marginBottom:28,
+                  border:"2px solid #00e5ff", borderRadius:6, color:"#00e5ff", outline:"none",
+                  fontFamily:"monospace", fontSize:18, letterSpacing:2, cursor:"text",
+                }}
+              />
+              <div style={{ display:"flex", gap:10, alignItems:"center", marginBottom:16 }}>
+                <span style={{ color:"#555", fontSize:11, letterSpacing:2, marginRight:6 }}>BALL SPEED</span>
+                {(["easy","medium","hard","very_hard"] as Difficulty[]).map(d => (
+                  <button type="button" key={d} onClick={() => setDifficulty(d)} style={{
+                    ...btn(d === difficulty ? diffMeta[d].col : "#555"),
+                    padding:"8px 18px", fontSize:12, letterSpacing:2,
+                  }}>
+                    {diffMeta[d].label}
+                  </button>
+                ))}
+              </div>
+              {rulesPicker(true)}
+              <button type="button" onClick={() => openNet().create(onlineName, difficulty, RULESETS[ruleset].online ? ruleset : "classic", bestOf)} style={{ ...btn(), marginBottom:36 }}>CREATE ROOM</button>
+              <div style={{ display:"flex", gap:12, alignItems:"center" }}>
+                <input
+                  value={joinCode}
+                  placeholder="CODE"
+                  maxLength={ROOM_CODE_LENGTH}
+                  onChange={e => setJoinCode(normaliseRoomCode(e.target.value))}
+                  style={{
+                    width:140, padding:"12px 14px", background:"transparent", textAlign:"center",
+                    border:"2px solid #ffaa00", borderRadius:6, color:"#ffaa00", outline:"none",
+                    fontFamily:"monospace", fontSize:20, letterSpacing:6, cursor:"text",
+                  }}
+                />
+                <button type="button"
+                  onClick={() => joinCode.length === ROOM_CODE_LENGTH && openNet().join(joinCode, onlineName)}
+                  style={btn(joinCode.length === ROOM_CODE_LENGTH ? "#ffaa00" : "#555")}
+                >
+                  JOIN
+                </button>
+              </div>
+              <button type="button" onClick={() => { leaveOnline(); setPhase("start"); }} style={{ ...btn("#555"), marginTop:36 }}>← BACK</button>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Between games */}
+      {phase === "between" && instantReplay && (
+        <>
+          <div style={{ position:"absolute", top:120, left:0, right:0, textAlign:"center", zIndex:15, pointerEvents:"none",
+            fontFamily:"monospace", color:"#ffaa00", fontSize:14, letterSpacing:6, textShadow:"0 0 10px #ffaa00" }}>
+            ● REPLAY{lastFault ? ` · ${FAULT_LABEL[lastFault]}` : ""}
+          </div>
+          <button type="button"
+            onClick={() => playbackRef.current?.onEnd?.()}
+            style={{ ...btn("#888", { padding:"8px 22px", fontSize:12 }), position:"absolute", bottom:36, right:28, zIndex:20, fontFamily:"monospace" }}
+          >
+            SKIP ▶ <span style={{ opacity:0.5, marginLeft:8, fontWeight:400 }}>SPACE</span>
+          </button>
+        </>
+      )}
+
+      {phase === "between" && gameEnded && !instantReplay && (
+        <div style={ov({ background:"rgba(0,0,0,0.6)", pointerEvents:"none" })}>
+          <div style={{ color:"#555", fontSize:13, letterSpacing:4 }}>GAME {match.history.length}</div>
+          {(() => {
+            const last = match.history[match.history.length - 1];
+            const won: Side = last.player > last.ai ? "player" : "ai";
+            const col = sideCol[won];
+            return <div style={{ fontSize:40, color:col, textShadow:`0 0 24px ${col}`, letterSpacing:3, margin:"8px 0 20px" }}>{names[won]} TAKES IT</div>;
+          })()}
+          <div style={{ display:"flex", gap:14, color:"#888", fontSize:16 }}>
+            {match.history.map((g, i) => <span key={i}>{g.player}–{g.ai}</span>)}
+          </div>
+          <div style={{ marginTop:20, color:"#fff", fontSize:18, letterSpacing:3 }}>
+            GAMES {match.games.player} – {match.games.ai}
+          </div>
+          <div style={{ marginTop:28, color:"#666", fontSize:13, letterSpacing:2 }}>{names[match.server]} to serve · next game starting...</div>
+        </div>
+      )}
+
+      {/* Paused */}
+      {phase === "paused" && (
+        <div data-menu style={ov({ cursor:"default" })}>
+          <div style={{ color:"#fff", fontSize:40, letterSpacing:8, textShadow:"0 0 24px #fff" }}>PAUSED</div>
+          <div style={{ marginTop:10, color:"#555", fontSize:13, letterSpacing:2 }}>
+            {mode === "training" && training
+              ? `${training.drill.name} · BALL ${training.fired} / ${training.drill.balls}`
+              : `${hud.points.player} — ${hud.points.ai}${rules.bestOf > 1 ? ` · GAMES ${hud.games.player} — ${hud.games.ai}` : ""}`}
           </div>
-          <div onClick={() => setPhase("start")} style={{ ...btn("#555"), marginTop:28 }}>← BACK</div>
+          <div style={{ display:"flex", flexDirection:"column", gap:14, marginTop:40, minWidth:280 }}>
+            <button type="button" onClick={resumeGame} style={btn()}>RESUME</button>
+            <button type="button" onClick={() => mode === "training" && drill ? startDrill(drill) : startGame(adaptive ? "adaptive" : difficulty, mode, opponent)} style={btn("#ffaa00")}>RESTART</button>
+            <button type="button" onClick={() => openSettings("paused")} style={btn("#888")}>SETTINGS</button>
+            <button type="button" onClick={quitToMenu} style={btn("#888")}>QUIT TO MENU</button>
+          </div>
+          <div style={{ marginTop:28, color:"#444", fontSize:11, letterSpacing:2 }}>ESC / START TO RESUME · QUITTING ABANDONS THE MATCH</div>
+        </div>
+      )}
+
+      {/* Resume countdown */}
+      {phase === "countdown" && countdown > 0 && (
+        <div style={{ position:"absolute", inset:0, display:"flex", alignItems:"center", justifyContent:"center", zIndex:15, pointerEvents:"none" }}>
+          <div key={countdown} style={{ fontFamily:"monospace", color:"#fff", fontSize:120, opacity:0.85, textShadow:"0 0 40px #00e5ff" }}>{countdown}</div>
         </div>
       )}
 
       {/* Between points */}
-      {phase === "between" && (
+      {phase === "between" && !gameEnded && !instantReplay && (
         <div style={{ position:"absolute", inset:0, display:"flex", alignItems:"center", justifyContent:"center", zIndex:15, pointerEvents:"none" }}>
-          <div style={{ fontFamily:"monospace", color:"#fff", fontSize:26, opacity:0.75, textShadow:"0 0 10px #fff" }}>Get ready...</div>
+          <div style={{ display:"flex", flexDirection:"column", alignItems:"center", gap:10 }}>
+            {lastFault && <div style={{ fontFamily:"monospace", color:"#ffaa00", fontSize:14, letterSpacing:3, opacity:0.8 }}>{FAULT_LABEL[lastFault]}</div>}
+            <div style={{ fontFamily:"monospace", color:"#fff", fontSize:26, opacity:0.75, textShadow:"0 0 10px #fff" }}>
+              {mode === "online" && online.room?.phase === "paused" ? "Opponent disconnected — holding their seat..." : "Get ready..."}
+            </div>
+          </div>
         </div>
       )}
 
+      {/* Replay viewer */}
+      {phase === "replay" && viewer && (() => {
+        const last  = viewer.timeline.frames.length - 1;
+        const pts   = viewer.timeline.points;
+        const small = (col: string, on = false): React.CSSProperties =>
+          btn(on ? col : "#555", { padding:"6px 14px", fontSize:12, letterSpacing:1 });
+        return (
+          <div style={{ position:"absolute", left:0, right:0, bottom:0, zIndex:20, padding:"18px 28px 24px",
+            background:"linear-gradient(transparent, rgba(0,0,0,0.85))", fontFamily:"monospace", display:"flex", flexDirection:"column", gap:12 }}>
+            <input
+              type="range" min={0} max={last} step={1} value={Math.floor(viewerT)}
+              onChange={e => seekReplay(Number(e.target.value))}
+              style={{ width:"100%", accentColor:"#00e5ff", cursor:"pointer" }}
+            />
+            <div style={{ display:"flex", alignItems:"center", gap:10 }}>
+              <button type="button" onClick={() => seekReplay(pts[Math.max(0, viewerPoint - 1)].start)} style={small("#fff", true)} aria-label="Previous point">◀◀</button>
+              <button type="button" onClick={() => controlReplay({ ...viewerCtl, paused: !viewerCtl.paused })} style={small("#00e5ff", true)}>
+                {viewerCtl.paused ? "▶ PLAY" : "❚❚ PAUSE"}
+              </button>
+              <button type="button" onClick={() => seekReplay(pts[Math.min(pts.length - 1, viewerPoint + 1)].start)} style={small("#fff", true)} aria-label="Next point">▶▶</button>
+              <span style={{ color:"#777", fontSize:12, letterSpacing:2, margin:"0 12px" }}>POINT {viewerPoint + 1} / {pts.length}</span>
+              <div style={{ flex:1 }} />
+              {REPLAY_SPEEDS.map(v => (
+                <button type="button" key={v} onClick={() => controlReplay({ ...viewerCtl, speed: v })} style={small("#ffaa00", viewerCtl.speed === v)}>{v}×</button>
+              ))}
+              <button type="button" onClick={closeReplay} style={{ ...small("#888", true), marginLeft:16 }}>CLOSE</button>
+            </div>
+          </div>
+        );
+      })()}
+
       {/* Win */}
       {phase === "won" && winner && (
-        <div style={ov()}>
-          <div style={{ fontSize:54, color: winner==="Player" ? "#00e5ff" : "#ff4444", textShadow:`0 0 32px ${winner==="Player"?"#00e5ff":"#ff4444"}`, letterSpacing:4 }}>
-            {winner === "Player" ? "YOU WIN!" : "AUTO WINS!"}
+        <div data-menu style={ov()}>
+          {vfx.confetti > 0 && (winner === me || !me) && <Confetti count={vfx.confetti} color={sideCol[winner]} />}
+          <div style={{ fontSize:54, color: sideCol[winner], textShadow:`0 0 32px ${sideCol[winner]}`, letterSpacing:4 }}>
+            {winner === me ? "YOU WIN!" : `${names[winner]} WINS!`}
           </div>
-          <div style={{ marginTop:14, color:"#666", fontSize:22, fontFamily:"monospace" }}>{scores.player} — {scores.ai}</div>
+          <div style={{ marginTop:14, color:"#666", fontSize:22, fontFamily:"monospace" }}>
+            {rules.bestOf > 1 ? `${match.games.player} — ${match.games.ai}` : `${match.points.player} — ${match.points.ai}`}
+          </div>
+          {rules.bestOf > 1 && (
+            <div style={{ marginTop:8, display:"flex", gap:14, color:"#555", fontSize:14, fontFamily:"monospace" }}>
+              {match.history.map((g, i) => <span key={i}>{g.player}–{g.ai}</span>)}
+            </div>
+          )}
+          {adaptive && mode === "solo" && (() => {
+            const change = skillRating(adaptive.skill) - skillRating(adaptive.start);
+            return (
+              <div style={{ marginTop:22, color:"#b967ff", fontSize:14, letterSpacing:3 }}>
+                SKILL ESTIMATE {skillRating(adaptive.skill)}
+                <span style={{ color:"#666" }}> ({change >= 0 ? "+" : ""}{change}) · PLAYS LIKE {diffMeta[nearestDifficulty(adaptive.skill)].label}</span>
+              </div>
+            );
+          })()}
+          {newRung && (
+            <div style={{ marginTop:22, color:newRung.color, fontSize:14, letterSpacing:3 }}>
+              {newRung.name} UNLOCKED
+            </div>
+          )}
+          {winner === "player" && boardMatch && (
+            !isDefaultTuning(localTuning) ? (
+              <div style={{ marginTop:28, color:"#555", fontSize:12, letterSpacing:1 }}>Leaderboard scores need the default gameplay settings</div>
+            ) : posting.status === "done" ? (
+              <button type="button" onClick={() => openBoard({ difficulty, window: "all" })} style={{ ...btn("#00ff88", { padding:"10px 24px", fontSize:13 }), marginTop:28 }}>
+                ON THE BOARD · #{posting.rank} AT {diffMeta[difficulty].label}
+              </button>
+            ) : (
+              <>
+                <div style={{ display:"flex", gap:12, alignItems:"center", marginTop:28 }}>
+                  <input
+                    value={onlineName}
+                    placeholder="YOUR NAME"
+                    aria-label="Name for the leaderboard"
+                    maxLength={NAME_MAX}
+                    onChange={e => setOnlineName(e.target.value.toUpperCase())}
+                    style={{
+                      width:200, padding:"8px 12px", background:"transparent", textAlign:"center",
+                      border:"2px solid #00ff88", borderRadius:6, color:"#00ff88", outline:"none",
+                      fontFamily:"monospace", fontSize:16, letterSpacing:2, cursor:"text",
+                    }}
+                  />
+                  <button type="button" disabled={posting.status === "sending" || !onlineName.trim()} onClick={() => void postScore()}
+                    style={btn("#00ff88", { padding:"10px 24px", fontSize:13, opacity: onlineName.trim() ? 1 : 0.4 })}>
+                    {posting.status === "sending" ? "SENDING…" : "SUBMIT SCORE"}
+                  </button>
+                </div>
+                {posting.status === "error" && <div style={{ marginTop:10, color:"#ff4444", fontSize:12, letterSpacing:1 }}>{posting.error}</div>}
+              </>
+            )
+          )}
           <div style={{ display:"flex", gap:20, marginTop:52 }}>
-            <div onClick={() => setPhase("difficulty")} style={btn()}>PLAY AGAIN</div>
-            <div onClick={() => setPhase("start")} style={btn("#888")}>MENU</div>
+            {mode === "online"
+              ? <button type="button" onClick={() => netRef.current?.rematch()} style={btn()}>REMATCH</button>
+              : opponent
+              ? <button type="button" onClick={openLadder} style={btn()}>LADDER</button>
+              : <button type="button" onClick={() => setPhase(mode === "versus" ? "versus" : "difficulty")} style={btn()}>PLAY AGAIN</button>}
+            {mode !== "online" && rules.ruleset !== "arcade" && <button type="button" onClick={saveReplay} style={btn("#ffaa00")}>SAVE REPLAY</button>}
+            <button type="button" onClick={quitToMenu} style={btn("#888")}>MENU</button>
           </div>
         </div>
       )}
@@ -0,0 +1,55 @@
+// ─── Accessibility ───────────────────────────────────────────
+// Colour-safe palettes, the assist mode and what the screen reader hears.
+// The palettes replace the cyan/red pairing, which red-green colour
+// blindness flattens, with pairs from the Okabe–Ito set that stay apart in
+// hue and brightness. Assist is part of the gameplay tuning, so it is local
+// only and replays record it like any other setting.
+import type { Side } from "./simulation";
+
+export type PaletteId = "standard" | "red_green" | "blue_yellow";
+
+export interface Palette {
+  label: string;
+  sides: Record<Side, string>; // HUD, paddles and hands
+}
+
+export const PALETTES: Record<PaletteId, Palette> = {
+  // STANDARD leaves the paddles and hands to the colours under VISUALS
+  standard:    { label: "STANDARD",         sides: { player: "#00e5ff", ai: "#ff4444" } },
+  red_green:   { label: "RED-GREEN SAFE",   sides: { player: "#56b4e9", ai: "#e69f00" } },
+  blue_yellow: { label: "BLUE-YELLOW SAFE", sides: { player: "#009e73", ai: "#cc79a7" } },
+};
+
+/** A ball that stands out against any table colour, with a dark seam. */
+export const CONTRAST_BALL = { color: "#ffe600", glow: 0.6, seam: "#111111" };
+
+// ─── Assist ──────────────────────────────────────────────────
+export const ASSIST_PADDLE = 1.3; // × paddle width
+export const ASSIST_SPEED  = 0.8; // × serve and rally speeds
+
+/** True when the browser asks for less motion; the default for REDUCED MOTION. */
+export function prefersReducedMotion(): boolean {
+  try {
+    return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+  } catch {
+    return false;
+  }
+}
+
+// ─── Live region ─────────────────────────────────────────────
+// Read out by screen readers whenever it changes, so it only ever holds the
+// latest news: the score after a point, the result once the match is over.
+export function scoreAnnouncement(
+  names: Record<Side, string>, points: Record<Side, number>, games: Record<Side, number> | null, why: string | null,
+): string {
+  const score = `${names.player} ${points.player}, ${names.ai} ${points.ai}`;
+  const set   = games ? `. Games ${games.player} to ${games.ai}` : "";
+  return `${why ? `${why}. ` : ""}${score}${set}`;
+}
+
+/** A match of several games is told in games, a single game in points. */
+export function resultAnnouncement(names: Record<Side, string>, winner: Side, points: Record<Side, number>, games: Record<Side, number> | null): string {
+  const tally = games ?? points;
+  const loser = winner === "player" ? "ai" : "player";
+  return `Match over. ${names[winner]} won ${tally[winner]} to ${tally[loser]}${games ? " in games" : ""}`;
+}
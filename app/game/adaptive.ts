@@ -0,0 +1,93 @@
+// ─── Adaptive difficulty ─────────────────────────────────────
+// An ADAPTIVE match has no fixed Difficulty. A skill estimate between 0 and 1
+// picks Auto's parameters and the rally speeds by blending the DIFF
+// profiles: 0 plays like easy, 1 like very_hard. After every point the
+// estimate moves towards whatever keeps the player winning about half the
+// points, and the final estimate seeds the next adaptive match.
+// The skill only changes between points, so a point is always played (and
+// replayed) with one set of parameters.
+import { DIFF, type Difficulty, type DifficultyParams } from "./constants";
+import type { Fault } from "./simulation";
+
+export interface SkillEstimate {
+  skill: number; // 0..1
+  start: number; // skill at the first serve, for the win screen
+  rate: number;  // recent share of points the player won
+  points: number;
+}
+
+/** What one point says about the player. */
+export interface PointOutcome {
+  won: boolean;
+  hits: number;
+  fault: Fault; // from the side that lost the point
+}
+
+const LEVELS: Difficulty[] = ["easy", "medium", "hard", "very_hard"];
+const SKILL_KEY   = "mpp-skill";
+const START_SKILL = 1 / 3;  // medium, until we know better
+const TARGET_WIN  = 0.5;    // share of points the player should win
+const RATE_K      = 0.2;    // weight of the latest point in the running rate
+const GAIN        = 0.25;   // skill moved per unit of rate off target
+const LONG_RALLY  = 6;      // hits; a player who keeps rallies going can take more
+const RALLY_NUDGE = 0.01;
+const MISS_NUDGE  = 0.02;   // beaten outright by the pace: ease off
+const MAX_STEP    = 0.06;   // per point
+
+const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+
+/** Auto's parameters and the ball speeds for a skill, blended between neighbouring DIFF profiles. */
+export function skillParams(skill: number): DifficultyParams {
+  const t = clamp01(skill) * (LEVELS.length - 1);
+  const i = Math.min(LEVELS.length - 2, Math.floor(t));
+  const a = DIFF[LEVELS[i]], b = DIFF[LEVELS[i + 1]];
+  const k = t - i;
+  const mix = (key: keyof DifficultyParams) => a[key] + (b[key] - a[key]) * k;
+  return {
+    reactionMs: mix("reactionMs"),
+    moveSpeed:  mix("moveSpeed"),
+    aimError:   mix("aimError"),
+    spin:       mix("spin"),
+    speedInit:  mix("speedInit"),
+    speedMax:   mix("speedMax"),
+  };
+}
+
+/** A skill as the 0–100 rating the menus show. */
+export function skillRating(skill: number): number {
+  return Math.round(clamp01(skill) * 100);
+}
+
+/** The fixed difficulty a skill plays closest to; stats file adaptive matches under it. */
+export function nearestDifficulty(skill: number): Difficulty {
+  return LEVELS[Math.round(clamp01(skill) * (LEVELS.length - 1))];
+}
+
+export function createEstimate(skill = START_SKILL): SkillEstimate {
+  const s = clamp01(skill);
+  return { skill: s, start: s, rate: TARGET_WIN, points: 0 };
+}
+
+/** Folds one point into the estimate. Pure. */
+export function adaptPoint(e: SkillEstimate, p: PointOutcome): SkillEstimate {
+  const rate = e.rate + ((p.won ? 1 : 0) - e.rate) * RATE_K;
+  let delta = (rate - TARGET_WIN) * GAIN;
+  if (p.hits >= LONG_RALLY) delta += RALLY_NUDGE;
+  if (!p.won && p.fault === "missed") delta -= MISS_NUDGE;
+  delta = Math.max(-MAX_STEP, Math.min(MAX_STEP, delta));
+  return { ...e, skill: clamp01(e.skill + delta), rate, points: e.points + 1 };
+}
+
+// ─── Storage ─────────────────────────────────────────────────
+export function loadSkill(): number {
+  try {
+    const raw = parseFloat(localStorage.getItem(SKILL_KEY) ?? "");
+    return Number.isFinite(raw) ? clamp01(raw) : START_SKILL;
+  } catch {
+    return START_SKILL;
+  }
+}
+
+export function saveSkill(skill: number) {
+  try { localStorage.setItem(SKILL_KEY, String(skill)); } catch { /* storage full or disabled */ }
+}
@@ -0,0 +1,129 @@
+// ─── Auto opponent ───────────────────────────────────────────
+// A predictive controller with human limits. It only looks at a new shot
+// after its reaction delay, forecasts where the ball will cross its paddle
+// line (walls, bounces and — as far as it can read it — spin included),
+// misjudges that by a seeded random error, and picks an off-centre contact
+// that steers the return toward a target chosen by its play style. A second
+// look after the bounce tightens the read.
+import { TABLE_D, TABLE_W, PADDLE_D, BALL_R, type DifficultyParams } from "./constants";
+import { nextRandom } from "./rng";
+import { SIM_DT, PADDLES, paddleWidth, predictCrossing, type SimParams, type SimState, type Side } from "./simulation";
+
+export type AiStyle = "defensive" | "aggressive" | "angle_hunter";
+
+export interface AiStyleParams {
+  label: string;
+  maxOff: number;  // furthest off-centre it will strike (1 = paddle edge) to steer a return
+  aimWide: number; // where it aims, as a fraction of the half-width away from the opponent; >1 uses the rail
+  flick: number;   // how much of its spin skill goes into swiping across the ball
+}
+
+export const AI_STYLES: Record<AiStyle, AiStyleParams> = {
+  defensive:    { label: "DEFENSIVE",    maxOff: 0.35, aimWide: 0.2, flick: 0.2 },
+  aggressive:   { label: "AGGRESSIVE",   maxOff: 0.7,  aimWide: 0.7, flick: 1   },
+  angle_hunter: { label: "ANGLE HUNTER", maxOff: 0.95, aimWide: 1.3, flick: 0.5 },
+};
+
+/** What Auto reads off the table: the ball, both paddles and where the rally is. */
+export type AiView = Pick<SimState, "pos" | "vel" | "spin" | "playerX" | "aiX" | "lastHitter" | "scorer" | "rally" | "hits" | "tick" | "bounces">;
+
+export interface AiBrain {
+  side: Side;
+  seed: number;     // the AI's own RNG, separate from the rally's
+  shot: string;     // `${rally}:${hits}` of the shot being answered
+  seenAt: number;   // tick that shot was first noticed
+  planned: boolean;
+  refined: boolean; // took its second look after the bounce
+  goalX: number;    // where the paddle is heading
+}
+
+// How far (z) from its paddle the AI starts its flick, and how far it swings
+const FLICK_RANGE = 1.5;
+const FLICK_X     = 0.3;
+
+export function createBrain(side: Side, seed: number): AiBrain {
+  return { side, seed: seed >>> 0, shot: "", seenAt: 0, planned: false, refined: false, goalX: 0 };
+}
+
+/** Auto's RNG seed in a solo match started from `matchSeed`, so a server can re-run Auto from a replay. */
+export const autoSeed = (matchSeed: number) => matchSeed ^ 0x9e3779b9;
+
+/** Decides this tick's paddle target. Pure: returns the advanced brain. */
+export function think(b: AiBrain, s: AiView, p: DifficultyParams & SimParams, style: AiStyle): [x: number, brain: AiBrain] {
+  const me  = PADDLES[b.side];
+  const myX = b.side === "player" ? s.playerX : s.aiX;
+  const st  = AI_STYLES[style];
+
+  if (s.lastHitter === b.side || s.scorer) {
+    // Our shot is in flight: recover to the middle
+    b = b.shot ? { ...b, shot: "", planned: false, refined: false, goalX: 0 } : b;
+  } else {
+    const shot = `${s.rally}:${s.hits}`;
+    if (shot !== b.shot) b = { ...b, shot, seenAt: s.tick, planned: false, refined: false };
+    const reacted = (s.tick - b.seenAt) * SIM_DT * 1000 >= p.reactionMs;
+    if (reacted && (!b.planned || (!b.refined && s.bounces > 0))) b = plan(b, s, p, st);
+  }
+
+  let goal = b.goalX;
+  // Swipe across the ball just before contact to curve the return away
+  // from the opponent
+  const dz = Math.abs(s.pos.z - me.z);
+  if (b.planned && dz < FLICK_RANGE && p.spin > 0) {
+    const oppX = b.side === "player" ? s.aiX : s.playerX;
+    goal += (oppX > 0 ? -1 : 1) * FLICK_X * p.spin * st.flick;
+  }
+  const maxStep = p.moveSpeed * SIM_DT;
+  return [myX + Math.max(-maxStep, Math.min(maxStep, goal - myX)), b];
+}
+
+/**
+ * With several balls in play (arcade multiball), the one to deal with first:
+ * coming this way and soonest to arrive. Returns its index.
+ */
+export function focusBall(balls: readonly SimState[], side: Side): number {
+  const z = PADDLES[side].z;
+  let best = 0, soonest = Infinity;
+  balls.forEach((s, i) => {
+    if (s.scorer || s.lastHitter === side) return;
+    const t = Math.abs(z - s.pos.z) / Math.max(0.1, Math.abs(s.vel.z));
+    if (t < soonest) { soonest = t; best = i; }
+  });
+  return best;
+}
+
+function plan(b: AiBrain, s: AiView, p: DifficultyParams & SimParams, st: AiStyleParams): AiBrain {
+  const me = PADDLES[b.side];
+  const face = me.z + me.out * (PADDLE_D / 2 + BALL_R);
+  const c = predictCrossing(s, face, p.spin);
+  if (!c) return { ...b, planned: true };
+
+  // Triangular noise in [-1, 1], scaled up for fast balls and down once the
+  // ball has bounced and the AI has had a second look
+  const [r1, s1]   = nextRandom(b.seed);
+  const [r2, seed] = nextRandom(s1);
+  const refined = s.bounces > 0;
+  const err = (r1 + r2 - 1) * p.aimError * (Math.abs(s.vel.z) / 10) * (refined ? 0.4 : 1);
+  const hitX = c.x + err;
+
+  // Aim away from the opponent and work out which part of the paddle sends
+  // the ball there
+  const oppX = b.side === "player" ? s.aiX : s.playerX;
+  const aimX = (oppX > 0 ? -1 : 1) * st.aimWide * (TABLE_W / 2);
+  const wantVx = (aimX - hitX) * Math.abs(s.vel.z) / (TABLE_D * 0.75);
+  const off = Math.max(-st.maxOff, Math.min(st.maxOff, (wantVx - c.vx) / me.english));
+
+  return { ...b, seed, planned: true, refined, goalX: hitX - off * (paddleWidth(p, b.side) / 2) };
+}
+
+/**
+ * Wraps a brain in a plain controller for headless runs. Deterministic for a
+ * given seed as long as it is called once per tick.
+ */
+export function aiController(side: Side, p: DifficultyParams & SimParams, style: AiStyle, seed: number): (s: SimState) => number {
+  let brain = createBrain(side, seed);
+  return s => {
+    const [x, next] = think(brain, s, p, style);
+    brain = next;
+    return x;
+  };
+}
@@ -0,0 +1,207 @@
+// ─── Arcade ──────────────────────────────────────────────────
+// The ARCADE ruleset layers power-ups over the rally sim. Pickups hover over
+// the table and go to whoever last hit a ball through them. The layer keeps
+// a list of balls, each a full SimState stepped with the same paddle inputs,
+// and a list of timed effects that adjust those inputs and the sim params.
+// Like the sim it is pure and seeded: state in, state out.
+import { BALL_R, TABLE_D, TABLE_W } from "./constants";
+import { nextRandom } from "./rng";
+import {
+  PADDLES, SIM_HZ, TABLE_TOP, loftTo, other, paddleWidth, step,
+  type SimEvent, type SimInput, type SimParams, type SimState, type Side,
+} from "./simulation";
+
+export type PowerUp = "wide" | "narrow" | "multiball" | "slowmo" | "curve" | "shield" | "reverse";
+
+export interface PowerUpInfo {
+  label: string;
+  color: string;
+  seconds: number;          // 0 = instant
+  target: "self" | "opponent"; // who the effect lands on, from the collector's view
+}
+
+export const POWER_UPS: Record<PowerUp, PowerUpInfo> = {
+  wide:      { label: "WIDE",      color: "#00ff88", seconds: 8,  target: "self" },
+  narrow:    { label: "NARROW",    color: "#ff4444", seconds: 8,  target: "opponent" },
+  multiball: { label: "MULTIBALL", color: "#ffffff", seconds: 0,  target: "self" },
+  slowmo:    { label: "SLOW-MO",   color: "#7fdbff", seconds: 5,  target: "self" },
+  curve:     { label: "CURVE",     color: "#b967ff", seconds: 8,  target: "self" },
+  shield:    { label: "SHIELD",    color: "#ffaa00", seconds: 10, target: "self" },
+  reverse:   { label: "REVERSED",  color: "#ff4fa3", seconds: 5,  target: "opponent" },
+};
+
+const KINDS = Object.keys(POWER_UPS) as PowerUp[];
+
+export interface Pickup {
+  id: number;
+  kind: PowerUp;
+  x: number;
+  z: number;
+  ttl: number; // ticks
+}
+
+export interface Effect {
+  kind: PowerUp;
+  side: Side;  // the side it acts on
+  ttl: number; // ticks
+}
+
+export interface ArcadeState {
+  seed: number;
+  balls: SimState[];  // [0] is the served ball; extras come from multiball
+  pickups: Pickup[];
+  effects: Effect[];
+  spawnIn: number;    // ticks until the next pickup
+  nextId: number;
+}
+
+export interface ArcadeStepResult {
+  state: ArcadeState;
+  events: (SimEvent | { type: "pickup"; kind: PowerUp; side: Side })[];
+  /** The ball that decided the point, or [0] while the rally is on. */
+  lead: SimState;
+}
+
+export const PICKUP_Y   = TABLE_TOP + 0.5; // hover height
+export const PICKUP_R   = 0.35;
+const PICKUP_REACH      = 0.9;  // how far above the pickup a ball still collects it
+const PICKUP_TTL        = 10 * SIM_HZ;
+const SPAWN_MIN         = 4 * SIM_HZ;
+const SPAWN_SPREAD      = 3 * SIM_HZ;
+const MAX_PICKUPS       = 2;
+export const MAX_BALLS  = 3;
+const WIDE_K            = 1.5;
+const NARROW_K          = 0.6;
+const CURVE_SPIN        = 60;
+const SHIELD_GAP        = 0.35; // how far behind the paddle line the shield stands
+
+export function createArcade(seed: number): ArcadeState {
+  return { seed: seed >>> 0, balls: [], pickups: [], effects: [], spawnIn: SPAWN_MIN, nextId: 1 };
+}
+
+/** A new point: only the served ball stays. Pickups and effects carry on. */
+export function arcadeServe(a: ArcadeState, served: SimState): ArcadeState {
+  return { ...a, balls: [served] };
+}
+
+export function hasEffect(a: ArcadeState, kind: PowerUp, side: Side): boolean {
+  return a.effects.some(e => e.kind === kind && e.side === side);
+}
+
+/** The sim params with the current paddle-size effects applied. */
+export function arcadeParams<P extends SimParams>(a: ArcadeState, base: P): P {
+  const width = (side: Side) =>
+    paddleWidth(base, side) * (hasEffect(a, "wide", side) ? WIDE_K : 1) * (hasEffect(a, "narrow", side) ? NARROW_K : 1);
+  return { ...base, widths: { player: width("player"), ai: width("ai") } };
+}
+
+/** Sim time per real second: slow-mo slows the whole table, both paddles included. */
+export function timeScale(a: ArcadeState): number {
+  return a.effects.some(e => e.kind === "slowmo") ? 0.5 : 1;
+}
+
+/** The z of a side's shield, if it has one up. */
+export function shieldZ(side: Side): number {
+  const p = PADDLES[side];
+  return p.z - p.out * SHIELD_GAP;
+}
+
+function collect(a: ArcadeState, kind: PowerUp, collector: Side, balls: SimState[], from: SimState): ArcadeState {
+  const info = POWER_UPS[kind];
+  if (kind === "multiball") {
+    if (balls.length >= MAX_BALLS) return a;
+    // A twin of the collecting ball, split off the other way
+    const [r, seed] = nextRandom(a.seed);
+    balls.push({ ...from, vel: { ...from.vel, x: -from.vel.x + (r - 0.5) * 2 }, spin: { ...from.spin } });
+    return { ...a, seed };
+  }
+  const side = info.target === "self" ? collector : other(collector);
+  const effects = a.effects.filter(e => !(e.kind === kind && e.side === side));
+  return { ...a, effects: [...effects, { kind, side, ttl: info.seconds * SIM_HZ }] };
+}
+
+function spawn(a: ArcadeState): ArcadeState {
+  let seed = a.seed;
+  const draw = () => { const [r, s] = nextRandom(seed); seed = s; return r; };
+  const kind = KINDS[Math.floor(draw() * KINDS.length)];
+  const x = (draw() * 2 - 1) * (TABLE_W / 2 - 0.6);
+  const z = (draw() < 0.5 ? -1 : 1) * (1 + draw() * 2.2);
+  const spawnIn = SPAWN_MIN + Math.floor(draw() * SPAWN_SPREAD);
+  if (a.pickups.length >= MAX_PICKUPS) return { ...a, seed, spawnIn };
+  return { ...a, seed, spawnIn, nextId: a.nextId + 1, pickups: [...a.pickups, { id: a.nextId, kind, x, z, ttl: PICKUP_TTL }] };
+}
+
+// A ball heading out past a shielded paddle is sent straight back, deep into
+// the other half, as if the shield had played it. One save per shield.
+function shieldSave(s: SimState, side: Side): SimState | null {
+  const p = PADDLES[side];
+  const z = shieldZ(side);
+  // Only a ball that is already this side's to play: a long shot is still the hitter's fault
+  if (s.scorer || s.lastHitter === side || s.bounces === 0 || Math.sign(s.vel.z) !== -p.out) return null;
+  if ((s.pos.z - z) * p.out > 0 || s.pos.y < TABLE_TOP) return null;
+  const pos = { ...s.pos, z };
+  const vel = { ...s.vel, z: p.out * Math.abs(s.vel.z) };
+  const spin = { x: 0, y: 0, z: 0 };
+  vel.y = loftTo(pos, vel, p.out * 0.6 * TABLE_D / 2, spin);
+  return { ...s, pos, vel, spin, lastHitter: side, bounces: 0, netted: false, hits: s.hits + 1 };
+}
+
+/** Advances every ball by one tick with the same paddle inputs. */
+export function stepArcade(a: ArcadeState, input: SimInput, base: SimParams): ArcadeStepResult {
+  const params = arcadeParams(a, base);
+  const events: ArcadeStepResult["events"] = [];
+  const balls: SimState[] = [];
+  let decided: SimState | null = null;
+
+  for (let ball of a.balls) {
+    for (const side of ["player", "ai"] as const) {
+      const saved = hasEffect(a, "shield", side) ? shieldSave(ball, side) : null;
+      if (!saved) continue;
+      ball = saved;
+      a = { ...a, effects: a.effects.filter(e => !(e.kind === "shield" && e.side === side)) };
+      events.push({ type: "wall", x: ball.pos.x });
+    }
+    const res = step(ball, input, params);
+    let s = res.state;
+    for (const e of res.events) {
+      // Curve: the hitter's returns bend away from the opponent
+      if (e.type === "hit" && hasEffect(a, "curve", e.side)) {
+        const opp = e.side === "player" ? s.aiX : s.playerX;
+        const away = opp > s.pos.x ? -1 : 1;
+        s = { ...s, spin: { ...s.spin, y: PADDLES[e.side].out * away * CURVE_SPIN } };
+      }
+    }
+    events.push(...res.events);
+    balls.push(s);
+    if (s.scorer && !decided) decided = s;
+  }
+
+  // Pickups go to whoever last hit the ball that flew through them
+  const pickups: Pickup[] = [];
+  for (const pk of a.pickups) {
+    const by = balls.find(b => !b.scorer
+      && Math.hypot(b.pos.x - pk.x, b.pos.z - pk.z) < PICKUP_R + BALL_R
+      && b.pos.y < PICKUP_Y + PICKUP_REACH);
+    if (by) {
+      a = collect(a, pk.kind, by.lastHitter, balls, by);
+      events.push({ type: "pickup", kind: pk.kind, side: by.lastHitter });
+    } else if (pk.ttl > 1) {
+      pickups.push({ ...pk, ttl: pk.ttl - 1 });
+    }
+  }
+
+  let next: ArcadeState = {
+    ...a,
+    balls,
+    pickups,
+    effects: a.effects.map(e => ({ ...e, ttl: e.ttl - 1 })).filter(e => e.ttl > 0),
+    spawnIn: a.spawnIn - 1,
+  };
+  if (next.spawnIn <= 0) next = spawn(next);
+  return { state: next, events, lead: decided ?? balls[0] };
+}
+
+/** Reversed controls on `side`: a pointer target is mirrored, an AI's move is turned round. */
+export function reverseInput(x: number, current: number, human: boolean): number {
+  return human ? -x : current - (x - current);
+}
@@ -0,0 +1,215 @@
+// ─── Audio ───────────────────────────────────────────────────
+// One AudioContext for the whole game, created on the first user gesture
+// (browsers refuse to start audio before one). Every effect is synthesised
+// so the game needs no assets, but any of them can be swapped for a sample
+// with load(). Effects go through an SFX bus, the background loop through a
+// music bus, and both through a master gain that mute silences.
+//
+//   sources → panner → sfx ─┐
+//              music loop ──┴→ master → speakers
+
+export type Sfx = "hit" | "wall" | "bounce" | "net" | "score" | "win" | "lose" | "pickup";
+
+export interface AudioSettings {
+  master: number; // 0..1
+  sfx: number;
+  music: number;
+  muted: boolean;
+}
+
+export interface PlayOpts {
+  pan?: number;       // -1 (left) .. 1 (right)
+  intensity?: number; // 0..1, raises pitch and level, e.g. impact speed
+}
+
+export interface AudioManager {
+  /** Call from a user gesture. Safe to call repeatedly. */
+  unlock(): void;
+  play(sfx: Sfx, opts?: PlayOpts): void;
+  /** Replaces the synthesised sound with a sample. */
+  load(sfx: Sfx, url: string): Promise<void>;
+  settings(): AudioSettings;
+  /** Applies and saves. */
+  setSettings(s: AudioSettings): void;
+}
+
+export const DEFAULT_AUDIO: AudioSettings = { master: 0.8, sfx: 0.8, music: 0.35, muted: false };
+
+const AUDIO_KEY = "mpp-audio";
+const FADE = 0.03; // s, smooths volume changes so they don't click
+
+// ─── Synthesis ───────────────────────────────────────────────
+interface Voice { ctx: AudioContext; out: AudioNode; at: number; noise: AudioBuffer }
+
+function tone(v: Omit<Voice, "noise">, freq: number, dur: number, gain: number, type: OscillatorType = "sine", delay = 0) {
+  const o = v.ctx.createOscillator();
+  const g = v.ctx.createGain();
+  const t = v.at + delay;
+  o.type = type;
+  o.frequency.value = freq;
+  g.gain.setValueAtTime(gain, t);
+  g.gain.exponentialRampToValueAtTime(0.0001, t + dur);
+  o.connect(g).connect(v.out);
+  o.start(t);
+  o.stop(t + dur + 0.02);
+}
+
+function burst(v: Voice, filter: BiquadFilterType, freq: number, dur: number, gain: number) {
+  const src = v.ctx.createBufferSource();
+  const f = v.ctx.createBiquadFilter();
+  const g = v.ctx.createGain();
+  src.buffer = v.noise;
+  f.type = filter;
+  f.frequency.value = freq;
+  g.gain.setValueAtTime(gain, v.at);
+  g.gain.exponentialRampToValueAtTime(0.0001, v.at + dur);
+  src.connect(f).connect(g).connect(v.out);
+  src.start(v.at);
+  src.stop(v.at + dur + 0.02);
+}
+
+const SYNTH: Record<Sfx, (v: Voice, k: number) => void> = {
+  // k is intensity, 0..1
+  hit: (v, k) => {
+    const pitch = 0.8 + 0.5 * k;
+    burst(v, "bandpass", 2200 * pitch, 0.04, 0.35 + 0.4 * k);
+    tone(v, 880 * pitch, 0.07, 0.25 + 0.2 * k);
+  },
+  wall:   v => { tone(v, 210, 0.06, 0.25, "triangle"); burst(v, "lowpass", 900, 0.05, 0.25); },
+  bounce: (v, k) => { tone(v, 1500 + 300 * k, 0.025, 0.18); burst(v, "highpass", 3000, 0.02, 0.12); },
+  net:    v => burst(v, "lowpass", 420, 0.1, 0.45),
+  score:  v => { tone(v, 660, 0.12, 0.2, "triangle"); tone(v, 880, 0.18, 0.2, "triangle", 0.1); },
+  win:    v => [523, 659, 784, 1047].forEach((f, i) => tone(v, f, 0.3, 0.2, "triangle", i * 0.12)),
+  lose:   v => [440, 349, 262].forEach((f, i) => tone(v, f, 0.35, 0.2, "triangle", i * 0.16)),
+  pickup: v => [784, 1175, 1568].forEach((f, i) => tone(v, f, 0.1, 0.14, "square", i * 0.05)),
+};
+
+// A slow Am–F–C–G pad with a soft arpeggio on top, scheduled a bar ahead
+const BAR = 2.4; // s
+const CHORDS = [[220, 261.6, 329.6], [174.6, 220, 261.6], [130.8, 164.8, 196], [196, 246.9, 293.7]];
+
+function scheduleBar(ctx: AudioContext, out: AudioNode, at: number, n: number) {
+  const chord = CHORDS[n % CHORDS.length];
+  for (const f of chord) {
+    const o = ctx.createOscillator();
+    const g = ctx.createGain();
+    o.type = "triangle";
+    o.frequency.value = f / 2;
+    g.gain.setValueAtTime(0.0001, at);
+    g.gain.linearRampToValueAtTime(0.07, at + 0.6);
+    g.gain.linearRampToValueAtTime(0.0001, at + BAR + 0.4);
+    o.connect(g).connect(out);
+    o.start(at);
+    o.stop(at + BAR + 0.5);
+  }
+  for (let i = 0; i < 8; i++) {
+    tone({ ctx, out, at }, chord[i % 3] * 2, 0.25, 0.035, "sine", i * BAR / 8);
+  }
+}
+
+// ─── Manager ─────────────────────────────────────────────────
+export function createAudio(initial: AudioSettings): AudioManager {
+  let cfg = initial;
+  let ctx: AudioContext | null = null;
+  let master: GainNode, sfx: GainNode, music: GainNode;
+  let noise: AudioBuffer;
+  const samples: Partial<Record<Sfx, AudioBuffer>> = {};
+  const pending: Partial<Record<Sfx, string>> = {}; // samples asked for before unlock
+  let bar = 0;
+  let nextBar = 0;
+
+  const apply = () => {
+    if (!ctx) return;
+    const t = ctx.currentTime;
+    master.gain.setTargetAtTime(cfg.muted ? 0 : cfg.master, t, FADE);
+    sfx.gain.setTargetAtTime(cfg.sfx, t, FADE);
+    music.gain.setTargetAtTime(cfg.music, t, FADE);
+  };
+
+  const decode = async (s: Sfx, url: string) => {
+    if (!ctx) { pending[s] = url; return; }
+    const data = await (await fetch(url)).arrayBuffer();
+    samples[s] = await ctx.decodeAudioData(data);
+  };
+
+  // The loop runs only while music is audible, a bar ahead of the clock
+  const tickMusic = () => {
+    if (!ctx || cfg.muted || cfg.music <= 0 || ctx.state !== "running") return;
+    if (nextBar < ctx.currentTime) nextBar = ctx.currentTime + 0.1;
+    while (nextBar < ctx.currentTime + BAR) {
+      scheduleBar(ctx, music, nextBar, bar++);
+      nextBar += BAR;
+    }
+  };
+
+  return {
+    unlock() {
+      if (ctx) { if (ctx.state === "suspended") void ctx.resume(); return; }
+      try {
+        ctx = new AudioContext();
+      } catch {
+        return; // no Web Audio: stay silent
+      }
+      master = ctx.createGain();
+      sfx    = ctx.createGain();
+      music  = ctx.createGain();
+      sfx.connect(master);
+      music.connect(master);
+      master.connect(ctx.destination);
+      noise = ctx.createBuffer(1, ctx.sampleRate / 4, ctx.sampleRate);
+      const d = noise.getChannelData(0);
+      for (let i = 0; i < d.length; i++) d[i] = Math.random() * 2 - 1;
+      apply();
+      for (const [s, url] of Object.entries(pending)) void decode(s as Sfx, url);
+      setInterval(tickMusic, 500);
+    },
+
+    play(s, opts = {}) {
+      if (!ctx || ctx.state !== "running" || cfg.muted) return;
+      const k = Math.max(0, Math.min(1, opts.intensity ?? 0.5));
+      const pan = ctx.createStereoPanner();
+      pan.pan.value = Math.max(-1, Math.min(1, opts.pan ?? 0));
+      pan.connect(sfx);
+      const sample = samples[s];
+      if (sample) {
+        const src = ctx.createBufferSource();
+        src.buffer = sample;
+        src.playbackRate.value = 0.85 + 0.3 * k;
+        src.connect(pan);
+        src.start();
+      } else {
+        SYNTH[s]({ ctx, out: pan, at: ctx.currentTime, noise }, k);
+      }
+    },
+
+    load: decode,
+    settings: () => cfg,
+    setSettings(s) {
+      cfg = s;
+      apply();
+      saveAudioSettings(s);
+    },
+  };
+}
+
+// ─── Storage ─────────────────────────────────────────────────
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const raw = JSON.parse(localStorage.getItem(AUDIO_KEY) ?? "null");
+    return raw && typeof raw === "object" ? { ...DEFAULT_AUDIO, ...raw } : DEFAULT_AUDIO;
+  } catch {
+    return DEFAULT_AUDIO;
+  }
+}
+
+function saveAudioSettings(s: AudioSettings) {
+  try { localStorage.setItem(AUDIO_KEY, JSON.stringify(s)); } catch { /* storage full or disabled */ }
+}
+
+let shared: AudioManager | null = null;
+
+/** The game's one audio manager, created on first use. */
+export function getAudio(): AudioManager {
+  shared ??= createAudio(loadAudioSettings());
+  return shared;
+}
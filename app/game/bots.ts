@@ -0,0 +1,182 @@
+// ─── Bots ────────────────────────────────────────────────────
+// The controller interface for opponents written outside the game. Every
+// tick a bot gets a read-only snapshot of the table — the ball, its own
+// paddle and the other one — and answers with a target x or a movement
+// intent. Auto is one implementation (autoBot); a user bot is a module whose
+// default export is a BotModule, loaded by the tournament CLI or the LOAD BOT
+// button. Either paddle can be driven this way: botController() turns a bot
+// into the same PaddleController the headless runner and the scene use,
+// and spawnBot() does it straight from a module. A bot that throws surfaces
+// as a BotError naming it.
+// Bots move no faster than the quickest built-in paddle, so a bot match is
+// won by reading the ball, not by teleporting to it.
+import { DIFF, MAX_PADDLE_SPEED, type Difficulty, type DifficultyParams } from "./constants";
+import { AI_STYLES, createBrain, think, type AiStyle } from "./ai";
+import { stepKeyPaddle, type KeyPaddle } from "./keyPaddle";
+import type { PaddleController } from "./match";
+import {
+  PADDLES, SIM_DT, maxPaddleX, other, paddleWidth,
+  type SimParams, type SimState, type Side, type Vec3,
+} from "./simulation";
+
+export interface PaddleView {
+  readonly x: number;
+  readonly z: number;     // its face line; the player's end is +z
+  readonly width: number;
+  readonly maxX: number;  // how far it can go either way
+}
+
+/** One tick of the table, as a bot sees it. A fresh copy every tick. */
+export interface BotView {
+  readonly side: Side;    // "player" plays the +z end, "ai" the -z end
+  readonly tick: number;  // SIM_HZ ticks a second
+  readonly rally: number;
+  readonly ball: { readonly pos: Readonly<Vec3>; readonly vel: Readonly<Vec3>; readonly spin: Readonly<Vec3> };
+  readonly me: PaddleView;
+  readonly opponent: PaddleView;
+  readonly lastHitter: Side;   // the serve counts as a hit by the server
+  readonly hits: number;    // paddle hits this rally
+  readonly bounces: number; // table bounces since the last hit
+}
+
+/** Where to go: an x to head for, or -1..1 held like a stick. */
+export type BotMove = { x: number } | { intent: number };
+
+export interface Bot {
+  tick(view: BotView): BotMove;
+}
+
+export interface BotSetup {
+  side: Side;
+  seed: number;     // for bots that want randomness and still replay the same
+  params: SimParams; // what the sim is playing with: ball speeds, paddle sizes
+}
+
+export interface BotModule {
+  name: string;
+  create(setup: BotSetup): Bot;
+}
+
+export const BOT_MAX_SPEED = MAX_PADDLE_SPEED; // units/s
+
+function paddleView(s: SimState, side: Side, params: SimParams): PaddleView {
+  const width = paddleWidth(params, side);
+  return { x: side === "player" ? s.playerX : s.aiX, z: PADDLES[side].z, width, maxX: maxPaddleX(width) };
+}
+
+export function viewOf(s: SimState, side: Side, params: SimParams): BotView {
+  return {
+    side,
+    tick:  s.tick,
+    rally: s.rally,
+    ball:  { pos: { ...s.pos }, vel: { ...s.vel }, spin: { ...s.spin } },
+    me:       paddleView(s, side, params),
+    opponent: paddleView(s, other(side), params),
+    lastHitter: s.lastHitter,
+    hits:    s.hits,
+    bounces: s.bounces,
+  };
+}
+
+/** A user bot that threw, from create() or from a tick. The message leads with the bot's name. */
+export class BotError extends Error {
+  constructor(readonly bot: string, cause: unknown) {
+    super(`${bot}: ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+    this.name = "BotError";
+  }
+}
+
+/**
+ * Drives one paddle with a bot. An intent moves the paddle like a held key;
+ * a target x is approached at up to BOT_MAX_SPEED. Anything that isn't a
+ * finite number leaves the paddle where it is. A tick that throws is
+ * rethrown as a BotError under `name`.
+ */
+export function botController(bot: Bot, side: Side, params: SimParams, name = "bot"): PaddleController {
+  let pad: KeyPaddle = { x: 0, v: 0 };
+  const maxStep = BOT_MAX_SPEED * SIM_DT;
+  return s => {
+    const myX = side === "player" ? s.playerX : s.aiX;
+    let move: unknown;
+    try {
+      move = bot.tick(viewOf(s, side, params));
+    } catch (e) {
+      throw new BotError(name, e);
+    }
+    const m = (typeof move === "object" && move !== null ? move : {}) as { x?: unknown; intent?: unknown };
+    if (typeof m.intent === "number" && Number.isFinite(m.intent)) {
+      const axis = Math.max(-1, Math.min(1, m.intent));
+      pad = stepKeyPaddle({ ...pad, x: myX }, axis, SIM_DT, maxPaddleX(paddleWidth(params, side)));
+      return pad.x;
+    }
+    if (typeof m.x === "number" && Number.isFinite(m.x)) return myX + Math.max(-maxStep, Math.min(maxStep, m.x - myX));
+    return myX;
+  };
+}
+
+/** Creates a module's bot for one match and drives its side with it. Throws a BotError if create() fails. */
+export function spawnBot(m: BotModule, setup: BotSetup): PaddleController {
+  let bot: Bot;
+  try {
+    bot = m.create(setup);
+  } catch (e) {
+    throw new BotError(m.name, e);
+  }
+  if (typeof bot !== "object" || bot === null || typeof bot.tick !== "function") {
+    throw new BotError(m.name, "create() must return an object with a tick(view) function");
+  }
+  return botController(bot, setup.side, setup.params, m.name);
+}
+
+// ─── Built-in bots ───────────────────────────────────────────
+/** Auto at a difficulty and in a style, behind the bot interface. */
+export function autoBot(level: Difficulty, style: AiStyle = "aggressive"): BotModule {
+  const traits: Pick<DifficultyParams, "reactionMs" | "moveSpeed" | "aimError" | "spin"> = DIFF[level];
+  return {
+    name: `auto:${level}${style === "aggressive" ? "" : `:${style}`}`,
+    create({ side, seed, params }) {
+      const p = { ...DIFF[level], ...params, ...traits };
+      let brain = createBrain(side, seed);
+      return {
+        tick(v) {
+          const [me, opp] = [v.me.x, v.opponent.x];
+          const [x, next] = think(brain, {
+            pos: v.ball.pos, vel: v.ball.vel, spin: v.ball.spin,
+            playerX: side === "player" ? me : opp, aiX: side === "ai" ? me : opp,
+            lastHitter: v.lastHitter, scorer: null, rally: v.rally, hits: v.hits, tick: v.tick, bounces: v.bounces,
+          }, p, style);
+          brain = next;
+          return { x };
+        },
+      };
+    },
+  };
+}
+
+/** Looks up a built-in by name: `auto:<difficulty>` with an optional `:<style>`. */
+export function builtInBot(name: string): BotModule | null {
+  const [kind, level, style = "aggressive"] = name.split(":");
+  if (kind !== "auto" || !Object.hasOwn(DIFF, level) || !Object.hasOwn(AI_STYLES, style)) return null;
+  return autoBot(level as Difficulty, style as AiStyle);
+}
+
+/** Checks a loaded module's default export. Returns an error message, or the bot. */
+export function checkBotModule(raw: unknown, fallbackName = "bot"): BotModule | string {
+  const m = raw as Partial<BotModule> | null;
+  if (!m || typeof m !== "object") return "Bot module has no default export";
+  if (typeof m.create !== "function") return "Bot module needs a create(setup) function";
+  return { name: typeof m.name === "string" && m.name ? m.name : fallbackName, create: m.create };
+}
+
+/** Loads a bot from a module's source text, in the browser. Returns an error message, or the bot. */
+export async function importBot(source: string, fallbackName: string): Promise<BotModule | string> {
+  const url = URL.createObjectURL(new Blob([source], { type: "text/javascript" }));
+  try {
+    const mod = await import(/* webpackIgnore: true */ /* turbopackIgnore: true */ url);
+    return checkBotModule(mod.default, fallbackName);
+  } catch (e) {
+    return `Could not load the bot: ${(e as Error).message}`;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,109 @@
+// ─── Camera rigs ─────────────────────────────────────────────
+// Where the camera wants to be for a given frame. Rigs work in view space:
+// the local player's end of the table is always +z, so an online guest (whose
+// table is turned round) gets the same shots. The scene eases towards the
+// target every frame, which is what makes switching rigs smooth.
+import * as THREE from "three";
+import { PLAYER_Z, TABLE_W } from "./constants";
+import type { Vec3 } from "./simulation";
+
+export type CameraMode = "overhead" | "paddle" | "broadcast" | "dynamic";
+
+export const CAMERA_LABEL: Record<CameraMode, string> = {
+  overhead:  "OVERHEAD",
+  paddle:    "FIRST PERSON",
+  broadcast: "BROADCAST",
+  dynamic:   "DYNAMIC",
+};
+
+export const CAMERA_MODES = Object.keys(CAMERA_LABEL) as CameraMode[];
+
+export interface CameraShot {
+  pos: THREE.Vector3;
+  look: THREE.Vector3;
+  fov: number;
+}
+
+/** What a rig looks at, already in view space. */
+export interface CameraSubject {
+  ball: Vec3;
+  nearX: number; // the local player's paddle
+  hits: number;  // paddle hits in the current rally
+}
+
+const CAMERA_KEY = "mpp-camera";
+const ZOOM_HITS  = 12; // rally length at which the dynamic camera is fully in
+const UP = new THREE.Vector3(0, 1, 0);
+
+/** Writes the rig's target into `out`, so the scene can reuse one object. */
+export function cameraShot(mode: CameraMode, s: CameraSubject, out: CameraShot): CameraShot {
+  switch (mode) {
+    case "overhead":
+      out.pos.set(0, 8, 12);
+      out.look.set(0, 0, 0);
+      out.fov = 50;
+      break;
+    case "paddle":
+      // Low behind the paddle, trailing it so the far end stays in view
+      out.pos.set(s.nearX * 0.8, 1.6, PLAYER_Z + 3.2);
+      out.look.set(s.nearX * 0.3, 0.3, -2);
+      out.fov = 62;
+      break;
+    case "broadcast":
+      // High from the side and a little behind the near end, like a TV gantry
+      out.pos.set(TABLE_W / 2 + 8, 4.5, 5);
+      out.look.set(0, 0.3, 0.5);
+      out.fov = 40;
+      break;
+    case "dynamic": {
+      // Keeps the ball framed and creeps in as the rally gets longer
+      const zoom = Math.min(1, s.hits / ZOOM_HITS);
+      out.pos.set(s.ball.x * 0.4, 6.5 - 2.5 * zoom, 11.5 - 3 * zoom + s.ball.z * 0.2);
+      out.look.set(s.ball.x * 0.5, 0, s.ball.z * 0.4);
+      out.fov = 52 - 14 * zoom;
+      break;
+    }
+  }
+  return out;
+}
+
+/**
+ * +1 when screen-right runs along world +x for this shot, -1 when it runs
+ * the other way. The input layer's paddle intent is screen-relative, so
+ * multiplying by this keeps left meaning left whatever the camera does.
+ */
+export function screenSign(shot: CameraShot): number {
+  const right = shot.look.clone().sub(shot.pos).cross(UP);
+  return right.x < 0 ? -1 : 1;
+}
+
+// ─── Attract ─────────────────────────────────────────────────
+const ORBIT_RADIUS = 13;
+const ORBIT_SPEED  = 0.06; // rad/s, a lap in just under two minutes
+
+/** The shot behind the menus: a slow lap round the table, `t` seconds in. */
+export function orbitShot(t: number, out: CameraShot): CameraShot {
+  const a = t * ORBIT_SPEED;
+  out.pos.set(Math.sin(a) * ORBIT_RADIUS, 6, Math.cos(a) * ORBIT_RADIUS);
+  out.look.set(0, 0, 0);
+  out.fov = 45;
+  return out;
+}
+
+export function nextCamera(mode: CameraMode): CameraMode {
+  return CAMERA_MODES[(CAMERA_MODES.indexOf(mode) + 1) % CAMERA_MODES.length];
+}
+
+// ─── Storage ─────────────────────────────────────────────────
+export function loadCameraMode(): CameraMode {
+  try {
+    const raw = localStorage.getItem(CAMERA_KEY);
+    return raw && raw in CAMERA_LABEL ? raw as CameraMode : "overhead";
+  } catch {
+    return "overhead";
+  }
+}
+
+export function saveCameraMode(m: CameraMode) {
+  try { localStorage.setItem(CAMERA_KEY, m); } catch { /* storage full or disabled */ }
+}
@@ -0,0 +1,139 @@
+// ─── Career ladder ───────────────────────────────────────────
+// A roster of named opponents played in order: beating one unlocks the next.
+// Each keeps a base Difficulty, which sets the ball speeds (so stats and
+// replays file them like any solo match), and overrides only how its AI
+// reads and chases the ball. The last rung is the plain very_hard profile.
+import { DIFF, type Difficulty, type DifficultyParams } from "./constants";
+import type { AiStyle } from "./ai";
+import type { MatchScore, Score } from "./match";
+
+export interface Opponent {
+  id: string;
+  name: string;
+  bio: string;
+  difficulty: Difficulty;
+  ai: Partial<Pick<DifficultyParams, "reactionMs" | "moveSpeed" | "aimError" | "spin">>;
+  style: AiStyle;
+  color: string; // paddle
+  hand: string;
+}
+
+export const ROSTER: readonly Opponent[] = [
+  {
+    id: "rudi", name: "ROOKIE RUDI", difficulty: "easy", style: "defensive",
+    bio: "Plays every Friday at the youth club. Gets everything back, slowly.",
+    ai: { reactionMs: 360, aimError: 1 },
+    color: "#7ac74f", hand: "#e0b48a",
+  },
+  {
+    id: "mei", name: "MEI THE WALL", difficulty: "medium", style: "defensive",
+    bio: "Never goes for a winner. Waits for you to miss instead.",
+    ai: { moveSpeed: 8, aimError: 0.4, spin: 0.1 },
+    color: "#f2c14e", hand: "#c68c5a",
+  },
+  {
+    id: "viktor", name: "VIKTOR SPIN", difficulty: "medium", style: "aggressive",
+    bio: "Brushes every ball. Expect it to curve away from you.",
+    ai: { spin: 0.8, aimError: 0.7 },
+    color: "#b967ff", hand: "#f0c8a0",
+  },
+  {
+    id: "sasha", name: "SASHA ANGLES", difficulty: "hard", style: "angle_hunter",
+    bio: "Lives on the sidelines of the table and wants you there too.",
+    ai: { reactionMs: 190, aimError: 0.3 },
+    color: "#ff7f50", hand: "#8d5524",
+  },
+  {
+    id: "loop", name: "DR. LOOP", difficulty: "hard", style: "aggressive",
+    bio: "Former national junior champion. Fast feet, heavy topspin.",
+    ai: { moveSpeed: 12, spin: 0.75 },
+    color: "#ff4fa3", hand: "#e8b992",
+  },
+  {
+    id: "machine", name: "THE MACHINE", difficulty: "very_hard", style: "aggressive",
+    bio: "Nobody knows where it came from. Nobody has beaten it twice.",
+    ai: {},
+    color: "#cc3333", hand: "#9aa4b1",
+  },
+];
+
+/** The AI parameters an opponent actually plays with. */
+export function opponentParams(o: Opponent): DifficultyParams {
+  return { ...DIFF[o.difficulty], ...o.ai };
+}
+
+// ─── Progress ────────────────────────────────────────────────
+export interface LadderRecord {
+  played: number;
+  won: number;
+  best: Score[] | null; // games of the most convincing win
+}
+
+export interface Career {
+  version: 1;
+  ladder: Record<string, LadderRecord>;
+}
+
+export type Rung = "locked" | "unlocked" | "beaten";
+
+const CAREER_KEY = "mpp-career";
+
+export function emptyCareer(): Career {
+  return { version: 1, ladder: {} };
+}
+
+export function recordOf(c: Career, id: string): LadderRecord {
+  return c.ladder[id] ?? { played: 0, won: 0, best: null };
+}
+
+export function rungOf(c: Career, i: number): Rung {
+  if (recordOf(c, ROSTER[i].id).won > 0) return "beaten";
+  return i === 0 || recordOf(c, ROSTER[i - 1].id).won > 0 ? "unlocked" : "locked";
+}
+
+// A win ranks by games won over games lost, then by points
+function margin(history: Score[]): [games: number, points: number] {
+  let games = 0, points = 0;
+  for (const g of history) {
+    games  += g.player > g.ai ? 1 : -1;
+    points += g.player - g.ai;
+  }
+  return [games, points];
+}
+
+function better(a: Score[], b: Score[] | null): boolean {
+  if (!b) return true;
+  const [ga, pa] = margin(a), [gb, pb] = margin(b);
+  return ga > gb || (ga === gb && pa > pb);
+}
+
+/** Folds a finished match against `id` into the career. Pure. */
+export function addLadderMatch(c: Career, id: string, m: MatchScore): Career {
+  const r = recordOf(c, id);
+  const won = m.winner === "player";
+  return {
+    ...c,
+    ladder: {
+      ...c.ladder,
+      [id]: {
+        played: r.played + 1,
+        won:    r.won + (won ? 1 : 0),
+        best:   won && better(m.history, r.best) ? m.history : r.best,
+      },
+    },
+  };
+}
+
+// ─── Storage ─────────────────────────────────────────────────
+export function loadCareer(): Career {
+  try {
+    const raw = JSON.parse(localStorage.getItem(CAREER_KEY) ?? "null");
+    return raw?.version === 1 && raw.ladder && typeof raw.ladder === "object" ? raw : emptyCareer();
+  } catch {
+    return emptyCareer();
+  }
+}
+
+export function saveCareer(c: Career) {
+  try { localStorage.setItem(CAREER_KEY, JSON.stringify(c)); } catch { /* storage full or disabled */ }
+}
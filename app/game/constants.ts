@@ -0,0 +1,38 @@
+// ─── Table & paddle geometry ─────────────────────────────────
+// World units. The table is centred on the origin with the player at +z.
+export const TABLE_W  = 6;
+export const TABLE_D  = 10;
+export const TABLE_H  = 0.15;
+export const PADDLE_W = 1.2;
+export const PADDLE_D = 0.25;
+export const PADDLE_H = 0.1;
+export const BALL_R   = 0.15;
+export const NET_H    = 0.25; // net top, above the playing surface
+export const WIN_SCORE = 7;
+export const PLAYER_Z  = TABLE_D / 2 - 0.5;
+export const AI_Z      = -TABLE_D / 2 + 0.5;
+
+export const BALL_LAUNCH_SPEED = 3.5;
+
+// ─── Difficulty ──────────────────────────────────────────────
+export type Difficulty = "easy" | "medium" | "hard" | "very_hard";
+
+export interface DifficultyParams {
+  reactionMs: number; // delay before the AI reads a new shot
+  moveSpeed: number;  // top paddle speed, units/s
+  aimError: number;   // spread of its read of where the ball arrives, units at 10 u/s
+  spin: number;       // 0..1 — how well the AI reads incoming curve and how hard it flicks
+  speedInit: number;  // rally speed after the first paddle hit
+  speedMax: number;   // hits stop accelerating the ball past this speed
+}
+
+// Difficulty shifted up — easy = old medium, very_hard = near-impossible
+export const DIFF: Record<Difficulty, DifficultyParams> = {
+  easy:      { reactionMs: 320, moveSpeed: 5,  aimError: 0.9,  spin: 0,   speedInit: 8,  speedMax: 18 },
+  medium:    { reactionMs: 240, moveSpeed: 7,  aimError: 0.6,  spin: 0.3, speedInit: 10, speedMax: 24 },
+  hard:      { reactionMs: 170, moveSpeed: 10, aimError: 0.35, spin: 0.6, speedInit: 13, speedMax: 30 },
+  very_hard: { reactionMs: 110, moveSpeed: 16, aimError: 0.15, spin: 0.9, speedInit: 16, speedMax: 38 }, // near-perfect AI
+};
+
+/** The fastest a paddle is let move where the mover can't be trusted (bots, online inputs), units/s: Auto's very best. */
+export const MAX_PADDLE_SPEED = Math.max(...Object.values(DIFF).map(d => d.moveSpeed));
@@ -0,0 +1,120 @@
+// ─── Exhibition ──────────────────────────────────────────────
+// Auto against Auto: the attract-mode rally behind the menus and the match
+// WATCH shows. Each end has its own difficulty and brain; the ball plays at
+// the quicker profile's speeds, so a mismatch is decided by reading and
+// reach rather than by the table. Alongside the sim it keeps what the
+// commentary talks about — the shot speed, streaks, the longest rally.
+// Always played at the default tuning: the player's gameplay settings are
+// for their own matches. WATCH can hand either end to a loaded bot, whose
+// level then only counts towards the ball speeds. Pure but for the bots,
+// one SIM_DT tick per call.
+import { DIFF, type Difficulty, type DifficultyParams } from "./constants";
+import { autoSeed, createBrain, think, type AiBrain, type AiStyle } from "./ai";
+import { CLASSIC_RULES, newMatch, scorePoint, type MatchScore, type PaddleController, type Rules } from "./match";
+import { SIM_HZ, createSim, other, serve, step, type Fault, type SimEvent, type SimParams, type SimState, type Side } from "./simulation";
+import { nextRandom } from "./rng";
+import { tunedParams } from "./settings";
+
+export interface ExhibitionSide {
+  level: Difficulty;
+  style: AiStyle;
+  bot?: string; // the name of the bot playing this end instead of Auto
+}
+
+export interface Exhibition {
+  sim: SimState;
+  sides: Record<Side, ExhibitionSide>;
+  brains: Record<Side, AiBrain>;
+  rules: Rules;
+  score: MatchScore;
+  wait: number;      // ticks until the next serve; 0 while a rally is on
+  shotSpeed: number; // of the last paddle hit, units/s
+  longest: number;   // most hits in a rally this match
+  streak: { side: Side; n: number } | null; // points in a row
+  lastPoint: { scorer: Side; fault: Fault } | null;
+}
+
+const BETWEEN_TICKS = Math.round(SIM_HZ * 1.2);
+const LEVELS = Object.keys(DIFF) as Difficulty[];
+
+type AutoParams = DifficultyParams & SimParams;
+const ballSpeeds = (p: SimParams) => ({ speedInit: p.speedInit, speedMax: p.speedMax });
+
+/** Auto's parameters for each end, and the table's: the quicker ball of the two. */
+export function exhibitionParams(sides: Record<Side, ExhibitionSide>): { table: SimParams } & Record<Side, AutoParams> {
+  const player = tunedParams(sides.player.level), ai = tunedParams(sides.ai.level);
+  const quick  = LEVELS.indexOf(sides.player.level) >= LEVELS.indexOf(sides.ai.level) ? player : ai;
+  return { table: quick, player: { ...player, ...ballSpeeds(quick) }, ai: { ...ai, ...ballSpeeds(quick) } };
+}
+
+export function createExhibition(seed: number, sides: Record<Side, ExhibitionSide>, rules: Rules = CLASSIC_RULES): Exhibition {
+  const score = newMatch();
+  return {
+    sim: serve(createSim(seed), score.server === "ai", exhibitionParams(sides).table.serveSpeed),
+    sides,
+    brains: { player: createBrain("player", seed ^ 0x5bd1e995), ai: createBrain("ai", autoSeed(seed)) },
+    rules,
+    score,
+    wait: 0,
+    shotSpeed: 0,
+    longest: 0,
+    streak: null,
+    lastPoint: null,
+  };
+}
+
+/** A demo match between two difficulties picked from the seed. EASY misses too often to be worth watching. */
+export function randomExhibition(seed: number): Exhibition {
+  const [a, s1] = nextRandom(seed);
+  const [b, s2] = nextRandom(s1);
+  const level = (r: number) => LEVELS[Math.min(LEVELS.length - 1, 1 + Math.floor(r * (LEVELS.length - 1)))];
+  return createExhibition(s2, { player: { level: level(a), style: "aggressive" }, ai: { level: level(b), style: "aggressive" } });
+}
+
+/** One tick. An end with a driver is played by it instead of Auto, whose brain then stands still. */
+export function stepExhibition(ex: Exhibition, drivers: Partial<Record<Side, PaddleController>> = {}): { state: Exhibition; events: SimEvent[] } {
+  // Between points the ball waits; a finished match waits out the last one and stops
+  if (ex.wait > 0) {
+    const wait = ex.wait - 1;
+    if (wait > 0 || ex.score.winner) return { state: { ...ex, wait }, events: [] };
+    return { state: { ...ex, wait, sim: serve(ex.sim, ex.score.server === "ai", exhibitionParams(ex.sides).table.serveSpeed) }, events: [] };
+  }
+  if (ex.score.winner) return { state: ex, events: [] };
+
+  const p = exhibitionParams(ex.sides);
+  const drive = (side: Side): [number, AiBrain] => {
+    const d = drivers[side];
+    return d ? [d(ex.sim), ex.brains[side]] : think(ex.brains[side], ex.sim, p[side], ex.sides[side].style);
+  };
+  const [playerX, player] = drive("player");
+  const [aiX, ai]         = drive("ai");
+  const res = step(ex.sim, { playerX, aiX }, p.table);
+  let next: Exhibition = { ...ex, sim: res.state, brains: { player, ai } };
+
+  for (const e of res.events) {
+    if (e.type === "hit") next = { ...next, shotSpeed: e.speed, longest: Math.max(next.longest, res.state.hits) };
+    if (e.type === "score") {
+      const run = next.streak?.side === e.scorer ? next.streak.n + 1 : 1;
+      next = {
+        ...next,
+        score: scorePoint(next.score, e.scorer, next.rules),
+        streak: { side: e.scorer, n: run },
+        lastPoint: { scorer: e.scorer, fault: e.fault },
+        wait: BETWEEN_TICKS,
+      };
+    }
+  }
+  return { state: next, events: res.events };
+}
+
+/** The line the commentary shows after a point, or null when there's nothing to say. */
+export function commentary(ex: Exhibition, names: Record<Side, string>): string | null {
+  const { streak, score, lastPoint } = ex;
+  if (!lastPoint) return null;
+  if (score.winner) return `${names[score.winner]} takes the match`;
+  if (streak && streak.n >= 3) return `${names[streak.side]} — ${streak.n} points in a row`;
+  const { points } = score;
+  const behind = other(lastPoint.scorer);
+  if (points[lastPoint.scorer] === points[behind]) return `${names[lastPoint.scorer]} levels it`;
+  return null;
+}
@@ -0,0 +1,124 @@
+// ─── Hand rig ────────────────────────────────────────────────
+// The floating hands are posed through a small rig: named bones (the wrist,
+// three per finger, two for the thumb), each holding a rotation. A pose is a
+// full set of bone rotations, and poses blend bone by bone. handPose() mixes
+// them from what the hand is doing this frame — reaching for a ball that is
+// coming at it, following through after a hit, fidgeting between points,
+// celebrating or slumping once the match is over. Rotations are for the
+// player's hand; the scene mirrors the far one. Pure, and free of three.js.
+
+export const FINGER_NAMES = ["index", "middle", "ring", "pinky"] as const;
+type FingerName = typeof FINGER_NAMES[number];
+
+/** Finger bones run knuckle (0), middle joint (1), tip joint (2). */
+export type Bone = "wrist" | `${FingerName}${0 | 1 | 2}` | "thumb0" | "thumb1";
+
+export const BONES: readonly Bone[] = [
+  "wrist",
+  ...FINGER_NAMES.flatMap(f => [`${f}0`, `${f}1`, `${f}2`] as Bone[]),
+  "thumb0", "thumb1",
+];
+
+export type Rot  = [x: number, y: number, z: number];
+export type Pose = Record<Bone, Rot>;
+
+// ─── Poses ───────────────────────────────────────────────────
+// At rest the palm tilts a little towards the net and the fingers hang down
+// and curl round the paddle. Other poses are offsets from it, by bone group.
+const FINGER_SPLAY: Record<FingerName, number> = { index: -0.08, middle: -0.03, ring: 0.03, pinky: 0.1 };
+const FINGER_CURL:  Record<FingerName, [number, number]> = { index: [0.45, 0.55], middle: [0.45, 0.55], ring: [0.45, 0.55], pinky: [0.42, 0.52] };
+const FINGER_FWD = -Math.PI * 0.42;
+
+interface PoseOffset {
+  wrist?: Rot;
+  knuckles?: number; // added to every finger's knuckle bend
+  curl?: number;     // added to both the other finger joints
+  thumb?: Rot;
+}
+
+function makePose(o: PoseOffset = {}): Pose {
+  const [wx, wy, wz] = o.wrist ?? [0, 0, 0];
+  const [tx, ty, tz] = o.thumb ?? [0, 0, 0];
+  const k = o.knuckles ?? 0, c = o.curl ?? 0;
+  const p = { wrist: [0.18 + wx, wy, wz], thumb0: [0.3 + tx, ty, -0.7 + tz], thumb1: [0.4 + c, 0, 0] } as Pose;
+  for (const f of FINGER_NAMES) {
+    p[`${f}0`] = [FINGER_FWD + k, 0, FINGER_SPLAY[f]];
+    p[`${f}1`] = [FINGER_CURL[f][0] + c, 0, 0];
+    p[`${f}2`] = [FINGER_CURL[f][1] + c, 0, 0];
+  }
+  return p;
+}
+
+export const POSES = {
+  rest:      makePose(),
+  windup:    makePose({ wrist: [-0.35, 0.3, 0], knuckles: 0.1, curl: 0.15 }),  // cocked back, gripping
+  follow:    makePose({ wrist: [0.55, -0.4, 0], knuckles: -0.05, curl: 0.1 }), // through the ball towards the net
+  celebrate: makePose({ wrist: [-0.7, 0, 0], knuckles: 0.5, curl: 1.1, thumb: [0.6, 0, 0.5] }), // a fist, raised
+  slump:     makePose({ wrist: [0.75, 0, 0.2], knuckles: -0.25, curl: -0.3 }), // limp over the table
+} as const;
+
+export function copyPose(from: Pose, out: Pose = makePose()): Pose {
+  for (const b of BONES) { const r = from[b]; out[b][0] = r[0]; out[b][1] = r[1]; out[b][2] = r[2]; }
+  return out;
+}
+
+/** Moves `out` a share `w` (0..1) of the way to `to`, bone by bone. */
+export function blendPose(out: Pose, to: Pose, w: number): Pose {
+  if (w <= 0) return out;
+  for (const b of BONES) {
+    const r = out[b], t = to[b];
+    r[0] += (t[0] - r[0]) * w; r[1] += (t[1] - r[1]) * w; r[2] += (t[2] - r[2]) * w;
+  }
+  return out;
+}
+
+// ─── Driving the rig ─────────────────────────────────────────
+export interface HandDrive {
+  t: number;         // clock, s
+  reach: number;     // 0..1, how close a ball on its way to this hand is
+  sinceHit: number;  // s since this hand last hit the ball
+  speed: number;     // paddle speed, -1..1 of a full sweep
+  idle: boolean;     // between points
+  mood: "celebrate" | "slump" | null;
+}
+
+const SWING_IN   = 0.08; // s to reach the follow-through
+const SWING_OUT  = 0.35; // s to come back from it
+const WRIST_ROLL = 0.35; // rad at full paddle speed, leaning into the move
+
+const smooth = (x: number) => x * x * (3 - 2 * x);
+
+/** 0..1: how far into its follow-through a hand is, `s` seconds after a hit. */
+export function followThrough(s: number): number {
+  if (s < 0 || s >= SWING_IN + SWING_OUT) return 0;
+  return s < SWING_IN ? smooth(s / SWING_IN) : 1 - smooth((s - SWING_IN) / SWING_OUT);
+}
+
+/** The pose a hand should be in this frame, written into `out`. */
+export function handPose(d: HandDrive, out: Pose): Pose {
+  copyPose(POSES.rest, out);
+  if (d.mood) {
+    blendPose(out, POSES[d.mood], 1);
+    // A winner pumps the fist; a loser's hand just sags now and then
+    out.wrist[0] += d.mood === "celebrate" ? Math.max(0, Math.sin(d.t * 7)) * -0.35 : Math.sin(d.t * 0.8) * 0.05;
+    return out;
+  }
+  const follow = followThrough(d.sinceHit);
+  blendPose(out, POSES.windup, smooth(Math.min(1, d.reach)) * (1 - follow));
+  blendPose(out, POSES.follow, follow);
+  out.wrist[2] -= d.speed * WRIST_ROLL;
+  if (d.idle) {
+    // Fingers drum on the paddle, each a little out of step with the next
+    FINGER_NAMES.forEach((f, i) => {
+      const w = Math.sin(d.t * 2.2 + i * 0.9) * 0.12;
+      out[`${f}0`][0] += w * 0.5;
+      out[`${f}1`][0] += w;
+    });
+    out.wrist[0] += Math.sin(d.t * 0.9) * 0.04;
+  }
+  return out;
+}
+
+export function restPose(): Pose {
+  return makePose();
+}
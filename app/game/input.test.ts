@@ -0,0 +1,58 @@
+// ─── Input config tests ──────────────────────────────────────
+// A stored config comes back whole and usable, and the two players never
+// share a movement key. Run with `npm test`.
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_INPUT, checkInputConfig, keyClash } from "./input";
+
+describe("checkInputConfig", () => {
+  it("fills a missing or unreadable config with the defaults", () => {
+    assert.deepEqual(checkInputConfig(null), DEFAULT_INPUT);
+    assert.deepEqual(checkInputConfig("keys"), DEFAULT_INPUT);
+  });
+
+  it("keeps what is valid", () => {
+    const cfg = { ...DEFAULT_INPUT, device: "gamepad", deadZone: 0.3, keys: { ...DEFAULT_INPUT.keys, serve: ["Enter"] }, pad: { serve: 1, pause: 8, camera: 2 } };
+    assert.deepEqual(checkInputConfig(JSON.parse(JSON.stringify(cfg))), cfg);
+  });
+
+  it("drops an unknown device and bad numbers", () => {
+    const cfg = checkInputConfig({ device: "joystick", mouseGain: "fast", lockedSpeed: null, axisSpeed: 99, deadZone: -1 });
+    assert.equal(cfg.device, DEFAULT_INPUT.device);
+    assert.equal(cfg.mouseGain, DEFAULT_INPUT.mouseGain);
+    assert.equal(cfg.lockedSpeed, DEFAULT_INPUT.lockedSpeed);
+    assert.equal(cfg.axisSpeed, 2);
+    assert.equal(cfg.deadZone, 0);
+  });
+
+  it("drops malformed bindings", () => {
+    const cfg = checkInputConfig({ keys: { serve: "Space", pause: [1] }, pad: { serve: -1, pause: 1.5, camera: "Y" } });
+    assert.deepEqual(cfg.keys, DEFAULT_INPUT.keys);
+    assert.deepEqual(cfg.pad, DEFAULT_INPUT.pad);
+  });
+
+  it("takes player two off keys that player one moves with", () => {
+    const keys = { ...DEFAULT_INPUT.keys, p2Left: ["ArrowLeft", "KeyA"], p2Right: ["ArrowRight", "KeyM"] };
+    const cfg = checkInputConfig({ device: "keys", keys });
+    assert.deepEqual(cfg.keys.p2Left, DEFAULT_INPUT.keys.p2Left);
+    assert.deepEqual(cfg.keys.p2Right, ["KeyM"]);
+  });
+});
+
+describe("keyClash", () => {
+  it("finds the other player's movement binding", () => {
+    assert.equal(keyClash(DEFAULT_INPUT.keys, "p2Left", "KeyA"), "left");
+    assert.equal(keyClash(DEFAULT_INPUT.keys, "right", "KeyJ"), "p2Left");
+  });
+
+  it("leaves other bindings and a player's own keys alone", () => {
+    assert.equal(keyClash(DEFAULT_INPUT.keys, "serve", "KeyJ"), null);
+    assert.equal(keyClash(DEFAULT_INPUT.keys, "left", "KeyD"), null);
+  });
+
+  it("keeps the default keys apart", () => {
+    for (const id of ["left", "right", "p2Left", "p2Right"] as const) {
+      assert.ok(DEFAULT_INPUT.keys[id].every(c => keyClash(DEFAULT_INPUT.keys, id, c) === null), id);
+    }
+  });
+});
@@ -0,0 +1,315 @@
+// ─── Input ───────────────────────────────────────────────────
+// Turns mouse, touch, Pointer Lock, keyboard and gamepads into two things
+// the rest of the game understands:
+//  - paddle intent: where player one wants their paddle, -1..1 across its
+//    reach, and player two's direction in local versus;
+//  - UI actions (serve, pause, menu navigation), with the physical key or
+//    button already resolved through the bindings.
+// The scene never sees raw device data, so adding a device only touches here.
+import { stepKeyPaddle, type KeyPaddle } from "./keyPaddle";
+import { MAX_PADDLE_X } from "./simulation";
+
+export type PaddleDevice = "mouse" | "locked" | "keys" | "gamepad";
+export type KeyBinding   = "left" | "right" | "serve" | "pause" | "camera" | "p2Left" | "p2Right";
+export type PadBinding   = "serve" | "pause" | "camera";
+export type UiAction     = "serve" | "pause" | "camera" | "up" | "down" | "left" | "right" | "confirm" | "back";
+
+export interface InputConfig {
+  device: PaddleDevice;      // what drives player one's paddle
+  mouseGain: number;         // absolute mouse: paddle reach per half screen width
+  lockedSpeed: number;       // pointer lock: paddle reach per 1000 px of movement
+  axisSpeed: number;         // keys and stick, × KEY_PADDLE_SPEED
+  deadZone: number;          // stick, 0..1
+  keys: Record<KeyBinding, string[]>; // KeyboardEvent.code
+  pad:  Record<PadBinding, number>;   // standard-mapping button index
+}
+
+export const DEFAULT_INPUT: InputConfig = {
+  device: "mouse",
+  mouseGain: 1.375, // the screen edge lands a little past the table's side
+  lockedSpeed: 2,
+  axisSpeed: 1,
+  deadZone: 0.15,
+  keys: {
+    left:    ["ArrowLeft", "KeyA"],
+    right:   ["ArrowRight", "KeyD"],
+    serve:   ["Space"],
+    pause:   ["Escape", "KeyP"],
+    camera:  ["KeyC"],
+    p2Left:  ["KeyJ", "Numpad4"],
+    p2Right: ["KeyL", "Numpad6"],
+  },
+  pad: { serve: 0, pause: 9, camera: 3 },
+};
+
+export const DEVICE_LABEL: Record<PaddleDevice, string> = {
+  mouse:   "MOUSE / TOUCH",
+  locked:  "POINTER LOCK",
+  keys:    "KEYBOARD",
+  gamepad: "GAMEPAD",
+};
+
+/** What the sliders allow; a stored value outside is clamped back in. */
+export const INPUT_RANGE: Record<"mouseGain" | "lockedSpeed" | "axisSpeed" | "deadZone", [min: number, max: number]> = {
+  mouseGain:   [0.8, 2.5],
+  lockedSpeed: [0.5, 5],
+  axisSpeed:   [0.5, 2],
+  deadZone:    [0, 0.5],
+};
+
+// A key that moved both paddles would make local versus unplayable, so the
+// two players' movement keys never overlap
+const P1_MOVE: readonly KeyBinding[] = ["left", "right"];
+const P2_MOVE: readonly KeyBinding[] = ["p2Left", "p2Right"];
+
+/** The other player's movement binding that already has `code`, or null. */
+export function keyClash(keys: Record<KeyBinding, string[]>, id: KeyBinding, code: string): KeyBinding | null {
+  const others = P1_MOVE.includes(id) ? P2_MOVE : P2_MOVE.includes(id) ? P1_MOVE : [];
+  return others.find(o => keys[o].includes(code)) ?? null;
+}
+
+const INPUT_KEY = "mpp-input";
+const NAV_THRESHOLD = 0.6; // stick deflection that counts as a menu step
+
+// Menu navigation is fixed so a bad binding can never lock anyone out
+const NAV_KEYS: Record<string, UiAction> = {
+  ArrowUp: "up", ArrowDown: "down", ArrowLeft: "left", ArrowRight: "right",
+  Enter: "confirm", Escape: "back", Backspace: "back",
+};
+const NAV_PAD: Record<number, UiAction> = { 0: "confirm", 1: "back", 12: "up", 13: "down", 14: "left", 15: "right" };
+
+const PAD_NAMES = ["A", "B", "X", "Y", "LB", "RB", "LT", "RT", "SELECT", "START", "L3", "R3", "D-UP", "D-DOWN", "D-LEFT", "D-RIGHT", "HOME"];
+
+export function keyLabel(code: string): string {
+  if (code.startsWith("Key"))   return code.slice(3);
+  if (code.startsWith("Digit")) return code.slice(5);
+  const arrows: Record<string, string> = { ArrowLeft: "←", ArrowRight: "→", ArrowUp: "↑", ArrowDown: "↓" };
+  return arrows[code] ?? code.replace(/(Left|Right)$/, " $1").toUpperCase();
+}
+
+export function padLabel(button: number): string {
+  return PAD_NAMES[button] ?? `BUTTON ${button}`;
+}
+
+export interface InputController {
+  /** Player one's paddle target, -1..1 across its reach. Call once per frame. */
+  paddle(dt: number): number;
+  /** Player two's direction in local versus, -1..1. */
+  p2Axis(): number;
+  setConfig(c: InputConfig): void;
+  /** Pointer Lock needs a user gesture, so call this from a click handler. */
+  lockPointer(): void;
+  releasePointer(): void;
+  /** Hands the next key code or pad button to `cb` instead of the game. */
+  capture(cb: ((input: { key: string } | { button: number }) => void) | null): void;
+  dispose(): void;
+}
+
+function stickAxis(v: number, deadZone: number): number {
+  const a = Math.abs(v);
+  return a <= deadZone ? 0 : Math.sign(v) * Math.min(1, (a - deadZone) / (1 - deadZone));
+}
+
+const clamp1 = (v: number) => Math.max(-1, Math.min(1, v));
+
+export function createInput(el: HTMLElement, config: InputConfig, onAction: (a: UiAction) => void): InputController {
+  let cfg = config;
+  const held = new Set<string>();
+  let pointerX = 0;               // absolute, -1..1 across the element
+  let lockedX  = 0;
+  let keyPaddle: KeyPaddle = { x: 0, v: 0 };
+  let stick = 0;                  // first pad's stick / d-pad, after the dead zone
+  let p2Stick = 0;
+  let prevButtons: boolean[] = [];
+  let prevNav = 0;
+  let capturing: Parameters<InputController["capture"]>[0] = null;
+  let raf = 0;
+
+  const anyHeld = (codes: string[]) => codes.some(c => held.has(c));
+  const keyAxis = (left: string[], right: string[]) => (anyHeld(right) ? 1 : 0) - (anyHeld(left) ? 1 : 0);
+  const locked  = () => document.pointerLockElement === el;
+
+  const trackPointer = (clientX: number) => {
+    const r = el.getBoundingClientRect();
+    pointerX = ((clientX - r.left) / r.width) * 2 - 1;
+  };
+
+  const onMouseMove = (e: MouseEvent) => {
+    if (locked()) lockedX = clamp1(lockedX + e.movementX * cfg.lockedSpeed / 1000);
+    else trackPointer(e.clientX);
+  };
+  const onTouch = (e: TouchEvent) => {
+    const t = e.touches[0];
+    if (t) trackPointer(t.clientX);
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (capturing) {
+      e.preventDefault();
+      const cb = capturing;
+      capturing = null;
+      cb({ key: e.code });
+      return;
+    }
+    const t = e.target as HTMLElement | null;
+    if (t && (t.tagName === "INPUT" || t.tagName === "TEXTAREA")) return;
+    held.add(e.code);
+    if (e.repeat) return;
+    // A focused button takes Enter and Space itself
+    if (t?.tagName === "BUTTON" && (e.code === "Enter" || e.code === "Space")) return;
+    if (cfg.keys.serve.includes(e.code)) { e.preventDefault(); onAction("serve"); }
+    if (cfg.keys.pause.includes(e.code)) onAction("pause");
+    if (cfg.keys.camera.includes(e.code)) onAction("camera");
+    const nav = NAV_KEYS[e.code];
+    if (nav) onAction(nav);
+  };
+  const onKeyUp = (e: KeyboardEvent) => { held.delete(e.code); };
+  const onBlur  = () => held.clear();
+
+  // Gamepads have no events for buttons or sticks, so they are polled
+  const pollPads = () => {
+    raf = requestAnimationFrame(pollPads);
+    const pads = navigator.getGamepads ? navigator.getGamepads().filter(p => p !== null) : [];
+    const first = pads[0];
+    const last  = pads[pads.length - 1];
+
+    const axisOf = (pad: Gamepad | undefined) => {
+      if (!pad) return 0;
+      const dpad = (pad.buttons[15]?.pressed ? 1 : 0) - (pad.buttons[14]?.pressed ? 1 : 0);
+      return clamp1(stickAxis(pad.axes[0] ?? 0, cfg.deadZone) + dpad);
+    };
+    stick = axisOf(first);
+    // One pad can't drive both paddles: player two only gets it when free
+    p2Stick = pads.length > 1 || cfg.device !== "gamepad" ? axisOf(last) : 0;
+
+    const buttons = first ? first.buttons.map(b => b.pressed) : [];
+    buttons.forEach((down, i) => {
+      if (!down || prevButtons[i]) return;
+      if (capturing) { const cb = capturing; capturing = null; cb({ button: i }); return; }
+      if (i === cfg.pad.serve) onAction("serve");
+      if (i === cfg.pad.pause) onAction("pause");
+      if (i === cfg.pad.camera) onAction("camera");
+      const nav = NAV_PAD[i];
+      if (nav) onAction(nav);
+    });
+    prevButtons = buttons;
+
+    // The left stick steps through menus once per push
+    const ny = first?.axes[1] ?? 0;
+    const nav = Math.abs(ny) > NAV_THRESHOLD ? Math.sign(ny) : 0;
+    if (nav && nav !== prevNav) onAction(nav > 0 ? "down" : "up");
+    prevNav = nav;
+  };
+
+  el.addEventListener("mousemove", onMouseMove);
+  el.addEventListener("touchstart", onTouch, { passive: true });
+  el.addEventListener("touchmove", onTouch, { passive: true });
+  window.addEventListener("keydown", onKeyDown);
+  window.addEventListener("keyup", onKeyUp);
+  window.addEventListener("blur", onBlur);
+  raf = requestAnimationFrame(pollPads);
+
+  return {
+    paddle(dt) {
+      switch (cfg.device) {
+        case "mouse":  return clamp1(pointerX * cfg.mouseGain);
+        case "locked": return lockedX;
+        case "keys":
+        case "gamepad": {
+          const axis = cfg.device === "keys" ? keyAxis(cfg.keys.left, cfg.keys.right) : stick;
+          keyPaddle = stepKeyPaddle(keyPaddle, clamp1(axis) * cfg.axisSpeed, dt);
+          return keyPaddle.x / MAX_PADDLE_X;
+        }
+      }
+    },
+    p2Axis: () => clamp1(keyAxis(cfg.keys.p2Left, cfg.keys.p2Right) + p2Stick),
+    setConfig(c) { cfg = c; },
+    lockPointer() {
+      if (locked()) return;
+      try {
+        const p = el.requestPointerLock() as Promise<void> | undefined;
+        p?.catch(() => { /* denied, e.g. too soon after the user left lock */ });
+      } catch { /* Pointer Lock unsupported */ }
+    },
+    releasePointer() { if (locked()) document.exitPointerLock(); },
+    capture(cb) { capturing = cb; },
+    dispose() {
+      cancelAnimationFrame(raf);
+      el.removeEventListener("mousemove", onMouseMove);
+      el.removeEventListener("touchstart", onTouch);
+      el.removeEventListener("touchmove", onTouch);
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", onBlur);
+    },
+  };
+}
+
+// ─── Menu navigation ─────────────────────────────────────────
+// Menu items are real buttons, so Tab, Enter and screen readers work on them
+// as they do anywhere; arrows and pads walk them in document order. An open
+// menu (marked data-menu) keeps the walk to itself.
+const MENU_ITEMS = "button:not(:disabled)";
+
+export function moveMenuFocus(step: number) {
+  const scope = document.querySelector("[data-menu]") ?? document;
+  const items = Array.from(scope.querySelectorAll<HTMLElement>(MENU_ITEMS));
+  if (!items.length) return;
+  const i = items.indexOf(document.activeElement as HTMLElement);
+  const next = i < 0 ? (step > 0 ? 0 : items.length - 1) : (i + step + items.length) % items.length;
+  // focusVisible: a gamepad press isn't a keyboard event, so ask for the ring explicitly
+  items[next].focus({ focusVisible: true } as FocusOptions);
+}
+
+export function pressFocused(): boolean {
+  const el = document.activeElement;
+  if (!(el instanceof HTMLButtonElement)) return false;
+  el.click();
+  return true;
+}
+
+/** Puts focus on the open menu's first button, so keys and pads can go straight on. */
+export function focusMenu() {
+  document.querySelector<HTMLElement>(`[data-menu] ${MENU_ITEMS}`)?.focus({ preventScroll: true });
+}
+
+// ─── Storage ─────────────────────────────────────────────────
+/** Fills a stored config out to a whole one: anything missing, of the wrong type or out of range gets its default. */
+export function checkInputConfig(raw: unknown): InputConfig {
+  const src = raw && typeof raw === "object" ? raw as Record<string, unknown> : {};
+  const out: InputConfig = { ...DEFAULT_INPUT, keys: { ...DEFAULT_INPUT.keys }, pad: { ...DEFAULT_INPUT.pad } };
+  if (typeof src.device === "string" && Object.hasOwn(DEVICE_LABEL, src.device)) out.device = src.device as PaddleDevice;
+  for (const [key, [min, max]] of Object.entries(INPUT_RANGE) as [keyof typeof INPUT_RANGE, [number, number]][]) {
+    const v = src[key];
+    if (typeof v === "number" && Number.isFinite(v)) out[key] = Math.max(min, Math.min(max, v));
+  }
+  const keys = src.keys && typeof src.keys === "object" ? src.keys as Record<string, unknown> : {};
+  for (const id of Object.keys(out.keys) as KeyBinding[]) {
+    const v = keys[id];
+    if (Array.isArray(v) && v.every(c => typeof c === "string")) out.keys[id] = v.slice(0, 2);
+  }
+  // Configs saved before the players' keys were kept apart gave player two
+  // player one's arrows and A / D
+  for (const id of P2_MOVE) {
+    const own = (ks: string[]) => ks.filter(c => !keyClash(out.keys, id, c));
+    out.keys[id] = own(out.keys[id]).length ? own(out.keys[id]) : own(DEFAULT_INPUT.keys[id]);
+  }
+  const pad = src.pad && typeof src.pad === "object" ? src.pad as Record<string, unknown> : {};
+  for (const id of Object.keys(out.pad) as PadBinding[]) {
+    const v = pad[id];
+    if (typeof v === "number" && Number.isInteger(v) && v >= 0) out.pad[id] = v;
+  }
+  return out;
+}
+
+export function loadInputConfig(): InputConfig {
+  try {
+    return checkInputConfig(JSON.parse(localStorage.getItem(INPUT_KEY) ?? "null"));
+  } catch {
+    return DEFAULT_INPUT;
+  }
+}
+
+export function saveInputConfig(c: InputConfig) {
+  try { localStorage.setItem(INPUT_KEY, JSON.stringify(c)); } catch { /* storage full or disabled */ }
+}
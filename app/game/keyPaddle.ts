@@ -0,0 +1,21 @@
+// ─── Keyboard / stick paddle ─────────────────────────────────
+// Keys and sticks give a direction, not a position, so the paddle
+// accelerates while a direction is held and brakes hard when it is let go.
+import { MAX_PADDLE_X } from "./simulation";
+
+export interface KeyPaddle { x: number; v: number }
+
+export const KEY_PADDLE_SPEED = 9;  // units/s at full deflection
+const ACCEL = 45;
+const BRAKE = 70;
+
+/** `axis` is -1..1: a digital key pair or an analog stick past its dead zone. */
+export function stepKeyPaddle(p: KeyPaddle, axis: number, dt: number, maxX = MAX_PADDLE_X): KeyPaddle {
+  const want = axis * KEY_PADDLE_SPEED;
+  const rate = (want === 0 || Math.sign(want) !== Math.sign(p.v)) ? BRAKE : ACCEL;
+  const dv = want - p.v;
+  let v = p.v + Math.sign(dv) * Math.min(Math.abs(dv), rate * dt);
+  let x = p.x + v * dt;
+  if (Math.abs(x) > maxX) { x = Math.sign(x) * maxX; v = 0; }
+  return { x, v };
+}
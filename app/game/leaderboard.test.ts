@@ -0,0 +1,120 @@
+// ─── Leaderboard tests ───────────────────────────────────────
+// A submitted match is played again before it counts: a real win goes
+// through, and an edited log, a wrong score, a loss, other settings or the
+// same match twice don't. Run with `npm test`.
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { autoSeed, createBrain, think } from "./ai";
+import type { Difficulty } from "./constants";
+import { validateSubmission, verifyMatch, type Submission } from "./leaderboard";
+import { CLASSIC_RULES, newMatch, scorePoint } from "./match";
+import { createRecorder, quantise, recordPoint, recordServe, recordTick } from "./replay";
+import { DEFAULT_TUNING, tunedParams } from "./settings";
+import { createSim, serve, step, type SimState } from "./simulation";
+
+/**
+ * Plays a CLASSIC match against Auto the way the game records it and
+ * returns it as a submission. `player` drives the near paddle.
+ */
+function recordMatch(seed: number, player: (s: SimState) => number, difficulty: Difficulty = "easy"): Submission {
+  const params = tunedParams(difficulty);
+  const r = createRecorder(seed, difficulty, CLASSIC_RULES);
+  let brain = createBrain("ai", autoSeed(seed));
+  let score = newMatch();
+  let s = createSim(seed);
+  while (!score.winner) {
+    const towardPlayer = score.server === "ai";
+    s = serve(s, towardPlayer, DEFAULT_TUNING.serveSpeed);
+    recordServe(r, s, towardPlayer);
+    for (let i = 0; i < 120 * 60 && !s.scorer; i++) {
+      let x: number;
+      [x, brain] = think(brain, s, params, "aggressive");
+      const input = { playerX: quantise(player(s)), aiX: quantise(x) };
+      s = step(s, input, params).state;
+      recordTick(r, input, s);
+    }
+    assert.ok(s.scorer, "a rally ran for a minute");
+    recordPoint(r, s.scorer);
+    score = scorePoint(score, s.scorer, CLASSIC_RULES);
+  }
+  return {
+    name: "TESTER", difficulty, style: "aggressive",
+    score: { games: score.games, points: score.points },
+    replay: JSON.parse(JSON.stringify(r.file)),
+  };
+}
+
+/** The near paddle sits on the ball's line, which beats EASY. */
+const recordWin  = (seed: number) => recordMatch(seed, s => s.pos.x);
+const recordLoss = (seed: number) => recordMatch(seed, () => 0);
+
+describe("verifyMatch", () => {
+  const win = recordWin(11);
+
+  it("takes a recorded win", () => {
+    assert.equal(validateSubmission(win), null);
+    const score = verifyMatch(win);
+    assert.ok(typeof score !== "string", score as string);
+    assert.equal(score.winner, "player");
+    assert.deepEqual(score.points, win.score.points);
+  });
+
+  it("turns away a log where Auto's moves were edited", () => {
+    const [first, ...rest] = win.replay.points;
+    const ai = first.ai.map((d, i) => i === 5 ? d + 40 : d);
+    assert.equal(verifyMatch({ ...win, replay: { ...win.replay, points: [{ ...first, ai }, ...rest] } }), "Auto's moves don't match on point 1");
+  });
+
+  it("turns away a claimed score the replay doesn't reach", () => {
+    const points = { ...win.score.points, ai: win.score.points.ai + 1 };
+    assert.equal(verifyMatch({ ...win, score: { ...win.score, points } }), "Score doesn't match the replay");
+  });
+
+  it("turns away a loss", () => {
+    const loss = recordLoss(11);
+    assert.ok(loss.score.points.ai > loss.score.points.player);
+    assert.equal(verifyMatch(loss), "Only wins go on the board");
+  });
+
+  it("turns away a match at other gameplay settings", () => {
+    const tuning = { ...DEFAULT_TUNING, paddleW: DEFAULT_TUNING.paddleW * 1.5 };
+    assert.equal(verifyMatch({ ...win, replay: { ...win.replay, tuning } }), "Only matches at the default gameplay settings count");
+  });
+});
+
+describe("validateSubmission", () => {
+  const win = recordWin(11);
+
+  it("turns away a seed that isn't a 32-bit integer", () => {
+    for (const seed of [win.replay.seed + 2 ** 32, win.replay.seed + 0.1, -1]) {
+      assert.equal(validateSubmission({ ...win, replay: { ...win.replay, seed } }), "Replay seed is malformed");
+    }
+  });
+});
+
+describe("addScore", () => {
+  // The store reads LEADERBOARD_FILE when it loads, so it is pointed at a scratch file first
+  const dir = mkdtempSync(join(tmpdir(), "mpp-scores-"));
+  let addScore: typeof import("../../server/scores").addScore;
+  before(async () => {
+    process.env.LEADERBOARD_FILE = join(dir, "leaderboard.json");
+    ({ addScore } = await import("../../server/scores"));
+  });
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("stores a win once and turns the same match away after", async () => {
+    const win = recordWin(11);
+    const first = await addScore(win);
+    assert.ok(first.ok);
+    assert.equal(first.entry.seed, win.replay.seed);
+    assert.equal(first.rank, 1);
+    assert.deepEqual(await addScore({ ...win, name: "AGAIN" }), { ok: false, status: 409, error: "This match is already on the board" });
+  });
+
+  it("turns away a loss", async () => {
+    assert.deepEqual(await addScore(recordLoss(12)), { ok: false, status: 422, error: "Only wins go on the board" });
+  });
+});
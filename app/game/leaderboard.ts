@@ -0,0 +1,194 @@
+// ─── Leaderboard ─────────────────────────────────────────────
+// Solo wins against Auto, checked before they count. A submission carries
+// the match's replay file — the seed and every paddle input — and the server
+// plays it again: Auto is re-run from the seed rather than taken from the
+// file, so the only thing a client supplies is the player's own paddle. The
+// result has to come out as claimed. Only matches at the default gameplay
+// settings and standard rules are taken, so every entry at a difficulty was
+// played against the same table. Shared by the route handlers (verify,
+// rank, filter) and the game (submit, fetch).
+import { DIFF, type Difficulty } from "./constants";
+import { AI_STYLES, autoSeed, createBrain, think, type AiStyle } from "./ai";
+import { newMatch, rulesFor, scorePoint, type MatchScore, type RulesetId, type Score } from "./match";
+import { quantise, validateReplay, type ReplayFile } from "./replay";
+import { DEFAULT_TUNING, isDefaultTuning, tunedParams } from "./settings";
+import { createSim, serve, step } from "./simulation";
+
+export const BOARD_SIZE       = 20; // entries a leaderboard request returns at most
+export const SUBMIT_MAX_BYTES = 4_000_000;
+const NAME_MAX        = 12;
+const MAX_POINTS      = 200;        // ITTF best of 7 at deuce every game stays well under
+const MAX_POINT_TICKS = 120 * 300;  // five minutes of rally
+
+export interface Submission {
+  name: string;
+  difficulty: Difficulty;
+  style: AiStyle;
+  score: { games: Score; points: Score }; // as the match ended
+  replay: ReplayFile;
+}
+
+export interface Entry {
+  id: string;
+  name: string;
+  difficulty: Difficulty;
+  style: AiStyle;
+  ruleset: RulesetId;
+  bestOf: number;
+  games: Score;
+  pointsFor: number;     // over the whole match
+  pointsAgainst: number;
+  at: string;            // when the server took it
+  seed: number;          // a match can only be entered once
+}
+
+export type TimeWindow = "day" | "week" | "month" | "all";
+
+export const WINDOW_LABEL: Record<TimeWindow, string> = { day: "TODAY", week: "THIS WEEK", month: "THIS MONTH", all: "ALL TIME" };
+
+const WINDOW_MS: Record<TimeWindow, number> = { day: 864e5, week: 7 * 864e5, month: 30 * 864e5, all: Infinity };
+
+export interface BoardQuery {
+  difficulty: Difficulty | null; // null: every difficulty
+  window: TimeWindow;
+}
+
+// ─── Checking a submission ───────────────────────────────────
+/** Checks the shape of a parsed request body. Returns an error message, or null. */
+export function validateSubmission(raw: unknown): string | null {
+  const s = raw as Partial<Submission> | null;
+  if (!s || typeof s !== "object") return "Not a score submission";
+  if (typeof s.name !== "string" || !cleanName(s.name)) return "A name is needed";
+  if (typeof s.difficulty !== "string" || !Object.hasOwn(DIFF, s.difficulty)) return "Unknown difficulty";
+  if (typeof s.style !== "string" || !Object.hasOwn(AI_STYLES, s.style)) return "Unknown AI style";
+  const sc = s.score;
+  if (!sc || !isScore(sc.games) || !isScore(sc.points)) return "Score is malformed";
+  const err = validateReplay(s.replay);
+  if (err) return err;
+  // The sim and Auto only see the seed as a 32-bit integer, so any other
+  // spelling of it would put the same match on the board again
+  const seed = (s.replay as ReplayFile).seed;
+  return seed === seed >>> 0 ? null : "Replay seed is malformed";
+}
+
+const isScore = (v: unknown): v is Score => {
+  const s = v as Score | null;
+  return !!s && Number.isInteger(s.player) && Number.isInteger(s.ai);
+};
+
+/** Trimmed, single-spaced and cut to NAME_MAX; empty when nothing printable is left. */
+export function cleanName(name: string): string {
+  return name.replace(/[^\x20-\x7e]/g, "").replace(/\s+/g, " ").trim().slice(0, NAME_MAX);
+}
+
+/**
+ * Plays a submitted match again with Auto driving the far paddle. Returns
+ * the final score, or why the match can't go on the board.
+ */
+export function verifyMatch(sub: Submission): MatchScore | string {
+  const f = sub.replay;
+  if (f.difficulty !== sub.difficulty) return "Difficulty doesn't match the replay";
+  if (!isDefaultTuning(f.tuning)) return "Only matches at the default gameplay settings count";
+  if (f.rules.ruleset !== "classic" && f.rules.ruleset !== "ittf") return "Only CLASSIC and ITTF matches count";
+  const rules = rulesFor(f.rules.ruleset, f.rules.bestOf);
+  if (f.rules.points !== rules.points) return "Only matches to the standard points count";
+  if (f.points.some(p => p.skill !== undefined)) return "Adaptive matches don't count";
+  if (f.points.length > MAX_POINTS || f.points.some(p => p.player.length > MAX_POINT_TICKS)) return "Replay is too long";
+
+  const params = tunedParams(f.difficulty);
+  let brain = createBrain("ai", autoSeed(f.seed));
+  let score = newMatch();
+  let s = createSim(f.seed);
+
+  for (const [n, p] of f.points.entries()) {
+    if (score.winner) return "Replay goes on after the match was won";
+    if (p.towardPlayer !== (score.server === "ai")) return `Wrong server on point ${n + 1}`;
+    s = serve(s, p.towardPlayer, DEFAULT_TUNING.serveSpeed);
+    let player = 0, ai = 0, i = 0;
+    for (; i < p.player.length && !s.scorer; i++) {
+      player += p.player[i];
+      ai     += p.ai[i];
+      let x: number;
+      [x, brain] = think(brain, s, params, sub.style);
+      // Auto's side of the log has to be what Auto would have done
+      if (Math.round(quantise(x) * 1000) !== ai) return `Auto's moves don't match on point ${n + 1}`;
+      s = step(s, { playerX: player / 1000, aiX: ai / 1000 }, params).state;
+    }
+    if (!s.scorer || i !== p.player.length || s.scorer !== p.scorer) return `Replay desynced on point ${n + 1}`;
+    score = scorePoint(score, s.scorer, rules);
+  }
+  if (score.winner !== "player") return "Only wins go on the board";
+  const { games, points } = sub.score;
+  if (games.player !== score.games.player || games.ai !== score.games.ai || points.player !== score.points.player || points.ai !== score.points.ai) {
+    return "Score doesn't match the replay";
+  }
+  return score;
+}
+
+export function entryOf(sub: Submission, score: MatchScore, id: string, at: string): Entry {
+  const total = (side: "player" | "ai") => score.history.reduce((t, g) => t + g[side], 0);
+  return {
+    id, at,
+    name:       cleanName(sub.name),
+    difficulty: sub.difficulty,
+    style:      sub.style,
+    ruleset:    sub.replay.rules.ruleset,
+    bestOf:     sub.replay.rules.ruleset === "ittf" ? sub.replay.rules.bestOf : 1,
+    games:      score.games,
+    pointsFor:     total("player"),
+    pointsAgainst: total("ai"),
+    seed:       sub.replay.seed,
+  };
+}
+
+// ─── Ranking ─────────────────────────────────────────────────
+// Harder difficulties first, then the widest margin, then fewest points
+// conceded; at a tie the earlier entry keeps its place
+const LEVELS = Object.keys(DIFF) as Difficulty[];
+
+export function compareEntries(a: Entry, b: Entry): number {
+  return LEVELS.indexOf(b.difficulty) - LEVELS.indexOf(a.difficulty)
+    || (b.pointsFor - b.pointsAgainst) - (a.pointsFor - a.pointsAgainst)
+    || a.pointsAgainst - b.pointsAgainst
+    || a.at.localeCompare(b.at);
+}
+
+export function topEntries(entries: readonly Entry[], q: BoardQuery, now: number, limit = BOARD_SIZE): Entry[] {
+  const since = now - WINDOW_MS[q.window];
+  return entries
+    .filter(e => (!q.difficulty || e.difficulty === q.difficulty) && Date.parse(e.at) >= since)
+    .sort(compareEntries)
+    .slice(0, limit);
+}
+
+/** Reads `?difficulty=&window=` leniently: anything unknown means no filter. */
+export function parseQuery(params: URLSearchParams): BoardQuery {
+  const d = params.get("difficulty"), w = params.get("window");
+  return {
+    difficulty: d && Object.hasOwn(DIFF, d) ? d as Difficulty : null,
+    window:     w && Object.hasOwn(WINDOW_MS, w) ? w as TimeWindow : "all",
+  };
+}
+
+// ─── Client ──────────────────────────────────────────────────
+/** Sends a won match. Resolves to the entry and its rank on the all-time board at its difficulty, or an error message. */
+export async function submitScore(sub: Submission): Promise<{ entry: Entry; rank: number } | string> {
+  try {
+    const res  = await fetch("/api/scores", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(sub) });
+    const body = await res.json() as { entry: Entry; rank: number } | { error: string };
+    return "error" in body ? body.error : body;
+  } catch {
+    return "Couldn't reach the leaderboard";
+  }
+}
+
+export async function fetchBoard(q: BoardQuery): Promise<Entry[] | string> {
+  const params = new URLSearchParams({ window: q.window, ...(q.difficulty && { difficulty: q.difficulty }) });
+  try {
+    const res = await fetch(`/api/leaderboard?${params}`);
+    if (!res.ok) return "Couldn't load the leaderboard";
+    return (await res.json() as { entries: Entry[] }).entries;
+  } catch {
+    return "Couldn't reach the leaderboard";
+  }
+}
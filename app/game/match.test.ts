@@ -0,0 +1,113 @@
+// ─── Match scoring tests ─────────────────────────────────────
+// ITTF serve rotation and deuce, games won by 2, best-of match length, and
+// the headless runner's lets. Run with `npm test`.
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { newMatch, rulesFor, runMatch, scorePoint, type MatchScore, type Rules } from "./match";
+import { tunedParams } from "./settings";
+import type { SimState, Side } from "./simulation";
+
+const ITTF = rulesFor("ittf", 3);
+
+/** Scores `sides` in order from a fresh match. */
+function play(sides: readonly Side[], rules: Rules = ITTF, m: MatchScore = newMatch()): MatchScore {
+  return sides.reduce((s, side) => scorePoint(s, side, rules), m);
+}
+
+/** `n` points that alternate, player first. */
+const level = (n: number): Side[] => Array.from({ length: n }, (_, i) => i % 2 === 0 ? "player" : "ai");
+
+describe("ITTF serve", () => {
+  it("changes every 2 points whoever wins them", () => {
+    const servers: Side[] = [];
+    let m = newMatch();
+    for (let i = 0; i < 8; i++) {
+      servers.push(m.server);
+      m = scorePoint(m, "player", ITTF);
+    }
+    assert.deepEqual(servers, ["ai", "ai", "player", "player", "ai", "ai", "player", "player"]);
+  });
+
+  it("changes every point from 10–10", () => {
+    let m = play(level(20));
+    assert.deepEqual(m.points, { player: 10, ai: 10 });
+    const servers: Side[] = [];
+    for (const side of level(6)) {
+      servers.push(m.server);
+      m = scorePoint(m, side, ITTF);
+    }
+    assert.deepEqual(servers, ["ai", "player", "ai", "player", "ai", "player"]);
+  });
+
+  it("goes to the first game's receiver at the start of the next", () => {
+    const m = play(Array(11).fill("player"));
+    assert.equal(m.firstServer, "player");
+    assert.equal(m.server, "player");
+  });
+});
+
+describe("ITTF games", () => {
+  it("aren't won at 11–10", () => {
+    const m = play([...level(20), "player"]);
+    assert.deepEqual(m.games, { player: 0, ai: 0 });
+    assert.deepEqual(m.points, { player: 11, ai: 10 });
+  });
+
+  it("are won 2 clear", () => {
+    const m = play([...level(24), "ai", "ai"]);
+    assert.deepEqual(m.games, { player: 0, ai: 1 });
+    assert.deepEqual(m.history, [{ player: 12, ai: 14 }]);
+    assert.deepEqual(m.points, { player: 0, ai: 0 });
+  });
+
+  it("are won at 11 with a lead of 2 or more", () => {
+    const m = play([...Array(9).fill("ai"), ...Array(11).fill("player")]);
+    assert.deepEqual(m.history, [{ player: 11, ai: 9 }]);
+  });
+});
+
+describe("best of", () => {
+  const game = (side: Side): Side[] => Array(11).fill(side);
+
+  for (const bestOf of [1, 3, 5, 7] as const) {
+    it(`ends a best of ${bestOf} at ${Math.ceil(bestOf / 2)} games`, () => {
+      const rules = rulesFor("ittf", bestOf);
+      let m = newMatch();
+      for (let g = 1; g < Math.ceil(bestOf / 2); g++) m = play(game("player"), rules, m);
+      assert.equal(m.winner, null);
+      m = play(game("player"), rules, m);
+      assert.equal(m.winner, "player");
+      assert.equal(m.games.player, Math.ceil(bestOf / 2));
+      // The last game's points stay up, and nothing more is scored
+      assert.deepEqual(m.points, { player: 11, ai: 0 });
+      assert.equal(scorePoint(m, "ai", rules), m);
+    });
+  }
+
+  it("counts games for both sides", () => {
+    const rules = rulesFor("ittf", 5);
+    const m = play([...game("ai"), ...game("player"), ...game("ai"), ...game("player"), ...game("player")], rules);
+    assert.deepEqual(m.games, { player: 3, ai: 2 });
+    assert.equal(m.winner, "player");
+    assert.equal(m.history.length, 5);
+  });
+});
+
+describe("runMatch", () => {
+  // The near paddle follows the ball, the far one stands still
+  const opts = { seed: 7, params: tunedParams("medium"), player: (s: SimState) => s.pos.x, ai: () => 0 };
+
+  it("replays a rally that runs too long as a let", () => {
+    const r = runMatch({ ...opts, rules: ITTF, maxTicksPerPoint: 1, maxPoints: 5 });
+    assert.deepEqual(r.rallies, []);
+    assert.deepEqual(r.score, newMatch());
+    assert.equal(r.winner, null);
+  });
+
+  it("gives the same result for the same options", () => {
+    const a = runMatch({ ...opts, rules: ITTF });
+    const b = runMatch({ ...opts, rules: ITTF });
+    assert.deepEqual(a, b);
+    assert.equal(a.winner, "player");
+  });
+});
@@ -0,0 +1,145 @@
+// ─── Match scoring & headless runner ─────────────────────────
+import { WIN_SCORE } from "./constants";
+import { createSim, serve, step, other, type SimParams, type SimState, type Side } from "./simulation";
+
+export interface Score { player: number; ai: number }
+
+// ─── Rulesets ────────────────────────────────────────────────
+// "classic" is the original arcade match: one game, first to WIN_SCORE, the
+// point winner serves next. "ittf" follows the table-tennis rules: games to
+// 11 won by 2, serve changes every 2 points (every point from 10–10), and
+// the match is best-of-N games. "arcade" scores like classic over 11 points
+// with power-ups on the table (see arcade.ts); it is local play only.
+export type RulesetId = "classic" | "ittf" | "arcade";
+export type BestOf = 1 | 3 | 5 | 7;
+
+export interface Rules {
+  ruleset: RulesetId;
+  points: number;     // to win a game
+  winBy: number;
+  bestOf: BestOf;
+  serveEvery: number; // points per service turn; 0 = the point winner serves
+}
+
+export const RULESETS: Record<RulesetId, { label: string; sub: string; online: boolean }> = {
+  classic: { label: "CLASSIC", sub: `Arcade · First to ${WIN_SCORE}`,          online: true },
+  ittf:    { label: "ITTF",    sub: "Games to 11 · Win by 2 · Serve every 2", online: true },
+  arcade:  { label: "ARCADE",  sub: "Power-ups · Multiball · First to 11",    online: false },
+};
+
+/** `classicPoints` sets the CLASSIC match length; ITTF games are always to 11. */
+export function rulesFor(ruleset: RulesetId, bestOf: BestOf = 1, classicPoints = WIN_SCORE): Rules {
+  if (ruleset === "ittf")   return { ruleset, points: 11, winBy: 2, bestOf, serveEvery: 2 };
+  if (ruleset === "arcade") return { ruleset, points: 11, winBy: 1, bestOf: 1, serveEvery: 0 };
+  return { ruleset, points: Math.max(1, Math.round(classicPoints)), winBy: 1, bestOf: 1, serveEvery: 0 };
+}
+
+export const CLASSIC_RULES = rulesFor("classic");
+
+export interface MatchScore {
+  points: Score;        // in the game being played
+  games: Score;         // games won
+  history: Score[];     // final points of each finished game
+  server: Side;         // serves the next point
+  firstServer: Side;    // served the first point of the current game
+  winner: Side | null;
+}
+
+/** The serve launches from the server toward the receiver, so `serve(sim, m.server === "ai")`. */
+export function newMatch(firstServer: Side = "ai"): MatchScore {
+  return {
+    points: { player: 0, ai: 0 },
+    games: { player: 0, ai: 0 },
+    history: [],
+    server: firstServer,
+    firstServer,
+    winner: null,
+  };
+}
+
+export function gameWinner(points: Score, rules: Rules): Side | null {
+  const { player, ai } = points;
+  if (player >= rules.points && player - ai >= rules.winBy) return "player";
+  if (ai     >= rules.points && ai - player >= rules.winBy) return "ai";
+  return null;
+}
+
+export function isDeuce(points: Score, rules: Rules): boolean {
+  return rules.winBy > 1 && points.player >= rules.points - 1 && points.ai >= rules.points - 1;
+}
+
+function serverFor(points: Score, first: Side, rules: Rules): Side {
+  const played = points.player + points.ai;
+  const deuceAt = 2 * (rules.points - 1);
+  // Service turns so far: one per `serveEvery` points, then one per point at deuce
+  const turns = isDeuce(points, rules)
+    ? Math.floor(deuceAt / rules.serveEvery) + (played - deuceAt)
+    : Math.floor(played / rules.serveEvery);
+  return turns % 2 === 0 ? first : other(first);
+}
+
+/** Scores one point and advances game, match and serve. A finished match is returned unchanged. */
+export function scorePoint(m: MatchScore, scorer: Side, rules: Rules): MatchScore {
+  if (m.winner) return m;
+  const points = { ...m.points, [scorer]: m.points[scorer] + 1 };
+  const game = gameWinner(points, rules);
+
+  if (!game) {
+    const server = rules.serveEvery ? serverFor(points, m.firstServer, rules) : scorer;
+    return { ...m, points, server };
+  }
+
+  const games = { ...m.games, [game]: m.games[game] + 1 };
+  const winner = games[game] > rules.bestOf / 2 ? game : null;
+  // Whoever received first in the last game serves first in the next
+  const firstServer = rules.serveEvery ? other(m.firstServer) : scorer;
+  return {
+    points: winner ? points : { player: 0, ai: 0 },
+    games,
+    history: [...m.history, points],
+    server: firstServer,
+    firstServer,
+    winner,
+  };
+}
+
+/** Picks a paddle target x from the current sim state. */
+export type PaddleController = (s: SimState) => number;
+
+export interface HeadlessMatchOptions {
+  seed: number;
+  params: SimParams;
+  player: PaddleController;
+  ai: PaddleController;
+  rules?: Rules;
+  maxTicksPerPoint?: number; // endless rallies are replayed as a let
+  maxPoints?: number;        // hard stop, counting lets
+}
+
+export interface HeadlessMatchResult {
+  score: MatchScore;
+  winner: Side | null;
+  rallies: number[]; // ticks per completed point
+  hits: number[];    // paddle hits per completed point
+}
+
+/** Plays a whole match without rendering. Same options → same result. */
+export function runMatch(opts: HeadlessMatchOptions): HeadlessMatchResult {
+  const { params, player, ai, rules = CLASSIC_RULES, maxTicksPerPoint = 120 * 120, maxPoints = 500 } = opts;
+  let score = newMatch();
+  let s = serve(createSim(opts.seed), score.server === "ai", params.serveSpeed);
+  const rallies: number[] = [], hits: number[] = [];
+
+  for (let n = 0; n < maxPoints && !score.winner; n++) {
+    const start = s.tick;
+    while (!s.scorer && s.tick - start < maxTicksPerPoint) {
+      s = step(s, { playerX: player(s), aiX: ai(s) }, params).state;
+    }
+    if (!s.scorer) { s = serve(s, score.server === "ai", params.serveSpeed); continue; }
+    rallies.push(s.tick - start);
+    hits.push(s.hits);
+    score = scorePoint(score, s.scorer, rules);
+    s = serve(s, score.server === "ai", params.serveSpeed);
+  }
+  return { score, winner: score.winner, rallies, hits };
+}
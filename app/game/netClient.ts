@@ -0,0 +1,204 @@
+// ─── Online match client ─────────────────────────────────────
+// Browser side of the protocol. Keeps one socket to the match server,
+// reconnects to the same seat after a drop, measures round-trip time, and
+// turns 30 Hz server snapshots into a smooth 60 fps view:
+//  - prediction: the sim is deterministic, so the latest snapshot is re-run
+//    forward to "now + one round trip" — where the ball will be when our
+//    next paddle input reaches the server — using our live paddle x;
+//  - interpolation: the gap between successive predictions (a correction)
+//    is bled off over a few frames instead of snapping, and the opponent's
+//    paddle eases toward its reported x.
+import { DIFF, type Difficulty } from "./constants";
+import type { BestOf, RulesetId } from "./match";
+import { step, other, SIM_DT, type Side, type SimEvent, type SimState, type Vec3 } from "./simulation";
+import {
+  MATCH_SERVER_PORT, parseMsg, normaliseRoomCode,
+  type ClientMsg, type RoomInfo, type ServerMsg,
+} from "./protocol";
+
+export type NetStatus = "connecting" | "open" | "reconnecting" | "closed";
+
+export interface NetHandlers {
+  onStatus(status: NetStatus): void;
+  onSeat(side: Side, code: string): void;
+  onRoom(room: RoomInfo): void;
+  /** Sim events from the latest snapshot, with the ball x they happened near and our side. */
+  onEvents(events: SimEvent[], ballX: number, side: Side): void;
+  onError(message: string): void;
+}
+
+export interface NetClient {
+  create(name: string, difficulty: Difficulty, ruleset: RulesetId, bestOf: BestOf): void;
+  join(code: string, name: string): void;
+  rematch(): void;
+  /** Leaves the room for good and closes the socket. */
+  close(): void;
+  sendInput(x: number): void;
+  /** State to render this frame, or null before the first snapshot. */
+  view(localX: number, now: number): SimState | null;
+  rtt(): number | null;
+}
+
+const SEAT_KEY     = "mpp-online-seat";
+const PING_MS      = 2000;
+const MAX_AHEAD    = 30;   // ticks of prediction, caps the cost of a bad RTT
+const CORRECTION   = 0.8;  // share of a correction still shown after each frame
+const RETRY_MS     = [500, 1000, 2000, 4000];
+
+export function matchServerUrl(): string {
+  const configured = process.env.NEXT_PUBLIC_MATCH_SERVER_URL;
+  if (configured) return configured;
+  const proto = location.protocol === "https:" ? "wss" : "ws";
+  return `${proto}://${location.hostname}:${MATCH_SERVER_PORT}`;
+}
+
+export function createNetClient(url: string, h: NetHandlers): NetClient {
+  let ws: WebSocket | null = null;
+  let closed  = false;
+  let retries = 0;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+  let rtt: number | null = null;
+  let side: Side | null = null;
+  let room: RoomInfo | null = null;
+  let snap: { state: SimState; at: number } | null = null;
+  let fresh = false;        // a snapshot arrived since the last view()
+  let shown: Vec3 | null = null;
+  let err: Vec3 = { x: 0, y: 0, z: 0 };
+  let oppX = 0;
+  let pending: ClientMsg | null = null; // create/join asked for before the socket opened
+  let resuming = false;
+  let lastInput = NaN;
+
+  const send = (msg: ClientMsg) => {
+    if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+  };
+
+  const savedSeat = (): { code: string; token: string } | null => {
+    try { return JSON.parse(sessionStorage.getItem(SEAT_KEY) ?? "null"); } catch { return null; }
+  };
+
+  function connect() {
+    h.onStatus(retries ? "reconnecting" : "connecting");
+    const sock = new WebSocket(url);
+    ws = sock;
+    sock.onopen = () => {
+      retries = 0;
+      lastInput = NaN;
+      h.onStatus("open");
+      // Try to get our old seat back first; a queued create/join waits until
+      // the server says whether that worked
+      const seat = savedSeat();
+      resuming = !!seat;
+      if (seat) send({ t: "resume", ...seat });
+      else if (pending) { send(pending); pending = null; }
+      pingTimer = setInterval(() => send({ t: "ping", at: performance.now() }), PING_MS);
+      send({ t: "ping", at: performance.now() });
+    };
+    sock.onmessage = e => {
+      const msg = parseMsg<ServerMsg>(e.data);
+      if (msg) receive(msg);
+    };
+    sock.onclose = () => {
+      if (pingTimer) clearInterval(pingTimer);
+      pingTimer = null;
+      if (ws !== sock || closed) return;
+      h.onStatus("reconnecting");
+      setTimeout(connect, RETRY_MS[Math.min(retries++, RETRY_MS.length - 1)]);
+    };
+  }
+
+  function receive(msg: ServerMsg) {
+    switch (msg.t) {
+      case "pong":
+        rtt = performance.now() - msg.at;
+        break;
+      case "seat":
+        resuming = false;
+        pending = null;
+        side = msg.side;
+        sessionStorage.setItem(SEAT_KEY, JSON.stringify({ code: msg.code, token: msg.token }));
+        h.onSeat(msg.side, msg.code);
+        break;
+      case "room":
+        room = msg.room;
+        h.onRoom(msg.room);
+        break;
+      case "snap":
+        snap = { state: msg.state, at: performance.now() };
+        fresh = true;
+        if (msg.events.length && side) h.onEvents(msg.events, msg.state.pos.x, side);
+        break;
+      case "left":
+        sessionStorage.removeItem(SEAT_KEY);
+        break;
+      case "error":
+        if (resuming) {
+          // A stale seat from an earlier visit: forget it and carry on
+          resuming = false;
+          sessionStorage.removeItem(SEAT_KEY);
+          if (pending) { send(pending); pending = null; }
+          break;
+        }
+        h.onError(msg.message);
+        break;
+    }
+  }
+
+  connect();
+
+  const request = (msg: ClientMsg) => {
+    if (ws?.readyState === WebSocket.OPEN) send(msg);
+    else pending = msg;
+  };
+
+  return {
+    create: (name, difficulty, ruleset, bestOf) => request({ t: "create", name, difficulty, ruleset, bestOf }),
+    join:   (code, name) => request({ t: "join", code: normaliseRoomCode(code), name }),
+    rematch: () => send({ t: "rematch" }),
+    close() {
+      closed = true;
+      h.onStatus("closed");
+      send({ t: "leave" });
+      sessionStorage.removeItem(SEAT_KEY);
+      if (pingTimer) clearInterval(pingTimer);
+      ws?.close();
+    },
+    sendInput(x) {
+      if (x === lastInput) return;
+      lastInput = x;
+      send({ t: "input", x });
+    },
+    rtt: () => rtt,
+
+    view(localX, now) {
+      if (!snap || !side || !room) return null;
+      let s = snap.state;
+      if (room.phase === "playing") {
+        const ahead = Math.min(MAX_AHEAD, Math.round(((now - snap.at) + (rtt ?? 0)) / 1000 / SIM_DT));
+        const params = DIFF[room.difficulty];
+        for (let i = 0; i < ahead && !s.scorer; i++) {
+          s = step(s, {
+            playerX: side === "player" ? localX : snap.state.playerX,
+            aiX:     side === "ai"     ? localX : snap.state.aiX,
+          }, params).state;
+        }
+      }
+
+      // Fold a fresh correction into the error offset, then bleed it off
+      if (fresh && shown) err = { x: shown.x - s.pos.x, y: shown.y - s.pos.y, z: shown.z - s.pos.z };
+      fresh = false;
+      err = { x: err.x * CORRECTION, y: err.y * CORRECTION, z: err.z * CORRECTION };
+      shown = { x: s.pos.x + err.x, y: s.pos.y + err.y, z: s.pos.z + err.z };
+
+      const opp = other(side);
+      const reported = opp === "player" ? snap.state.playerX : snap.state.aiX;
+      oppX += (reported - oppX) * 0.5;
+      return {
+        ...s,
+        pos: shown,
+        playerX: side === "player" ? s.playerX : oppX,
+        aiX:     side === "ai"     ? s.aiX     : oppX,
+      };
+    },
+  };
+}
@@ -0,0 +1,64 @@
+// ─── Frame budget ────────────────────────────────────────────
+// The game aims for 60 fps, so a frame has FRAME_BUDGET_MS to simulate and
+// draw. A monitor keeps the last couple of seconds of frame times; from them
+// the scene reports fps and the slow tail (p95), and nudges the render
+// resolution down when frames keep missing the budget and back up when there
+// is room again. Frame time is what players feel, so that is what we measure.
+
+export const FRAME_BUDGET_MS = 1000 / 60;
+
+export interface FrameStats {
+  fps: number;
+  avgMs: number;
+  p95Ms: number;
+  over: number; // share of frames that missed the budget, 0..1
+}
+
+export interface FrameMonitor {
+  /** Adds one frame, `delta` in seconds as useFrame passes it. */
+  add(delta: number): void;
+  stats(): FrameStats;
+  reset(): void;
+}
+
+// A vsynced frame that just made it still reads a little over 16.7 ms
+const SLACK = 1.2;
+
+export function createFrameMonitor(size = 120): FrameMonitor {
+  const times = new Float32Array(size);
+  let n = 0, head = 0;
+
+  return {
+    add(delta) {
+      times[head] = delta * 1000;
+      head = (head + 1) % size;
+      n = Math.min(n + 1, size);
+    },
+    stats() {
+      if (n === 0) return { fps: 0, avgMs: 0, p95Ms: 0, over: 0 };
+      const sorted = Array.from(times.subarray(0, n)).sort((a, b) => a - b);
+      const total = sorted.reduce((t, v) => t + v, 0);
+      return {
+        fps:   1000 * n / total,
+        avgMs: total / n,
+        p95Ms: sorted[Math.min(n - 1, Math.floor(n * 0.95))],
+        over:  sorted.filter(v => v > FRAME_BUDGET_MS * SLACK).length / n,
+      };
+    },
+    reset() { n = 0; head = 0; },
+  };
+}
+
+// ─── Resolution scaling ──────────────────────────────────────
+// Pixel fill is the cost that grows with the screen, so it is the one the
+// game trades away first. Scale multiplies the pixel ratio the player allows.
+export const SCALE_MIN  = 0.5;
+const SCALE_STEP = 0.125;
+const DROP_AT    = 0.2;  // share of late frames that costs resolution
+const RAISE_AT   = 0.02; // and that earns it back
+
+export function nextScale(scale: number, s: FrameStats): number {
+  if (s.over > DROP_AT)  return Math.max(SCALE_MIN, scale - SCALE_STEP);
+  if (s.over < RAISE_AT) return Math.min(1, scale + SCALE_STEP);
+  return scale;
+}
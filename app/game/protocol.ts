@@ -0,0 +1,58 @@
+// ─── Online match protocol ───────────────────────────────────
+// JSON messages between the browser and the match server (server/index.ts).
+// The server owns the rally; a client only ever says where it wants its
+// paddle. The host sits on the "player" side, the guest on the "ai" side.
+import type { Difficulty } from "./constants";
+import type { BestOf, MatchScore, Rules, RulesetId } from "./match";
+import type { Fault, Side, SimEvent, SimState } from "./simulation";
+
+export const MATCH_SERVER_PORT = 3445;
+/** How long a dropped player's seat is held before the match is forfeited. */
+export const RECONNECT_GRACE_MS = 30_000;
+export const ROOM_CODE_LENGTH = 4;
+
+export type RoomPhase = "waiting" | "between" | "playing" | "paused" | "won";
+
+export interface RoomInfo {
+  code: string;
+  difficulty: Difficulty;
+  rules: Rules;
+  phase: RoomPhase;
+  names: Record<Side, string | null>;
+  connected: Record<Side, boolean>;
+  score: MatchScore;
+  lastFault: Fault | null;
+  winner: Side | null;
+}
+
+export type ClientMsg =
+  | { t: "create"; name: string; difficulty: Difficulty; ruleset: RulesetId; bestOf: BestOf }
+  | { t: "join"; code: string; name: string }
+  | { t: "resume"; code: string; token: string }
+  | { t: "input"; x: number }
+  | { t: "rematch" }
+  | { t: "leave" }
+  | { t: "ping"; at: number };
+
+export type ServerMsg =
+  | { t: "seat"; code: string; side: Side; token: string }
+  | { t: "room"; room: RoomInfo }
+  | { t: "snap"; state: SimState; events: SimEvent[] }
+  | { t: "pong"; at: number }
+  | { t: "left" }
+  | { t: "error"; message: string };
+
+/** Parses a frame without trusting it; callers still check the fields they use. */
+export function parseMsg<T extends { t: string }>(raw: unknown): T | null {
+  if (typeof raw !== "string") return null;
+  try {
+    const msg = JSON.parse(raw);
+    return msg && typeof msg === "object" && typeof msg.t === "string" ? msg as T : null;
+  } catch {
+    return null;
+  }
+}
+
+export function normaliseRoomCode(code: string): string {
+  return code.trim().toUpperCase().replace(/[^A-Z]/g, "").slice(0, ROOM_CODE_LENGTH);
+}
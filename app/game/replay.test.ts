@@ -0,0 +1,79 @@
+// ─── Replay tests ────────────────────────────────────────────
+// A recorded match rebuilds frame for frame from its file, and a malformed
+// file is turned away by validateReplay before it reaches the sim. Run with
+// `npm test`.
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { newMatch, rulesFor, scorePoint, type MatchScore } from "./match";
+import {
+  buildTimeline, createRecorder, quantise, recordPoint, recordServe, recordTick, validateReplay,
+  type Frame, type ReplayFile,
+} from "./replay";
+import { DEFAULT_TUNING, tunedParams } from "./settings";
+import { createSim, serve, step } from "./simulation";
+
+/** Records a short match the way the game does: the near paddle follows the ball, the far one stands still. */
+function record(seed: number): { file: ReplayFile; frames: Frame[]; scores: MatchScore[] } {
+  const rules  = rulesFor("classic", 1, 3);
+  const params = tunedParams("medium");
+  const r = createRecorder(seed, "medium", rules);
+  const frames: Frame[] = [], scores: MatchScore[] = [];
+  let score = newMatch();
+  let s = createSim(seed);
+  while (!score.winner) {
+    const towardPlayer = score.server === "ai";
+    s = serve(s, towardPlayer, DEFAULT_TUNING.serveSpeed);
+    recordServe(r, s, towardPlayer);
+    for (let i = 0; i < 120 * 60 && !s.scorer; i++) {
+      const input = { playerX: quantise(s.pos.x), aiX: 0 };
+      s = step(s, input, params).state;
+      recordTick(r, input, s);
+    }
+    assert.ok(s.scorer, "a rally ran for a minute");
+    frames.push(...r.rally);
+    recordPoint(r, s.scorer);
+    score = scorePoint(score, s.scorer, rules);
+    scores.push(score);
+  }
+  return { file: r.file, frames, scores };
+}
+
+describe("replay round trip", () => {
+  it("rebuilds every frame and score of a recorded match from its file", () => {
+    const { file, frames, scores } = record(42);
+    const saved = JSON.parse(JSON.stringify(file)) as ReplayFile;
+    assert.equal(validateReplay(saved), null);
+    const t = buildTimeline(saved);
+    assert.deepEqual(t.frames, frames);
+    assert.deepEqual(t.points.map(p => p.score), scores);
+    assert.equal(t.points.at(-1)?.score.winner, "player");
+  });
+
+  it("throws when a point ends differently from the file", () => {
+    const { file } = record(42);
+    const edited = { ...file, points: [{ ...file.points[0], scorer: file.points[0].scorer === "ai" ? "player" : "ai" } as const, ...file.points.slice(1)] };
+    assert.throws(() => buildTimeline(edited), /Replay desynced on point 1/);
+  });
+});
+
+describe("validateReplay", () => {
+  const { file } = record(42);
+  const withPoint = (change: object) => ({ ...file, points: [{ ...file.points[0], ...change }] });
+
+  it("turns away inputs that aren't whole numbers", () => {
+    assert.equal(validateReplay(withPoint({ player: [0.5, ...file.points[0].player.slice(1)] })), "Replay points are malformed");
+    assert.equal(validateReplay(withPoint({ ai: [null, ...file.points[0].ai.slice(1)] })), "Replay points are malformed");
+  });
+
+  it("turns away a point without a serve direction", () => {
+    assert.equal(validateReplay(withPoint({ towardPlayer: undefined })), "Replay points are malformed");
+    assert.equal(validateReplay(withPoint({ towardPlayer: 1 })), "Replay points are malformed");
+  });
+
+  it("turns away a match length or game length that isn't one", () => {
+    assert.equal(validateReplay({ ...file, rules: { ...file.rules, bestOf: 4 } }), "Replay rules are malformed");
+    assert.equal(validateReplay({ ...file, rules: { ...file.rules, bestOf: undefined } }), "Replay rules are malformed");
+    assert.equal(validateReplay({ ...file, rules: { ...file.rules, points: Number.NaN } }), "Replay rules are malformed");
+    assert.equal(validateReplay({ ...file, rules: { ...file.rules, points: 0 } }), "Replay rules are malformed");
+  });
+});
@@ -0,0 +1,171 @@
+// ─── Replays ─────────────────────────────────────────────────
+// Two kinds of recording:
+//  - frames: ball position/velocity/spin and both paddle x for every tick of
+//    the current rally, kept in memory for the instant replay between points;
+//  - a replay file: the match seed plus every paddle input fed to step().
+//    The sim is deterministic, so re-running those inputs rebuilds the match
+//    exactly — no sampled positions are stored.
+// Inputs are quantised to 1/1000 of a unit before they reach the sim, which
+// costs nothing visible and lets the file hold small delta-coded integers.
+import { DIFF, type Difficulty } from "./constants";
+import { skillParams } from "./adaptive";
+import { DEFAULT_TUNING, tunedParams, type Tuning } from "./settings";
+import { newMatch, rulesFor, scorePoint, RULESETS, type MatchScore, type Rules } from "./match";
+import { createSim, serve, step, type SimInput, type SimState, type Side } from "./simulation";
+
+export const REPLAY_FORMAT  = "mpp-replay";
+export const REPLAY_VERSION = 1;
+const QUANT = 1000;
+
+/** What the renderer needs to draw one tick. */
+export type Frame = Pick<SimState, "pos" | "vel" | "spin" | "playerX" | "aiX" | "lastHitter" | "hits">;
+
+export interface ReplayPoint {
+  towardPlayer: boolean; // serve direction
+  scorer: Side;
+  player: number[];      // quantised input deltas, one per tick
+  ai: number[];
+  skill?: number;        // ADAPTIVE matches: the skill the point was played at
+}
+
+export interface ReplayFile {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  recordedAt: string;
+  difficulty: Difficulty;
+  rules: Rules;
+  tuning?: Tuning;  // absent in files from before gameplay settings: the defaults
+  names: Record<Side, string>;
+  seed: number;
+  points: ReplayPoint[];
+}
+
+export function quantise(x: number): number {
+  return Math.round(x * QUANT) / QUANT;
+}
+
+// ─── Recording ───────────────────────────────────────────────
+// Mutable on purpose: it grows by one entry per tick and lives in a ref.
+export interface Recorder {
+  file: ReplayFile;
+  rally: Frame[];            // ticks of the rally in progress (or just ended)
+  inputs: { towardPlayer: boolean; player: number[]; ai: number[]; last: SimInput; skill?: number } | null;
+}
+
+/** Names are filled in when the file is saved. */
+export function createRecorder(seed: number, difficulty: Difficulty, rules: Rules, tuning: Tuning = DEFAULT_TUNING): Recorder {
+  return {
+    file: {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      recordedAt: new Date().toISOString(),
+      difficulty, rules, tuning, seed,
+      names: { player: "P1", ai: "P2" },
+      points: [],
+    },
+    rally: [],
+    inputs: null,
+  };
+}
+
+export function frameOf(s: SimState): Frame {
+  return { pos: s.pos, vel: s.vel, spin: s.spin, playerX: s.playerX, aiX: s.aiX, lastHitter: s.lastHitter, hits: s.hits };
+}
+
+/** Call with the state serve() just returned, and the skill in play for an adaptive match. */
+export function recordServe(r: Recorder, served: SimState, towardPlayer: boolean, skill?: number) {
+  r.rally = [frameOf(served)];
+  r.inputs = { towardPlayer, player: [], ai: [], last: { playerX: 0, aiX: 0 }, skill };
+}
+
+/** Call once per step() with the (already quantised) input and the resulting state. */
+export function recordTick(r: Recorder, input: SimInput, s: SimState) {
+  const rec = r.inputs;
+  if (!rec) return;
+  rec.player.push(Math.round((input.playerX - rec.last.playerX) * QUANT));
+  rec.ai.push(Math.round((input.aiX - rec.last.aiX) * QUANT));
+  rec.last = input;
+  r.rally.push(frameOf(s));
+}
+
+export function recordPoint(r: Recorder, scorer: Side) {
+  const rec = r.inputs;
+  if (!rec) return;
+  r.file.points.push({
+    towardPlayer: rec.towardPlayer, scorer, player: rec.player, ai: rec.ai,
+    ...(rec.skill !== undefined && { skill: rec.skill }),
+  });
+  r.inputs = null;
+}
+
+// ─── Playback ────────────────────────────────────────────────
+export interface ReplayTimeline {
+  frames: Frame[];
+  /** One entry per point: its first frame and the match score once it was won. */
+  points: { start: number; score: MatchScore }[];
+}
+
+/** Checks a parsed file's shape. Returns an error message, or null when it is usable. */
+export function validateReplay(raw: unknown): string | null {
+  const f = raw as Partial<ReplayFile> | null;
+  if (!f || typeof f !== "object" || f.format !== REPLAY_FORMAT) return "Not a replay file";
+  if (f.version !== REPLAY_VERSION) return `Unsupported replay version ${f.version}`;
+  if (typeof f.difficulty !== "string" || !Object.hasOwn(DIFF, f.difficulty)) return "Unknown difficulty";
+  if (!f.rules || typeof f.rules.ruleset !== "string" || !Object.hasOwn(RULESETS, f.rules.ruleset)) return "Unknown ruleset";
+  if (f.rules.ruleset === "arcade") return "Arcade matches can't be replayed";
+  if (![1, 3, 5, 7].includes(f.rules.bestOf) || !Number.isInteger(f.rules.points) || f.rules.points < 1) return "Replay rules are malformed";
+  if (typeof f.seed !== "number" || !Array.isArray(f.points)) return "Replay is missing its seed or points";
+  if (f.tuning && !Object.values(f.tuning).every(v => typeof v === "number" && v > 0)) return "Replay tuning is malformed";
+  const ok = f.points.every(p =>
+    p && typeof p.towardPlayer === "boolean" &&
+    Array.isArray(p.player) && Array.isArray(p.ai) && p.player.length === p.ai.length &&
+    p.player.every(Number.isInteger) && p.ai.every(Number.isInteger) &&
+    (p.scorer === "player" || p.scorer === "ai") &&
+    (p.skill === undefined || (typeof p.skill === "number" && p.skill >= 0 && p.skill <= 1)));
+  return ok ? null : "Replay points are malformed";
+}
+
+/**
+ * Re-runs a replay file through the sim. Throws if a point ends differently
+ * from how it was recorded — the file was edited or the physics changed.
+ */
+export function buildTimeline(f: ReplayFile): ReplayTimeline {
+  const tuning = { ...DEFAULT_TUNING, ...f.tuning };
+  const params = tunedParams(f.difficulty, tuning);
+  const rules  = rulesFor(f.rules.ruleset, f.rules.bestOf, f.rules.points);
+  const frames: Frame[] = [];
+  const points: ReplayTimeline["points"] = [];
+  let score = newMatch();
+  let s = createSim(f.seed);
+
+  f.points.forEach((p, n) => {
+    const at = p.skill === undefined ? params : tunedParams(skillParams(p.skill), tuning);
+    s = serve(s, p.towardPlayer, tuning.serveSpeed);
+    points.push({ start: frames.length, score });
+    frames.push(frameOf(s));
+    let q = { player: 0, ai: 0 };
+    for (let i = 0; i < p.player.length && !s.scorer; i++) {
+      q = { player: q.player + p.player[i], ai: q.ai + p.ai[i] };
+      s = step(s, { playerX: q.player / QUANT, aiX: q.ai / QUANT }, at).state;
+      frames.push(frameOf(s));
+    }
+    if (s.scorer !== p.scorer) throw new Error(`Replay desynced on point ${n + 1}`);
+    score = scorePoint(score, p.scorer, rules);
+    points[n].score = score;
+  });
+  return { frames, points };
+}
+
+/** Parses and re-simulates a replay file's text. Returns an error message on failure. */
+export function loadReplay(text: string): { file: ReplayFile; timeline: ReplayTimeline } | string {
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch { return "Replay file is not valid JSON"; }
+  const err = validateReplay(raw);
+  if (err) return err;
+  const file = raw as ReplayFile;
+  try {
+    return { file, timeline: buildTimeline(file) };
+  } catch (e) {
+    return e instanceof Error ? e.message : "Replay could not be played";
+  }
+}
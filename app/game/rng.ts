@@ -0,0 +1,17 @@
+// ─── Seeded RNG ──────────────────────────────────────────────
+// mulberry32. The whole generator state is one uint32, so it can sit inside
+// plain simulation state and be copied, serialised and replayed.
+
+/** Returns a float in [0, 1) and the advanced generator state. */
+export function nextRandom(seed: number): [value: number, seed: number] {
+  const next = (seed + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+}
+
+/** A fresh seed for a new match. The only non-deterministic call in the sim. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
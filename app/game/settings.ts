@@ -0,0 +1,182 @@
+// ─── Settings ────────────────────────────────────────────────
+// Player preferences for gameplay and visuals, saved to localStorage. Every
+// field is described once in SETTINGS_SCHEMA, which both checks what comes
+// back out of storage and drives the sliders on the SETTINGS screen.
+// Controls and sound keep their own stores (input.ts, audio.ts).
+import {
+  BALL_LAUNCH_SPEED, DIFF, PADDLE_W, WIN_SCORE, type Difficulty, type DifficultyParams,
+} from "./constants";
+import type { SimParams } from "./simulation";
+import { ASSIST_PADDLE, ASSIST_SPEED, PALETTES, prefersReducedMotion, type PaletteId } from "./accessibility";
+import { VFX_QUALITY, type VfxQuality } from "./vfx";
+
+export interface Settings {
+  // Gameplay — local matches only; online rooms always play the defaults
+  classicPoints: number; // CLASSIC match length
+  serveSpeed: number;    // units/s
+  paddleWidth: number;
+  rallySpeed: number;    // × each difficulty's ball speeds
+  assist: boolean;       // larger paddle, slower ball
+  aimGuide: boolean;     // marks where an incoming ball will reach your paddle
+  // Visuals
+  tableColor: string;
+  playerColor: string;
+  aiColor: string;
+  playerHand: string;
+  aiHand: string;
+  shadows: boolean;
+  ballSegments: number;  // sphere detail; hand joints use a fraction of it
+  pixelRatio: number;    // upper bound, the display's own ratio still caps it
+  autoResolution: boolean; // lower the resolution when frames run over budget
+  showFps: boolean;
+  vfx: VfxQuality;       // effects quality; off leaves a plain ball and table
+  ballTrail: boolean;
+  hitSparks: boolean;    // sparks on hits and rail bounces
+  flashes: boolean;      // paddle on contact, goal line on a point
+  cameraShake: boolean;
+  scorePop: boolean;     // the score counter jumps when it changes
+  confetti: boolean;
+  // Accessibility
+  palette: PaletteId;
+  contrastBall: boolean;
+  reducedMotion: boolean; // camera cuts instead of sweeps, no instant replays
+}
+
+export type SettingsSection = "gameplay" | "visuals" | "access";
+
+type Field =
+  | { kind: "number"; label: string; min: number; max: number; step: number }
+  | { kind: "color"; label: string }
+  | { kind: "bool"; label: string }
+  | { kind: "choice"; label: string; options: Record<string, string> }; // value → label
+
+export const SETTINGS_SCHEMA: Record<keyof Settings, Field & { section: SettingsSection }> = {
+  classicPoints: { section: "gameplay", kind: "number", label: "CLASSIC POINTS", min: 3, max: 21, step: 1 },
+  serveSpeed:    { section: "gameplay", kind: "number", label: "SERVE SPEED",    min: 2, max: 6, step: 0.25 },
+  paddleWidth:   { section: "gameplay", kind: "number", label: "PADDLE SIZE",    min: 0.8, max: 1.8, step: 0.05 },
+  rallySpeed:    { section: "gameplay", kind: "number", label: "RALLY SPEED",    min: 0.7, max: 1.3, step: 0.05 },
+  assist:        { section: "gameplay", kind: "bool",   label: "ASSIST MODE" },
+  aimGuide:      { section: "gameplay", kind: "bool",   label: "AIM GUIDE (ASSIST)" },
+  tableColor:    { section: "visuals",  kind: "color",  label: "TABLE" },
+  playerColor:   { section: "visuals",  kind: "color",  label: "YOUR PADDLE" },
+  aiColor:       { section: "visuals",  kind: "color",  label: "OPPONENT PADDLE" },
+  playerHand:    { section: "visuals",  kind: "color",  label: "YOUR HAND" },
+  aiHand:        { section: "visuals",  kind: "color",  label: "OPPONENT HAND" },
+  shadows:       { section: "visuals",  kind: "bool",   label: "SHADOWS" },
+  ballSegments:  { section: "visuals",  kind: "number", label: "SPHERE DETAIL",  min: 8, max: 32, step: 2 },
+  pixelRatio:    { section: "visuals",  kind: "number", label: "PIXEL RATIO",    min: 0.5, max: 2, step: 0.25 },
+  autoResolution: { section: "visuals", kind: "bool",   label: "AUTO RESOLUTION" },
+  showFps:       { section: "visuals",  kind: "bool",   label: "SHOW FPS" },
+  vfx:           { section: "visuals",  kind: "choice", label: "EFFECTS",
+                   options: Object.fromEntries(Object.entries(VFX_QUALITY).map(([id, q]) => [id, q.label])) },
+  ballTrail:     { section: "visuals",  kind: "bool",   label: "BALL TRAIL" },
+  hitSparks:     { section: "visuals",  kind: "bool",   label: "HIT SPARKS" },
+  flashes:       { section: "visuals",  kind: "bool",   label: "FLASHES" },
+  cameraShake:   { section: "visuals",  kind: "bool",   label: "CAMERA SHAKE" },
+  scorePop:      { section: "visuals",  kind: "bool",   label: "SCORE ANIMATION" },
+  confetti:      { section: "visuals",  kind: "bool",   label: "CONFETTI" },
+  palette:       { section: "access",   kind: "choice", label: "COLOURS",
+                   options: Object.fromEntries(Object.entries(PALETTES).map(([id, p]) => [id, p.label])) },
+  contrastBall:  { section: "access",   kind: "bool",   label: "HIGH-CONTRAST BALL" },
+  reducedMotion: { section: "access",   kind: "bool",   label: "REDUCED MOTION" },
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  classicPoints: WIN_SCORE,
+  serveSpeed:    BALL_LAUNCH_SPEED,
+  paddleWidth:   PADDLE_W,
+  rallySpeed:    1,
+  assist:        false,
+  aimGuide:      true,
+  tableColor:    "#1a6b1a",
+  playerColor:   "#00c8e0",
+  aiColor:       "#cc3333",
+  playerHand:    "#00c8e0",
+  aiHand:        "#cc3333",
+  shadows:       true,
+  ballSegments:  20,
+  pixelRatio:    2,
+  autoResolution: true,
+  showFps:       false,
+  vfx:           "high",
+  ballTrail:     true,
+  hitSparks:     true,
+  flashes:       true,
+  cameraShake:   true,
+  scorePop:      true,
+  confetti:      true,
+  palette:       "standard",
+  contrastBall:  false,
+  reducedMotion: false,
+};
+
+const SETTINGS_KEY = "mpp-settings";
+const COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Takes anything (a parsed store, a hand edit) and returns valid settings:
+ * numbers are clamped and snapped to their step, and a field of the wrong
+ * type falls back to its default without taking the others with it.
+ */
+export function checkSettings(raw: unknown): Settings {
+  const src = raw && typeof raw === "object" ? raw as Record<string, unknown> : {};
+  const out: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+  for (const [key, f] of Object.entries(SETTINGS_SCHEMA)) {
+    const v = src[key];
+    if (f.kind === "number" && typeof v === "number" && Number.isFinite(v)) {
+      const snapped = f.min + Math.round((v - f.min) / f.step) * f.step;
+      out[key] = Math.max(f.min, Math.min(f.max, Number(snapped.toFixed(4))));
+    }
+    if (f.kind === "color" && typeof v === "string" && COLOR.test(v)) out[key] = v;
+    if (f.kind === "bool" && typeof v === "boolean") out[key] = v;
+    if (f.kind === "choice" && typeof v === "string" && Object.hasOwn(f.options, v)) out[key] = v;
+  }
+  return out as unknown as Settings;
+}
+
+// ─── Gameplay tuning ─────────────────────────────────────────
+// The part of the settings the sim sees. Replays store it, because the same
+// inputs only rebuild the same match with the same paddle and ball speeds.
+export interface Tuning {
+  paddleW: number;
+  serveSpeed: number;
+  rallySpeed: number;
+}
+
+export const DEFAULT_TUNING: Tuning = { paddleW: PADDLE_W, serveSpeed: BALL_LAUNCH_SPEED, rallySpeed: 1 };
+
+/** True when a match was played at the shipped gameplay settings, the only ones the leaderboard takes. */
+export function isDefaultTuning(t: Partial<Tuning> = {}): boolean {
+  return (Object.keys(DEFAULT_TUNING) as (keyof Tuning)[]).every(k => (t[k] ?? DEFAULT_TUNING[k]) === DEFAULT_TUNING[k]);
+}
+
+export function tuningOf(s: Settings): Tuning {
+  const k = s.assist ? ASSIST_SPEED : 1;
+  return { paddleW: s.paddleWidth * (s.assist ? ASSIST_PADDLE : 1), serveSpeed: s.serveSpeed * k, rallySpeed: s.rallySpeed * k };
+}
+
+/** A difficulty's parameters (or an adaptive blend of them) with the tuning applied, ready for step() and think(). */
+export function tunedParams(d: Difficulty | DifficultyParams, t: Tuning = DEFAULT_TUNING): DifficultyParams & SimParams {
+  const p = typeof d === "string" ? DIFF[d] : d;
+  return {
+    ...p,
+    speedInit:  p.speedInit * t.rallySpeed,
+    speedMax:   p.speedMax * t.rallySpeed,
+    paddleW:    t.paddleW,
+    serveSpeed: t.serveSpeed,
+  };
+}
+
+// ─── Storage ─────────────────────────────────────────────────
+export function loadSettings(): Settings {
+  try {
+    // Until the player says otherwise, follow the system's reduced-motion preference
+    return checkSettings({ reducedMotion: prefersReducedMotion(), ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "null") });
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(s: Settings) {
+  try { localStorage.setItem(SETTINGS_KEY, JSON.stringify(s)); } catch { /* storage full or disabled */ }
+}
@@ -0,0 +1,121 @@
+// ─── Rally simulation tests ──────────────────────────────────
+// Hit angles, the swept paddle test at the fastest ball, and how rallies
+// end. Run with `npm test`.
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BALL_R, PADDLE_D, PLAYER_Z, TABLE_D } from "./constants";
+import {
+  SIM_DT, TABLE_TOP, createSim, maxPaddleX, step,
+  type Fault, type SimEvent, type SimParams, type SimState, type Side, type Vec3,
+} from "./simulation";
+
+const PARAMS: SimParams = { speedInit: 10, speedMax: 38 };
+// The player's paddle face, where the ball centre meets it
+const FACE_Z = PLAYER_Z - (PADDLE_D / 2 + BALL_R);
+
+/** A ball in flight: the rest of the state as a rally would have left it. */
+function ball(pos: Vec3, vel: Vec3, rally: Partial<SimState> = {}): SimState {
+  return { ...createSim(1), pos, vel, firstHit: true, lastHitter: "ai", bounces: 1, ...rally };
+}
+
+/** Steps with the paddles held still until the rally ends (or a couple of seconds pass). */
+function play(s: SimState, playerX = 0, aiX = 0): { state: SimState; events: SimEvent[] } {
+  const events: SimEvent[] = [];
+  for (let i = 0; i < 240 && !s.scorer; i++) {
+    const res = step(s, { playerX, aiX }, PARAMS);
+    s = res.state;
+    events.push(...res.events);
+  }
+  return { state: s, events };
+}
+
+describe("hit angle", () => {
+  // A ball that reaches the player's face on the next tick, `offset` from the paddle's centre
+  const hitAt = (offset: number) => {
+    const res = step(ball({ x: offset, y: TABLE_TOP + 0.4, z: FACE_Z - 0.02 }, { x: 0, y: 0, z: 10 }), { playerX: 0, aiX: 0 }, PARAMS);
+    const hit = res.events.find(e => e.type === "hit");
+    assert.ok(hit, `no hit at offset ${offset}`);
+    return res.state;
+  };
+
+  it("sends a centred hit straight back", () => {
+    const s = hitAt(0);
+    assert.ok(s.vel.z < 0);
+    assert.ok(Math.abs(s.vel.x) < 1e-9);
+  });
+
+  it("angles the return towards the side of the paddle the ball struck", () => {
+    assert.ok(hitAt(0.3).vel.x > 0);
+    assert.ok(hitAt(-0.3).vel.x < 0);
+    assert.ok(Math.abs(hitAt(-0.3).vel.x + hitAt(0.3).vel.x) < 1e-9);
+  });
+
+  it("angles it more the further off centre", () => {
+    const angle = (s: SimState) => Math.atan2(s.vel.x, -s.vel.z);
+    assert.ok(angle(hitAt(0.5)) > angle(hitAt(0.25)));
+    assert.ok(angle(hitAt(0.25)) > angle(hitAt(0)));
+  });
+});
+
+describe("swept paddle test", () => {
+  it("catches a ball at speedMax that a point test would let through", () => {
+    const speed = PARAMS.speedMax;
+    const from  = { x: 0, y: TABLE_TOP + 0.4, z: PLAYER_Z - PADDLE_D / 2 - speed * SIM_DT * 1.1 };
+    // Sampled once a tick the ball centre is never inside the paddle: short of it, then past it
+    const body  = (z: number) => Math.abs(z - PLAYER_Z) <= PADDLE_D / 2;
+    assert.ok(!body(from.z) && !body(from.z + speed * SIM_DT) && !body(from.z + 2 * speed * SIM_DT));
+
+    let s = ball(from, { x: 0, y: 0, z: speed });
+    const events: SimEvent[] = [];
+    for (let i = 0; i < 2; i++) {
+      const res = step(s, { playerX: 0, aiX: 0 }, PARAMS);
+      s = res.state;
+      events.push(...res.events);
+    }
+    assert.ok(events.some(e => e.type === "hit" && e.side === "player"));
+    assert.ok(s.vel.z < 0);
+    assert.ok(s.pos.z < PLAYER_Z);
+  });
+
+  it("doesn't hit a ball the paddle is nowhere near", () => {
+    const s = ball({ x: 0, y: TABLE_TOP + 0.4, z: FACE_Z - 0.1 }, { x: 0, y: 0, z: PARAMS.speedMax });
+    const res = step(s, { playerX: maxPaddleX(), aiX: 0 }, PARAMS);
+    assert.ok(!res.events.some(e => e.type === "hit"));
+  });
+});
+
+describe("scoring", () => {
+  const ends = (s: SimState, scorer: Side, fault: Fault, playerX = 0) => {
+    const { state, events } = play(s, playerX);
+    assert.equal(state.scorer, scorer);
+    assert.equal(state.fault, fault);
+    assert.deepEqual(events.filter(e => e.type === "score"), [{ type: "score", scorer, fault }]);
+  };
+
+  it("gives the point away for a ball that bounced in and wasn't returned", () => {
+    ends(ball({ x: 0, y: TABLE_TOP + 0.3, z: PLAYER_Z - 0.8 }, { x: 0, y: 0, z: 10 }), "ai", "missed", maxPaddleX());
+  });
+
+  it("calls a return that clears the far end without bouncing long", () => {
+    ends(ball({ x: 0, y: TABLE_TOP + 3, z: -2 }, { x: 0, y: 4, z: -14 }, { lastHitter: "player", bounces: 0 }), "ai", "long");
+  });
+
+  it("calls a second bounce on the receiver's half", () => {
+    ends(ball({ x: 0, y: TABLE_TOP + BALL_R + 0.05, z: TABLE_D / 4 }, { x: 0, y: -1, z: 0.5 }), "ai", "double_bounce", maxPaddleX());
+  });
+
+  it("calls a return that bounces on the hitter's own half", () => {
+    ends(ball({ x: 0, y: TABLE_TOP + 0.3, z: 3 }, { x: 0, y: -2, z: -2 }, { lastHitter: "player", bounces: 0 }), "ai", "own_half");
+  });
+
+  it("calls a return stopped by the net", () => {
+    ends(ball({ x: 0, y: TABLE_TOP + BALL_R + 0.04, z: 0.4 }, { x: 0, y: 0, z: -8 }, { lastHitter: "player", bounces: 0 }), "ai", "net");
+  });
+
+  it("holds a finished rally still", () => {
+    const { state } = play(ball({ x: 0, y: TABLE_TOP + 0.3, z: PLAYER_Z - 0.8 }, { x: 0, y: 0, z: 10 }), maxPaddleX());
+    const res = step(state, { playerX: 0, aiX: 0 }, PARAMS);
+    assert.equal(res.state, state);
+    assert.deepEqual(res.events, []);
+  });
+});
@@ -0,0 +1,414 @@
+// ─── Rally simulation ────────────────────────────────────────
+// Pure, headless rally physics: state in, inputs in, state out.
+// Runs on a fixed timestep and draws randomness only from the seed carried
+// in the state, so the same seed + inputs always produce the same rally.
+// No React or three.js in here — GameScene renders whatever this returns.
+import {
+  TABLE_W, TABLE_D, TABLE_H, PADDLE_W, PADDLE_D, BALL_R, NET_H,
+  PLAYER_Z, AI_Z, BALL_LAUNCH_SPEED,
+} from "./constants";
+import { nextRandom } from "./rng";
+
+export const SIM_HZ = 120;
+export const SIM_DT = 1 / SIM_HZ;
+
+export type Side = "player" | "ai";
+
+export interface Vec3 { x: number; y: number; z: number }
+
+export interface SimParams {
+  speedInit: number;
+  speedMax: number;
+  paddleW?: number;    // defaults to PADDLE_W
+  serveSpeed?: number; // defaults to BALL_LAUNCH_SPEED; pass it to serve()
+  /** Per-side paddle widths, over paddleW — arcade power-ups resize one paddle. */
+  widths?: Partial<Record<Side, number>>;
+}
+
+export const paddleWidth = (params: SimParams, side: Side) => params.widths?.[side] ?? params.paddleW ?? PADDLE_W;
+
+/** Why a rally ended, from the point of view of the side that lost it. */
+export type Fault =
+  | "missed"        // ball bounced in but was never returned
+  | "long"          // return flew past the end of the table without bouncing
+  | "double_bounce" // ball bounced twice on the receiver's half
+  | "net"           // return was stopped by the net
+  | "own_half";     // return bounced on the hitter's own half
+
+export interface SimState {
+  tick: number;
+  seed: number;           // RNG state, advanced on every random draw
+  pos: Vec3;
+  vel: Vec3;
+  spin: Vec3;             // angular velocity, rad/s. x = top/backspin, y = sidespin
+  playerX: number;
+  aiX: number;
+  playerVX: number;       // smoothed lateral paddle speeds, the source of spin
+  aiVX: number;
+  rally: number;          // serves so far this match
+  hits: number;           // paddle hits in the current rally
+  firstHit: boolean;      // serve is slow until the first paddle contact
+  lastHitter: Side;       // the serve counts as a hit by the side not receiving it
+  bounces: number;        // table bounces on the receiver's half since the last hit
+  netted: boolean;        // the current shot has been stopped by the net
+  scorer: Side | null;    // set once the rally is decided
+  fault: Fault | null;
+}
+
+/** Where each paddle wants to be this tick. The sim clamps to the table. */
+export interface SimInput {
+  playerX: number;
+  aiX: number;
+}
+
+export type SimEvent =
+  | { type: "wall"; x: number }
+  | { type: "bounce"; side: Side }
+  | { type: "net"; clipped: boolean }
+  | { type: "hit"; side: Side; speed: number }
+  | { type: "score"; scorer: Side; fault: Fault };
+
+export interface StepResult {
+  state: SimState;
+  events: SimEvent[];
+}
+
+export const TABLE_TOP    = TABLE_H / 2;
+/** How far from the centre line a paddle of width `w` can travel. */
+export const maxPaddleX   = (w = PADDLE_W) => TABLE_W / 2 - w / 2;
+export const MAX_PADDLE_X = maxPaddleX();
+export const BALL_REST_Y  = TABLE_TOP + BALL_R + 0.01;
+/** How high above the table a paddle can still reach the ball. */
+export const PADDLE_REACH = 1.4;
+
+const WALL_X  = TABLE_W / 2 - BALL_R;
+const OUT_Z   = TABLE_D / 2 + 0.5;
+const FLOOR_Y = TABLE_TOP - 1;
+const SERVE_Y = 0.6;  // serve drops from this height above the table
+const TABLE_E = 0.85; // vertical restitution of a table bounce
+const NET_E   = 0.15; // what little of vel.z survives running into the net
+
+// Gravity scales with the ball's horizontal speed squared, so a shot draws
+// the same arc shape at 8 u/s as at speedMax. With fixed gravity fast rallies
+// could never clear the net and the slow serve would loop into the lights.
+const ARC_K = 0.1;
+
+// Spin. MAGNUS turns ω × v into acceleration; SPIN_GRIP is how much of the
+// spinning surface's speed a table, wall or paddle contact converts into a
+// kick. Spin is generated from lateral paddle speed (sidespin) and from how
+// high the ball was taken (drive → topspin, scoop → backspin).
+const MAGNUS     = 0.0067;
+const SPIN_DECAY = 0.3;
+const SPIN_GRIP  = 0.15;
+const SIDE_K     = 4;
+const TOP_K      = 90;
+const MAX_SIDE   = 80;
+const PADDLE_VX_SMOOTH = 0.3;
+
+// Per-side hit response: which way the ball leaves, how much english an
+// off-centre hit adds, and how much each return speeds the rally up.
+export const PADDLES: Readonly<Record<Side, { z: number; out: 1 | -1; english: number; accel: number }>> = {
+  player: { z: PLAYER_Z, out: -1, english: 3, accel: 1.05 },
+  ai:     { z: AI_Z,     out:  1, english: 2, accel: 1.03 },
+};
+
+const ZERO: Vec3 = { x: 0, y: 0, z: 0 };
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+export const other = (side: Side): Side => side === "player" ? "ai" : "player";
+const halfOf = (z: number): Side => z > 0 ? "player" : "ai";
+
+export function gravity(vel: Vec3): number {
+  return ARC_K * (vel.x * vel.x + vel.z * vel.z);
+}
+
+/** Magnus acceleration, MAGNUS · (ω × v). */
+export function magnus(spin: Vec3, vel: Vec3): Vec3 {
+  return {
+    x: MAGNUS * (spin.y * vel.z - spin.z * vel.y),
+    y: MAGNUS * (spin.z * vel.x - spin.x * vel.z),
+    z: MAGNUS * (spin.x * vel.y - spin.y * vel.x),
+  };
+}
+
+/**
+ * Vertical launch speed that brings a ball at `pos` moving with `vel` down
+ * onto the table at `landZ`. Topspin dips the ball, so it is launched higher;
+ * backspin floats it, so it is launched flatter.
+ */
+export function loftTo(pos: Vec3, vel: Vec3, landZ: number, spin: Vec3 = ZERO): number {
+  const t = Math.max((landZ - pos.z) / vel.z, SIM_DT);
+  const drop = pos.y - (TABLE_TOP + BALL_R);
+  const g = Math.max(gravity(vel) - magnus(spin, vel).y, 0.2 * gravity(vel));
+  return (0.5 * g * t * t - drop) / t;
+}
+
+/** Positive for topspin, negative for backspin, relative to the ball's travel. */
+export function topspin(s: Pick<SimState, "spin" | "vel">): number {
+  return s.spin.x * Math.sign(s.vel.z);
+}
+
+export function createSim(seed: number): SimState {
+  return {
+    tick: 0,
+    seed: seed >>> 0,
+    pos: { x: 0, y: BALL_REST_Y, z: 0 },
+    vel: { x: 0, y: 0, z: BALL_LAUNCH_SPEED },
+    spin: { ...ZERO },
+    playerX: 0,
+    aiX: 0,
+    playerVX: 0,
+    aiVX: 0,
+    rally: 0,
+    hits: 0,
+    firstHit: false,
+    lastHitter: "ai",
+    bounces: 0,
+    netted: false,
+    scorer: null,
+    fault: null,
+  };
+}
+
+/**
+ * Puts a fresh ball in play at `pos`, moving along `vel` (x and z; y is
+ * worked out) so that it comes down on the table at `landZ`. The side it
+ * leaves from counts as the hitter. It stays at this speed until the first
+ * paddle hit snaps it to rally speed.
+ */
+export function launch(s: SimState, pos: Vec3, vel: Vec3, landZ: number, spin: Vec3 = ZERO): SimState {
+  const v = { x: vel.x, y: 0, z: vel.z };
+  v.y = loftTo(pos, v, landZ, spin);
+  return {
+    ...s,
+    pos,
+    vel: v,
+    spin: { ...spin },
+    rally: s.rally + 1,
+    hits: 0,
+    firstHit: false,
+    lastHitter: v.z > 0 ? "ai" : "player",
+    bounces: 0,
+    netted: false,
+    scorer: null,
+    fault: null,
+  };
+}
+
+/**
+ * Drops the ball over the net with a slow, slightly angled serve that bounces
+ * once on the receiver's half.
+ */
+export function serve(s: SimState, towardPlayer: boolean, speed = BALL_LAUNCH_SPEED): SimState {
+  const [r, seed] = nextRandom(s.seed);
+  const a = (r - 0.5) * 0.5;
+  const dir = towardPlayer ? 1 : -1;
+  const pos = { x: 0, y: TABLE_TOP + BALL_R + SERVE_Y, z: 0 };
+  // Always launch slow — ramps to full speed on first paddle hit
+  const vel = { x: Math.sin(a) * speed, y: 0, z: dir * Math.cos(a) * speed };
+  return launch({ ...s, seed }, pos, vel, dir * TABLE_D / 4);
+}
+
+// ─── Ball flight ─────────────────────────────────────────────
+// Shared by step() and predictCrossing(), so the AI's forecast obeys exactly
+// the same physics as the rally. Each helper updates vel/spin in place.
+
+/** One tick of free flight: gravity, Magnus and spin decay. Returns the new position. */
+function fly(prev: Vec3, vel: Vec3, spin: Vec3): Vec3 {
+  const m = magnus(spin, vel);
+  vel.x += m.x * SIM_DT;
+  vel.y += (m.y - gravity(vel)) * SIM_DT;
+  vel.z += m.z * SIM_DT;
+  const decay = 1 - SPIN_DECAY * SIM_DT;
+  spin.x *= decay; spin.y *= decay; spin.z *= decay;
+  return { x: prev.x + vel.x * SIM_DT, y: prev.y + vel.y * SIM_DT, z: prev.z + vel.z * SIM_DT };
+}
+
+/**
+ * Side rails act as walls at any height, as they always have.
+ * Sidespin grips the rail and kicks the ball along it.
+ */
+function hitRail(pos: Vec3, vel: Vec3, spin: Vec3): boolean {
+  if (Math.abs(pos.x) <= WALL_X) return false;
+  const sx = Math.sign(pos.x);
+  pos.x = sx * WALL_X;
+  vel.x = -sx * Math.abs(vel.x);
+  vel.z += SPIN_GRIP * spin.y * sx * BALL_R;
+  spin.y *= 0.5;
+  return true;
+}
+
+/** Net contact, only tested on the tick the ball crosses the centre line. */
+function hitNet(prev: Vec3, pos: Vec3, vel: Vec3): "tape" | "clip" | null {
+  if ((prev.z > 0) === (pos.z > 0) || prev.z === 0) return null;
+  const t = prev.z / (prev.z - pos.z);
+  const h = prev.y + (pos.y - prev.y) * t - TABLE_TOP;
+  if (h < NET_H) {
+    // Straight into the tape: the ball dies and drops back on the hitter's side
+    pos.z = Math.sign(prev.z) * BALL_R;
+    vel.z = -vel.z * NET_E;
+    vel.x *= 0.3;
+    return "tape";
+  }
+  if (h < NET_H + BALL_R) {
+    // Clipped the top: it carries on over, slower and popped up
+    vel.z *= 0.6;
+    vel.y = Math.abs(vel.y) * 0.5 + 1;
+    return "clip";
+  }
+  return null;
+}
+
+function hitTable(prev: Vec3, pos: Vec3, vel: Vec3, spin: Vec3): boolean {
+  const overTable = Math.abs(pos.x) <= TABLE_W / 2 && Math.abs(pos.z) <= TABLE_D / 2;
+  if (!overTable || vel.y >= 0 || pos.y > TABLE_TOP + BALL_R || prev.y < TABLE_TOP) return false;
+  pos.y = TABLE_TOP + BALL_R;
+  vel.y = -vel.y * TABLE_E;
+  // Topspin kicks forward off the table, backspin checks up
+  vel.z += SPIN_GRIP * spin.x * BALL_R;
+  spin.x *= 0.7;
+  return true;
+}
+
+export interface Crossing {
+  x: number;
+  y: number;
+  vx: number;
+  ticks: number;    // how far ahead, in sim ticks
+  bounces: number;  // table bounces on the way
+}
+
+/**
+ * Forecasts where the ball will cross the plane `z`, following walls, table
+ * bounces, the net and — scaled by `spinRead` — its spin. Paddles are ignored.
+ * Returns null if the ball will not get there within `maxTicks`.
+ */
+export function predictCrossing(s: Pick<SimState, "pos" | "vel" | "spin">, z: number, spinRead = 1, maxTicks = SIM_HZ * 3): Crossing | null {
+  let pos = s.pos;
+  const vel  = { ...s.vel };
+  const spin = { x: s.spin.x * spinRead, y: s.spin.y * spinRead, z: s.spin.z * spinRead };
+  let bounces = 0;
+  for (let i = 1; i <= maxTicks; i++) {
+    const prev = pos;
+    pos = fly(prev, vel, spin);
+    hitRail(pos, vel, spin);
+    hitNet(prev, pos, vel);
+    if (hitTable(prev, pos, vel, spin)) bounces++;
+    if ((prev.z - z) * (pos.z - z) <= 0 && prev.z !== pos.z) {
+      const t = (z - prev.z) / (pos.z - prev.z);
+      return { x: prev.x + (pos.x - prev.x) * t, y: prev.y + (pos.y - prev.y) * t, vx: vel.x, ticks: i, bounces };
+    }
+    if (pos.y < FLOOR_Y) return null;
+  }
+  return null;
+}
+
+/** Advances the rally by exactly one SIM_DT. A finished rally is returned as is. */
+export function step(s: SimState, input: SimInput, params: SimParams): StepResult {
+  if (s.scorer) return { state: s, events: [] };
+  const events: SimEvent[] = [];
+
+  const maxX = (side: Side) => maxPaddleX(paddleWidth(params, side));
+  const playerX = clamp(input.playerX, -maxX("player"), maxX("player"));
+  const aiX     = clamp(input.aiX,     -maxX("ai"),     maxX("ai"));
+  const smooth = (v: number, x: number, prevX: number) => v + ((x - prevX) / SIM_DT - v) * PADDLE_VX_SMOOTH;
+  const playerVX = smooth(s.playerVX, playerX, s.playerX);
+  const aiVX     = smooth(s.aiVX,     aiX,     s.aiX);
+  const prev = s.pos;
+  const vel  = { ...s.vel };
+  const spin = { ...s.spin };
+  const pos  = fly(prev, vel, spin);
+  let { firstHit, hits, lastHitter, bounces, netted } = s;
+  let scorer: Side | null = null;
+  let fault: Fault | null = null;
+  const lose = (loser: Side, why: Fault) => {
+    if (scorer) return;
+    scorer = other(loser);
+    fault = why;
+  };
+
+  if (hitRail(pos, vel, spin)) events.push({ type: "wall", x: pos.x });
+
+  const net = hitNet(prev, pos, vel);
+  if (net) {
+    if (net === "tape") netted = true;
+    events.push({ type: "net", clipped: net === "clip" });
+  }
+
+  if (hitTable(prev, pos, vel, spin)) {
+    const half = halfOf(pos.z);
+    events.push({ type: "bounce", side: half });
+    if (half === lastHitter) lose(lastHitter, netted ? "net" : "own_half");
+    else if (++bounces >= 2) lose(half, "double_bounce");
+  }
+
+  const receiver = other(lastHitter);
+  const p  = PADDLES[receiver];
+  const px = receiver === "player" ? playerX : aiX;
+  const paddleW = paddleWidth(params, receiver);
+  // The paddle's hit slab along z, inflated by the ball radius
+  const near = p.z + p.out * (PADDLE_D / 2 + BALL_R);
+  const far  = p.z - p.out * (PADDLE_D / 2 + BALL_R);
+  const incoming = Math.sign(vel.z) === -p.out;
+  // Swept test: the ball's path this tick overlaps the slab. Checking only
+  // the end position lets a fast ball jump straight through the paddle.
+  const lo = Math.min(prev.z, pos.z), hi = Math.max(prev.z, pos.z);
+  const inSlab = hi >= Math.min(near, far) && lo <= Math.max(near, far);
+  const t  = pos.z === prev.z ? 1 : clamp((near - prev.z) / (pos.z - prev.z), 0, 1);
+  const hx = prev.x + (pos.x - prev.x) * t;
+  const hy = prev.y + (pos.y - prev.y) * t;
+  // Only a ball that has bounced on your half is yours to hit
+  if (!scorer && incoming && bounces > 0 && inSlab
+    && Math.abs(hx - px) < paddleW / 2 + BALL_R && hy - TABLE_TOP <= PADDLE_REACH) {
+    const off = (hx - px) / (paddleW / 2);
+    const pvx = receiver === "player" ? playerVX : aiVX;
+    // Incoming spin: sidespin jumps off the face sideways, topspin pops the
+    // return up and long, backspin drags it down toward the net
+    const topIn = topspin({ spin, vel });
+    vel.z = p.out * Math.abs(vel.z);
+    vel.x += off * p.english + SPIN_GRIP * p.out * spin.y * BALL_R;
+    const speed = Math.hypot(vel.x, vel.z);
+    if (!firstHit) {
+      // First hit: snap to full game speed
+      firstHit = true;
+      const k = params.speedInit / speed;
+      vel.x *= k; vel.z *= k;
+    } else if (speed < params.speedMax) {
+      vel.x *= p.accel; vel.z *= p.accel;
+    }
+    pos.x = hx;
+    pos.y = hy;
+    pos.z = near;
+    // Arc: a ball taken high is driven deep, one taken low is lifted short
+    // and risks the net, and edge hits sail long.
+    const lift  = clamp((hy - TABLE_TOP - BALL_R) / 0.6, 0, 1);
+    const depth = 0.15 + 0.5 * lift + 0.45 * off * off + 0.004 * topIn;
+    // Outgoing spin, signed so that +x sidespin curves the ball the way the
+    // paddle was moving and topspin dips it
+    spin.x = p.out * TOP_K * (lift - 0.4);
+    spin.y = p.out * clamp(SIDE_K * pvx, -MAX_SIDE, MAX_SIDE);
+    spin.z = 0;
+    vel.y = loftTo(pos, vel, p.out * depth * TABLE_D / 2, spin);
+    lastHitter = receiver;
+    hits++;
+    bounces = 0;
+    netted = false;
+    events.push({ type: "hit", side: receiver, speed: Math.hypot(vel.x, vel.y, vel.z) });
+  }
+
+  // Left the table area: whoever was meant to play it next loses the point
+  if (!scorer && (Math.abs(pos.z) > OUT_Z || pos.y < FLOOR_Y)) {
+    if (netted) lose(lastHitter, "net");
+    else if (bounces > 0) lose(other(lastHitter), "missed");
+    else lose(lastHitter, "long");
+  }
+  if (scorer && fault) events.push({ type: "score", scorer, fault });
+
+  return {
+    state: {
+      ...s, tick: s.tick + 1, pos, vel, spin, playerX, aiX, playerVX, aiVX,
+      firstHit, hits, lastHitter, bounces, netted, scorer, fault,
+    },
+    events,
+  };
+}
@@ -0,0 +1,52 @@
+// ─── Statistics tests ────────────────────────────────────────
+// What a finished match adds to the career totals. Run with `npm test`.
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { addMatch, emptyStats, type MatchRecord } from "./stats";
+
+const match = (m: Partial<MatchRecord> = {}): MatchRecord => ({
+  at: "2026-01-01T00:00:00.000Z",
+  mode: "solo",
+  difficulty: "hard",
+  against: "auto",
+  ruleset: "classic",
+  names: { player: "YOU", ai: "AUTO" },
+  winner: "player",
+  games: { player: 1, ai: 0 },
+  history: [{ player: 1, ai: 1 }],
+  points: [
+    { scorer: "player", fault: "missed", hits: 4, ticks: 240, topSpeed: 12 },
+    { scorer: "ai",     fault: "net",    hits: 1, ticks: 60,  topSpeed: 9 },
+  ],
+  ...m,
+});
+
+describe("addMatch", () => {
+  it("adds up the rallies", () => {
+    const s = addMatch(emptyStats(), match());
+    assert.equal(s.matches, 1);
+    assert.equal(s.rallies, 2);
+    assert.equal(s.rallyHits, 5);
+    assert.equal(s.rallyTicks, 300);
+    assert.equal(s.longestRally, 4);
+    assert.equal(s.fastestBall, 12);
+    assert.deepEqual(s.byDifficulty.hard, { played: 1, won: 1 });
+  });
+
+  it("leaves ARCADE points out of the rally stats", () => {
+    const zero = (p: MatchRecord["points"][number]) => ({ ...p, ticks: 0, topSpeed: 0 });
+    const s = addMatch(addMatch(emptyStats(), match()), match({ ruleset: "arcade", points: match().points.map(zero) }));
+    assert.equal(s.matches, 2);
+    assert.equal(s.rallies, 2);
+    assert.equal(s.rallyTicks, 300);
+    assert.equal(s.fastestBall, 12);
+    assert.deepEqual(s.byDifficulty.hard, { played: 2, won: 2 });
+  });
+
+  it("only counts plain matches against Auto by difficulty", () => {
+    const s = [match({ against: "ladder" }), match({ against: "bot" }), match({ skill: 0.5 }), match({ mode: "versus", against: undefined })]
+      .reduce(addMatch, emptyStats());
+    assert.equal(s.matches, 4);
+    assert.deepEqual(s.byDifficulty.hard, { played: 0, won: 0 });
+  });
+});
@@ -0,0 +1,116 @@
+// ─── Player statistics ───────────────────────────────────────
+// Career totals and recent match history, kept in localStorage. The fold
+// (addMatch) is pure; only loadStats/saveStats/clearStats touch storage.
+import type { Difficulty } from "./constants";
+import type { MatchScore, RulesetId } from "./match";
+import type { Fault, Side } from "./simulation";
+
+const STATS_KEY  = "mpp-stats";
+const RECENT_MAX = 25;
+/** The table is 10 units long against a real 2.74 m, so 1 unit/s ≈ 0.99 km/h. */
+export const UNITS_TO_KMH = 2.74 / 10 * 3.6;
+
+export interface PointRecord {
+  scorer: Side;
+  fault: Fault;
+  hits: number;    // paddle hits in the rally
+  ticks: number;   // rally length in sim ticks; 0 in ARCADE, which isn't recorded
+  topSpeed: number;
+}
+
+export interface MatchRecord {
+  at: string;
+  mode: "solo" | "versus";
+  difficulty: Difficulty; // adaptive matches: the level nearest the final skill
+  skill?: number;         // adaptive matches: the final skill estimate
+  against?: "auto" | "ladder" | "bot"; // solo matches: what played the far paddle
+  ruleset: RulesetId;
+  names: Record<Side, string>;
+  winner: Side;
+  games: MatchScore["games"];
+  history: MatchScore["history"];
+  points: PointRecord[];
+}
+
+export interface Stats {
+  version: 1;
+  /** Solo matches against plain Auto at a fixed difficulty; "won" is from the human's side. */
+  byDifficulty: Record<Difficulty, { played: number; won: number }>;
+  matches: number;
+  rallies: number;
+  rallyHits: number;   // hits summed over all rallies, for the average
+  rallyTicks: number;
+  longestRally: number; // in hits
+  totalHits: number;
+  fastestBall: number;  // units/s
+  recent: MatchRecord[]; // newest first
+}
+
+export function emptyStats(): Stats {
+  return {
+    version: 1,
+    byDifficulty: {
+      easy:      { played: 0, won: 0 },
+      medium:    { played: 0, won: 0 },
+      hard:      { played: 0, won: 0 },
+      very_hard: { played: 0, won: 0 },
+    },
+    matches: 0,
+    rallies: 0,
+    rallyHits: 0,
+    rallyTicks: 0,
+    longestRally: 0,
+    totalHits: 0,
+    fastestBall: 0,
+    recent: [],
+  };
+}
+
+export function addMatch(s: Stats, m: MatchRecord): Stats {
+  const byDifficulty = { ...s.byDifficulty };
+  // Ladder opponents, bots and adaptive matches aren't Auto at that level
+  if (m.mode === "solo" && m.against === "auto" && m.skill === undefined) {
+    const d = byDifficulty[m.difficulty];
+    byDifficulty[m.difficulty] = { played: d.played + 1, won: d.won + (m.winner === "player" ? 1 : 0) };
+  }
+  // ARCADE isn't recorded, so its points carry no rally length or speed,
+  // and with several balls in play a rally isn't one ball's anyway
+  const points = m.ruleset === "arcade" ? [] : m.points;
+  const hits = points.reduce((n, p) => n + p.hits, 0);
+  return {
+    ...s,
+    byDifficulty,
+    matches:      s.matches + 1,
+    rallies:      s.rallies + points.length,
+    rallyHits:    s.rallyHits + hits,
+    rallyTicks:   s.rallyTicks + points.reduce((n, p) => n + p.ticks, 0),
+    longestRally: Math.max(s.longestRally, ...points.map(p => p.hits)),
+    totalHits:    s.totalHits + hits,
+    fastestBall:  Math.max(s.fastestBall, ...points.map(p => p.topSpeed)),
+    recent:       [m, ...s.recent].slice(0, RECENT_MAX),
+  };
+}
+
+export function averageRally(s: Stats): number {
+  return s.rallies ? s.rallyHits / s.rallies : 0;
+}
+
+// ─── Storage ─────────────────────────────────────────────────
+// Anything unreadable (private mode, a newer format, hand edits) falls back
+// to empty stats rather than breaking the menu.
+export function loadStats(): Stats {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STATS_KEY) ?? "null");
+    return raw?.version === 1 ? { ...emptyStats(), ...raw } : emptyStats();
+  } catch {
+    return emptyStats();
+  }
+}
+
+export function saveStats(s: Stats) {
+  try { localStorage.setItem(STATS_KEY, JSON.stringify(s)); } catch { /* storage full or disabled */ }
+}
+
+export function clearStats() {
+  try { localStorage.removeItem(STATS_KEY); } catch { /* storage disabled */ }
+}
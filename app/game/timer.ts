@@ -0,0 +1,44 @@
+// ─── Pausable timer ──────────────────────────────────────────
+// A one-shot timeout that can be frozen with the game and thrown away when
+// the match is left, so a wait started before a pause or a quit can't fire
+// into whatever screen comes next.
+
+export interface PausableTimer {
+  /** Replaces anything still pending. */
+  set(fn: () => void, ms: number): void;
+  cancel(): void;
+  pause(): void;
+  resume(): void;
+}
+
+export function createPausableTimer(): PausableTimer {
+  let fn: (() => void) | null = null;
+  let left = 0;
+  let startedAt = 0;
+  let id: ReturnType<typeof setTimeout> | null = null;
+
+  const stop = () => {
+    if (id !== null) clearTimeout(id);
+    id = null;
+  };
+  const run = () => {
+    startedAt = performance.now();
+    id = setTimeout(() => {
+      id = null;
+      const f = fn;
+      fn = null;
+      f?.();
+    }, Math.max(0, left));
+  };
+
+  return {
+    set(f, ms) { stop(); fn = f; left = ms; run(); },
+    cancel() { stop(); fn = null; },
+    pause() {
+      if (id === null) return;
+      stop();
+      left -= performance.now() - startedAt;
+    },
+    resume() { if (fn && id === null) run(); },
+  };
+}
@@ -0,0 +1,90 @@
+// ─── Tournaments ─────────────────────────────────────────────
+// Round robins between bots, played headless through runMatch. Every pair
+// meets `games` times with ends swapped each time, so neither bot keeps the
+// serve or the near end. Each match gets its own seed derived from the
+// tournament's, which makes a whole tournament repeatable from one number.
+import { SIM_HZ, type SimParams } from "./simulation";
+import { CLASSIC_RULES, runMatch, type Rules } from "./match";
+import { spawnBot, type BotModule } from "./bots";
+import { nextRandom } from "./rng";
+
+export interface TournamentOptions {
+  seed: number;
+  games: number;    // per pairing
+  params: SimParams;
+  rules?: Rules;
+}
+
+export interface Standing {
+  name: string;
+  played: number;
+  won: number;
+  lost: number;     // a match that hits the point cap counts as neither
+  pointsFor: number;
+  pointsAgainst: number;
+  rallies: number;  // points this bot played in
+  hits: number;     // paddle hits across those points, both sides
+  ticks: number;
+}
+
+export const winRate    = (s: Standing) => s.played ? s.won / s.played : 0;
+export const avgHits    = (s: Standing) => s.rallies ? s.hits / s.rallies : 0;
+export const avgRallyS  = (s: Standing) => s.rallies ? s.ticks / s.rallies / SIM_HZ : 0;
+
+/** Plays every pairing and returns the standings, best win rate first. */
+export function roundRobin(bots: readonly BotModule[], opts: TournamentOptions): Standing[] {
+  const table: Standing[] = bots.map(b => ({
+    name: b.name, played: 0, won: 0, lost: 0, pointsFor: 0, pointsAgainst: 0, rallies: 0, hits: 0, ticks: 0,
+  }));
+  let seed = opts.seed;
+  const nextSeed = () => { const [r, s] = nextRandom(seed); seed = s; return Math.floor(r * 0x7fffffff); };
+
+  for (let i = 0; i < bots.length; i++) {
+    for (let j = i + 1; j < bots.length; j++) {
+      for (let g = 0; g < opts.games; g++) {
+        // Even games put bot i at the near end, odd games bot j
+        const [near, far] = g % 2 === 0 ? [i, j] : [j, i];
+        const matchSeed = nextSeed();
+        const r = runMatch({
+          seed:   matchSeed,
+          params: opts.params,
+          rules:  opts.rules ?? CLASSIC_RULES,
+          player: spawnBot(bots[near], { side: "player", seed: matchSeed ^ 0x5bd1, params: opts.params }),
+          ai:     spawnBot(bots[far], { side: "ai", seed: matchSeed ^ 0x1b87, params: opts.params }),
+        });
+        // A won match keeps its last game's points on the board as well as in the history
+        const played = r.winner ? r.score.history : [...r.score.history, r.score.points];
+        const points = played.reduce(
+          (t, g) => ({ player: t.player + g.player, ai: t.ai + g.ai }), { player: 0, ai: 0 });
+        const ticks  = r.rallies.reduce((t, v) => t + v, 0);
+        const hits   = r.hits.reduce((t, v) => t + v, 0);
+        for (const [k, side] of [[near, "player"], [far, "ai"]] as const) {
+          const st = table[k], opp = side === "player" ? "ai" : "player";
+          st.played++;
+          if (r.winner === side) st.won++;
+          else if (r.winner) st.lost++;
+          st.pointsFor     += points[side];
+          st.pointsAgainst += points[opp];
+          st.rallies += r.rallies.length;
+          st.hits    += hits;
+          st.ticks   += ticks;
+        }
+      }
+    }
+  }
+  return table.sort((a, b) => winRate(b) - winRate(a) || (b.pointsFor - b.pointsAgainst) - (a.pointsFor - a.pointsAgainst));
+}
+
+/** The standings as a fixed-width text table. */
+export function formatStandings(table: readonly Standing[]): string {
+  const head = ["#", "BOT", "P", "W", "L", "WIN%", "PF", "PA", "HITS/RALLY", "RALLY s"];
+  const rows = table.map((s, i) => [
+    String(i + 1), s.name, String(s.played), String(s.won), String(s.lost),
+    (winRate(s) * 100).toFixed(1), String(s.pointsFor), String(s.pointsAgainst),
+    avgHits(s).toFixed(2), avgRallyS(s).toFixed(2),
+  ]);
+  const widths = head.map((h, c) => Math.max(h.length, ...rows.map(r => r[c].length)));
+  // The name column reads left-aligned, the numbers right-aligned
+  const line = (r: string[]) => r.map((v, c) => c === 1 ? v.padEnd(widths[c]) : v.padStart(widths[c])).join("  ");
+  return [line(head), widths.map(w => "─".repeat(w)).join("  "), ...rows.map(line)].join("\n");
+}
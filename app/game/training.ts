@@ -0,0 +1,267 @@
+// ─── Training ────────────────────────────────────────────────
+// TRAINING replaces Auto with a ball machine at the far end. A drill says
+// how many balls it fires, where they land and how fast they come, and where
+// the target zones on the machine's half are. Balls are put in play with the
+// sim's launch() and the player's returns go through the normal paddle-hit
+// model, so practice plays exactly like a match. A ball is over at the first
+// bounce of the return on the far half (scored against the targets) or as
+// soon as the rally ends any other way (a miss). Pure and seeded like the sim.
+import { AI_Z, BALL_R, TABLE_D, TABLE_W } from "./constants";
+import { nextRandom } from "./rng";
+import {
+  SIM_HZ, TABLE_TOP, launch, maxPaddleX, step,
+  type SimEvent, type SimParams, type SimState,
+} from "./simulation";
+import builtIn from "./drills.json";
+
+// ─── Drill format ────────────────────────────────────────────
+// Positions are fractions of a half-table so drills don't depend on its size:
+// x runs -1 (left, as the player sees it) to 1, depth 0 (net) to 1 (end line).
+export interface Shot {
+  x: number;
+  depth: number;
+  speed?: number; // units/s, overrides the drill's
+  spin?: number;  // rad/s, + topspin / - backspin
+}
+
+export type Pattern =
+  | { kind: "random" }                  // anywhere on the player's half
+  | { kind: "corners" }                 // deep left and deep right in turn
+  | { kind: "ramp"; to: number }        // random, speed climbing to `to` by the last ball
+  | { kind: "sequence"; shots: Shot[] } // the shots in order, repeated
+
+export interface Target {
+  x: number;
+  depth: number;
+  w: number; // fraction of the table's width
+  d: number; // fraction of a half's length
+  points: number;
+}
+
+export interface Drill {
+  id: string;
+  name: string;
+  description: string;
+  balls: number;
+  speed: number;    // machine speed, units/s
+  interval: number; // s between one ball ending and the next firing
+  pattern: Pattern;
+  targets: Target[];
+}
+
+const MAX_BALLS   = 100;
+const SPEED_RANGE = [2, 12];
+const SPIN_MAX    = 80;
+const KINDS = ["random", "corners", "ramp", "sequence"];
+
+const isNum = (v: unknown, lo: number, hi: number): v is number =>
+  typeof v === "number" && Number.isFinite(v) && v >= lo && v <= hi;
+const isSpeed = (v: unknown) => isNum(v, SPEED_RANGE[0], SPEED_RANGE[1]);
+
+function badShot(s: Partial<Shot> | null): boolean {
+  return !s || !isNum(s.x, -1, 1) || !isNum(s.depth, 0.2, 1)
+    || (s.speed !== undefined && !isSpeed(s.speed))
+    || (s.spin !== undefined && !isNum(s.spin, -SPIN_MAX, SPIN_MAX));
+}
+
+/** Checks a parsed drill. Returns an error message, or null when it is usable. */
+export function validateDrill(raw: unknown): string | null {
+  const d = raw as Partial<Drill> | null;
+  if (!d || typeof d !== "object") return "Not a drill";
+  if (typeof d.id !== "string" || !d.id || typeof d.name !== "string" || !d.name) return "Drill needs an id and a name";
+  if (!isNum(d.balls, 1, MAX_BALLS) || !Number.isInteger(d.balls)) return `Drill balls must be 1–${MAX_BALLS}`;
+  if (!isSpeed(d.speed)) return `Drill speed must be ${SPEED_RANGE[0]}–${SPEED_RANGE[1]}`;
+  if (!isNum(d.interval, 0.3, 10)) return "Drill interval must be 0.3–10 s";
+  const p = d.pattern;
+  if (!p || !KINDS.includes(p.kind)) return "Unknown drill pattern";
+  if (p.kind === "ramp" && !isSpeed(p.to)) return "Ramp needs a target speed";
+  if (p.kind === "sequence" && (!Array.isArray(p.shots) || !p.shots.length || p.shots.some(badShot))) return "Sequence shots are malformed";
+  const ok = Array.isArray(d.targets) && d.targets.length > 0 && d.targets.every(t =>
+    t && isNum(t.x, -1, 1) && isNum(t.depth, 0, 1) && isNum(t.w, 0.05, 1) && isNum(t.d, 0.05, 1) && isNum(t.points, 1, 100));
+  return ok ? null : "Drill targets are malformed";
+}
+
+function toDrill(raw: unknown): Drill | string {
+  const err = validateDrill(raw);
+  if (err) return err;
+  const d = raw as Drill;
+  return { ...d, description: typeof d.description === "string" ? d.description : "" };
+}
+
+/** Parses a drill file's text. Returns an error message on failure. */
+export function loadDrill(text: string): Drill | string {
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch { return "Drill file is not valid JSON"; }
+  return toDrill(raw);
+}
+
+export const DRILLS: readonly Drill[] = (builtIn as unknown[]).map(raw => {
+  const d = toDrill(raw);
+  if (typeof d === "string") throw new Error(`drills.json: ${d}`);
+  return d;
+});
+
+// ─── Ball machine ────────────────────────────────────────────
+export type Outcome = "target" | "in" | "miss";
+
+export interface ShotResult {
+  outcome: Outcome;
+  points: number;
+}
+
+export interface TrainingState {
+  drill: Drill;
+  seed: number;
+  fired: number;
+  live: boolean; // a ball is in play and not yet scored
+  wait: number;  // ticks until the next ball
+  results: ShotResult[];
+}
+
+export interface TrainingStepResult {
+  training: TrainingState;
+  state: SimState;
+  events: SimEvent[];
+  result: ShotResult | null; // set on the tick a ball is scored
+}
+
+export const MACHINE_Y = TABLE_TOP + BALL_R + 0.9; // the machine sits on the far end line, mid-table
+const FIRST_DELAY = SIM_HZ;
+
+export function createTraining(drill: Drill, seed: number): TrainingState {
+  return { drill, seed: seed >>> 0, fired: 0, live: false, wait: FIRST_DELAY, results: [] };
+}
+
+export function trainingDone(t: TrainingState): boolean {
+  return t.results.length >= t.drill.balls && t.wait <= 0;
+}
+
+/** Where the machine sends its next ball. */
+function nextShot(t: TrainingState): [Shot, number] {
+  const { drill } = t;
+  const p = drill.pattern;
+  let seed = t.seed;
+  const draw = () => { const [r, s] = nextRandom(seed); seed = s; return r; };
+  const any = (): Shot => ({ x: draw() * 1.6 - 0.8, depth: 0.4 + draw() * 0.5 });
+  switch (p.kind) {
+    case "random":   return [any(), seed];
+    case "corners":  return [{ x: t.fired % 2 ? 0.75 : -0.75, depth: 0.8 }, seed];
+    case "ramp": {
+      const k = drill.balls > 1 ? t.fired / (drill.balls - 1) : 1;
+      return [{ ...any(), speed: drill.speed + (p.to - drill.speed) * k }, seed];
+    }
+    case "sequence": return [p.shots[t.fired % p.shots.length], seed];
+  }
+}
+
+function fire(t: TrainingState, s: SimState): [TrainingState, SimState] {
+  const [shot, seed] = nextShot(t);
+  const speed = shot.speed ?? t.drill.speed;
+  const pos = { x: 0, y: MACHINE_Y, z: AI_Z };
+  const land = { x: shot.x * (TABLE_W / 2 - BALL_R), z: shot.depth * TABLE_D / 2 };
+  const dx = land.x - pos.x, dz = land.z - pos.z;
+  const len = Math.hypot(dx, dz);
+  const vel = { x: dx / len * speed, y: 0, z: dz / len * speed };
+  // Topspin turns about +x for a ball heading towards the player
+  const spin = { x: shot.spin ?? 0, y: 0, z: 0 };
+  return [{ ...t, seed, fired: t.fired + 1, live: true }, launch(s, pos, vel, land.z, spin)];
+}
+
+/** The best target a return landing at world (x, z) is in, if any. */
+export function targetAt(d: Drill, x: number, z: number): Target | null {
+  let best: Target | null = null;
+  for (const tg of d.targets) {
+    const c = targetRect(tg);
+    if (Math.abs(x - c.x) <= c.w / 2 && Math.abs(z - c.z) <= c.d / 2 && (!best || tg.points > best.points)) best = tg;
+  }
+  return best;
+}
+
+/** A target as a world-space rectangle on the machine's half. */
+export function targetRect(tg: Target): { x: number; z: number; w: number; d: number } {
+  return { x: tg.x * TABLE_W / 2, z: -tg.depth * TABLE_D / 2, w: tg.w * TABLE_W, d: tg.d * TABLE_D / 2 };
+}
+
+/** One tick: fires when it's time, steps the ball and scores the player's return. */
+export function stepTraining(t: TrainingState, s: SimState, playerX: number, params: SimParams): TrainingStepResult {
+  if (!t.live && t.wait > 0) {
+    t = { ...t, wait: t.wait - 1 };
+    if (t.wait === 0 && t.fired < t.drill.balls) [t, s] = fire(t, s);
+  }
+  // Nothing on the table until the first ball
+  if (t.fired === 0) return { training: t, state: { ...s, playerX }, events: [], result: null };
+  // The machine never returns: once a ball is scored the far paddle keeps
+  // clear of it and it plays out onto the floor
+  const far = maxPaddleX(params.paddleW);
+  const res = step(s, { playerX, aiX: s.pos.x > 0 ? -far : far }, params);
+  s = res.state;
+  if (!t.live) return { training: t, state: s, events: res.events, result: null };
+
+  let result: ShotResult | null = null;
+  if (s.lastHitter === "player" && res.events.some(e => e.type === "bounce" && e.side === "ai")) {
+    const tg = targetAt(t.drill, s.pos.x, s.pos.z);
+    result = tg ? { outcome: "target", points: tg.points } : { outcome: "in", points: 0 };
+  } else if (s.scorer) {
+    result = { outcome: "miss", points: 0 };
+  }
+  if (!result) return { training: t, state: s, events: res.events, result: null };
+  const wait = t.fired < t.drill.balls ? Math.round(t.drill.interval * SIM_HZ) : SIM_HZ;
+  return { training: { ...t, live: false, wait, results: [...t.results, result] }, state: s, events: res.events, result };
+}
+
+// ─── Summary ─────────────────────────────────────────────────
+export interface DrillSummary {
+  score: number;
+  maxScore: number;
+  returned: number; // landed on the far half
+  onTarget: number;
+  balls: number;
+  accuracy: number; // onTarget / balls, 0..1
+}
+
+export function summarise(t: TrainingState): DrillSummary {
+  const best = Math.max(...t.drill.targets.map(tg => tg.points));
+  const onTarget = t.results.filter(r => r.outcome === "target").length;
+  return {
+    score:    t.results.reduce((n, r) => n + r.points, 0),
+    maxScore: best * t.drill.balls,
+    returned: t.results.filter(r => r.outcome !== "miss").length,
+    onTarget,
+    balls:    t.drill.balls,
+    accuracy: t.drill.balls ? onTarget / t.drill.balls : 0,
+  };
+}
+
+// ─── Personal bests ──────────────────────────────────────────
+export interface DrillBest {
+  score: number;
+  accuracy: number;
+  at: string;
+}
+
+export type TrainingBests = Record<string, DrillBest>;
+
+const BESTS_KEY = "mpp-training";
+
+/** Folds a finished drill into the bests: a higher score, or the same score more accurately. Pure. */
+export function addBest(b: TrainingBests, id: string, sum: DrillSummary, at: string): { bests: TrainingBests; improved: boolean } {
+  const prev = b[id];
+  const improved = !prev || sum.score > prev.score || (sum.score === prev.score && sum.accuracy > prev.accuracy);
+  return improved
+    ? { bests: { ...b, [id]: { score: sum.score, accuracy: sum.accuracy, at } }, improved }
+    : { bests: b, improved };
+}
+
+// ─── Storage ─────────────────────────────────────────────────
+export function loadBests(): TrainingBests {
+  try {
+    const raw = JSON.parse(localStorage.getItem(BESTS_KEY) ?? "null");
+    return raw && typeof raw === "object" && !Array.isArray(raw) ? raw : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveBests(b: TrainingBests) {
+  try { localStorage.setItem(BESTS_KEY, JSON.stringify(b)); } catch { /* storage full or disabled */ }
+}
@@ -0,0 +1,162 @@
+// ─── Visual effects ──────────────────────────────────────────
+// The juice on top of the rally: a trail behind a fast ball, sparks and a
+// paddle flash on contact, ripples where the ball meets a rail, camera
+// shake, a flash on the goal line and a pop on the score, confetti for a
+// win. None of it touches the sim. What is on, and how much of it, comes
+// from the EFFECTS quality level and one switch per effect in the settings;
+// the scene draws it all from fixed pools so a long rally allocates nothing.
+import { BALL_R, DIFF, TABLE_W } from "./constants";
+import { nextRandom } from "./rng";
+import type { Settings } from "./settings";
+import type { Vec3 } from "./simulation";
+
+export type VfxQuality = "off" | "low" | "high";
+
+export const VFX_QUALITY: Record<VfxQuality, { label: string; trail: number; sparks: number; confetti: number }> = {
+  off:  { label: "OFF",  trail: 0,  sparks: 0,  confetti: 0 },
+  low:  { label: "LOW",  trail: 6,  sparks: 8,  confetti: 40 },
+  high: { label: "HIGH", trail: 14, sparks: 24, confetti: 120 },
+};
+
+/** The per-effect switches, which only count while EFFECTS is on; the second lot also wait on reduced motion being off. */
+export const VFX_SWITCHES: readonly (keyof Settings)[] = ["ballTrail", "hitSparks", "flashes", "cameraShake", "scorePop", "confetti"];
+export const MOTION_SWITCHES: readonly (keyof Settings)[] = ["cameraShake", "scorePop", "confetti"];
+
+/** What the scene and the HUD should draw, from the settings. Reduced motion drops everything that moves the view. */
+export interface VfxOptions {
+  trail: number;     // most trail points behind a ball at full speed
+  sparks: number;    // per paddle hit, and a third of that per rail
+  flashes: boolean;  // paddle on contact, goal line on a point
+  shake: boolean;
+  scorePop: boolean;
+  confetti: number;  // pieces on the won screen
+}
+
+export function vfxOptions(s: Settings): VfxOptions {
+  const q  = VFX_QUALITY[s.vfx];
+  const on = s.vfx !== "off";
+  return {
+    trail:    s.ballTrail ? q.trail : 0,
+    sparks:   s.hitSparks ? q.sparks : 0,
+    flashes:  on && s.flashes,
+    shake:    on && s.cameraShake && !s.reducedMotion,
+    scorePop: on && s.scorePop && !s.reducedMotion,
+    confetti: s.confetti && !s.reducedMotion ? q.confetti : 0,
+  };
+}
+
+// ─── Impact ──────────────────────────────────────────────────
+// How hard something was hit, 0..1 of the fastest ball any difficulty plays
+const FULL_SPEED = DIFF.very_hard.speedMax;
+const TRAIL_FROM = DIFF.easy.speedInit; // a serve-paced ball leaves no trail
+
+export const impactOf = (speed: number) => Math.max(0, Math.min(1, speed / FULL_SPEED));
+
+/** Trail points to draw behind a ball going `speed`, out of `max`. */
+export function trailLength(speed: number, max: number): number {
+  return Math.round(max * Math.max(0, Math.min(1, (speed - TRAIL_FROM) / (FULL_SPEED - TRAIL_FROM))));
+}
+
+/** True when a ball's x velocity has turned round at a rail since the last frame. */
+export function offRail(pos: Vec3, velX: number, lastVelX: number): boolean {
+  return Math.sign(velX) !== Math.sign(lastVelX) && lastVelX !== 0 && Math.abs(pos.x) > TABLE_W / 2 - BALL_R * 3;
+}
+
+// ─── Camera shake ────────────────────────────────────────────
+// Trauma, 0..1, goes up with each impact and drains away; the camera moves
+// by its square, so a soft touch barely registers and a smash kicks.
+const SHAKE_MAX   = 0.16; // units of camera travel at full trauma
+const SHAKE_DRAIN = 2.2;  // trauma per s
+
+export const shakeKick = (trauma: number, impact: number) => Math.min(1, trauma + impact * impact * 0.6);
+export const shakeDrain = (trauma: number, delta: number) => Math.max(0, trauma - delta * SHAKE_DRAIN);
+
+/** Writes the camera's offset into `out`. A few unrelated sines pass for noise and need no state. */
+export function shakeOffset(trauma: number, t: number, out: Vec3): Vec3 {
+  const k = SHAKE_MAX * trauma * trauma;
+  out.x = k * (Math.sin(t * 47.3) + Math.sin(t * 29.1)) / 2;
+  out.y = k * (Math.sin(t * 53.9 + 1.3) + Math.sin(t * 23.7)) / 2;
+  out.z = k * Math.sin(t * 41.1 + 2.1) / 2;
+  return out;
+}
+
+// ─── Sparks ──────────────────────────────────────────────────
+// A ring buffer of particles: a burst takes the oldest slots, so a busy
+// rally cuts old sparks short instead of growing the pool. `shade` is the
+// colour faded by life, ready for additive blending, where black is unseen.
+export interface Sparks {
+  pos: Float32Array;   // xyz per spark
+  shade: Float32Array; // rgb per spark
+  /** Throws `n` sparks from `at`, mostly along `dir` (which needn't be normalised). */
+  burst(at: Vec3, dir: Vec3, n: number, rgb: [number, number, number], speed: number): void;
+  /** Moves them on; false once every spark has died, so the scene can skip the upload. */
+  update(delta: number): boolean;
+}
+
+const SPARK_LIFE    = 0.4; // s
+const SPARK_GRAVITY = 9;
+
+export function createSparks(size: number): Sparks {
+  const pos = new Float32Array(size * 3), vel = new Float32Array(size * 3);
+  const rgb = new Float32Array(size * 3), shade = new Float32Array(size * 3);
+  const life = new Float32Array(size);
+  let head = 0, alive = false;
+
+  return {
+    pos, shade,
+    burst(at, dir, n, color, speed) {
+      const len = Math.hypot(dir.x, dir.y, dir.z) || 1;
+      for (let k = 0; k < n; k++) {
+        const i = head, j = i * 3;
+        head = (head + 1) % size;
+        const v = speed * (0.3 + Math.random() * 0.7);
+        pos[j] = at.x; pos[j + 1] = at.y; pos[j + 2] = at.z;
+        vel[j]     = (dir.x / len + (Math.random() - 0.5) * 1.4) * v;
+        vel[j + 1] = (dir.y / len + Math.random() * 0.8) * v;
+        vel[j + 2] = (dir.z / len + (Math.random() - 0.5) * 1.4) * v;
+        rgb.set(color, j);
+        life[i] = 0.6 + Math.random() * 0.4;
+      }
+      alive = n > 0 || alive;
+    },
+    update(delta) {
+      if (!alive) return false;
+      alive = false;
+      for (let i = 0; i < size; i++) {
+        const j = i * 3;
+        if (life[i] <= 0) { shade[j] = shade[j + 1] = shade[j + 2] = 0; continue; }
+        alive = true;
+        life[i] = Math.max(0, life[i] - delta / SPARK_LIFE);
+        vel[j + 1] -= SPARK_GRAVITY * delta;
+        pos[j] += vel[j] * delta; pos[j + 1] += vel[j + 1] * delta; pos[j + 2] += vel[j + 2] * delta;
+        for (let c = 0; c < 3; c++) shade[j + c] = rgb[j + c] * life[i];
+      }
+      return true;
+    },
+  };
+}
+
+// ─── Confetti ────────────────────────────────────────────────
+export interface ConfettiPiece {
+  x: number;     // % across the screen
+  delay: number; // s
+  fall: number;  // s from top to bottom
+  drift: number; // px sideways over the fall
+  turn: number;  // degrees over the fall
+  w: number; h: number;
+  color: number; // index into the caller's colours
+}
+
+/** The same layout every time for a given count, so rendering it stays pure. */
+export function confettiPieces(n: number, colors: number): ConfettiPiece[] {
+  const out: ConfettiPiece[] = [];
+  let seed = 0x2f6b;
+  const r = () => { let v: number; [v, seed] = nextRandom(seed); return v; };
+  for (let i = 0; i < n; i++) {
+    out.push({
+      x: r() * 100, delay: r() * 2.5, fall: 2.5 + r() * 2, drift: (r() - 0.5) * 160, turn: (r() - 0.5) * 1440,
+      w: 6 + r() * 6, h: 10 + r() * 8, color: Math.floor(r() * colors),
+    });
+  }
+  return out;
+}
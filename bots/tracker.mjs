@@ -0,0 +1,22 @@
+// ─── Tracker ─────────────────────────────────────────────────
+// The simplest bot that returns a ball: while the ball is coming its way it
+// follows the ball's x, otherwise it drifts back to the middle. Load it with
+// LOAD BOT on the difficulty screen, or race it headless:
+//   npm run tournament -- bots/tracker.mjs auto:medium
+
+/** @type {import("../app/game/bots").BotModule} */
+const tracker = {
+  name: "tracker",
+  create({ side }) {
+    // The player's end is +z, so a ball heading for it has a positive z velocity
+    const toward = side === "player" ? 1 : -1;
+    return {
+      tick(view) {
+        const coming = Math.sign(view.ball.vel.z) === toward;
+        return { x: coming ? view.ball.pos.x : 0 };
+      },
+    };
+  },
+};
+
+export default tracker;
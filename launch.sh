@@ -12,4 +12,8 @@ if ! /usr/sbin/lsof -iTCP:3444 -sTCP:LISTEN >/dev/null 2>&1; then
   disown
   sleep 2
 fi
+if ! /usr/sbin/lsof -iTCP:3445 -sTCP:LISTEN >/dev/null 2>&1; then
+  nohup npm run match-server > "$LOG_DIR/mpire-ping-pong-match.log" 2>&1 &
+  disown
+fi
 open "$URL"
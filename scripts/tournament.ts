@@ -0,0 +1,76 @@
+// ─── Tournament runner ───────────────────────────────────────
+// Plays a round robin between bots without rendering and prints the standings:
+//   npm run tournament -- auto:easy auto:hard:angle_hunter bots/tracker.mjs
+// A bot is a built-in name (auto:<difficulty>[:<style>]) or the path of a
+// module whose default export is a BotModule (see app/game/bots.ts).
+//   --games N    matches per pairing, ends swapped each time (default 4)
+//   --seed N     the whole tournament replays from it (default 1)
+//   --table D    ball speeds of a difficulty (default medium)
+//   --rules R    classic or ittf (default classic)
+//   --best-of N  games per ITTF match (default 1)
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { performance } from "node:perf_hooks";
+import { DIFF, type Difficulty } from "../app/game/constants";
+import { rulesFor, type BestOf } from "../app/game/match";
+import { tunedParams } from "../app/game/settings";
+import { BotError, builtInBot, checkBotModule, type BotModule } from "../app/game/bots";
+import { formatStandings, roundRobin, type Standing } from "../app/game/tournament";
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+async function loadBot(spec: string): Promise<BotModule> {
+  const built = builtInBot(spec);
+  if (built) return built;
+  if (spec.startsWith("auto:")) fail(`Unknown built-in bot: ${spec}`);
+  let mod: { default?: unknown };
+  try {
+    mod = await import(pathToFileURL(resolve(spec)).href);
+  } catch (e) {
+    fail(`Could not load ${spec}: ${(e as Error).message}`);
+  }
+  const bot = checkBotModule(mod.default, spec);
+  if (typeof bot === "string") fail(`${spec}: ${bot}`);
+  return bot;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const specs: string[] = [];
+  const opt: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) opt[args[i].slice(2)] = args[++i] ?? "";
+    else specs.push(args[i]);
+  }
+
+  const games  = Number(opt.games ?? 4);
+  const seed   = Number(opt.seed ?? 1) >>> 0;
+  const table  = (opt.table ?? "medium") as Difficulty;
+  const rules  = opt.rules ?? "classic";
+  const bestOf = Number(opt["best-of"] ?? 1) as BestOf;
+  if (specs.length < 2) fail("Give at least two bots, e.g. auto:easy auto:hard");
+  if (!Number.isInteger(games) || games < 1) fail("--games must be a whole number above 0");
+  if (!Object.hasOwn(DIFF, table)) fail(`--table must be one of ${Object.keys(DIFF).join(", ")}`);
+  if (rules !== "classic" && rules !== "ittf") fail("--rules must be classic or ittf");
+  if (![1, 3, 5, 7].includes(bestOf)) fail("--best-of must be 1, 3, 5 or 7");
+
+  const bots = await Promise.all(specs.map(loadBot));
+  const started = performance.now();
+  let standings: Standing[];
+  try {
+    standings = roundRobin(bots, { seed, games, params: tunedParams(table), rules: rulesFor(rules, bestOf) });
+  } catch (e) {
+    if (e instanceof BotError) fail(`Bot ${e.message}`);
+    throw e;
+  }
+  const secs = (performance.now() - started) / 1000;
+
+  const matches = bots.length * (bots.length - 1) / 2 * games;
+  console.log(`${matches} matches · ${rules}${rules === "ittf" ? ` best of ${bestOf}` : ""} · ${table} table · seed ${seed} · ${secs.toFixed(1)} s\n`);
+  console.log(formatStandings(standings));
+}
+
+main();
@@ -0,0 +1,56 @@
+// ─── Match server ────────────────────────────────────────────
+// Small WebSocket server for online 1v1, run next to `next dev`:
+//   npm run match-server
+// Two browser tabs on localhost are enough to play a match against yourself.
+import { performance } from "node:perf_hooks";
+import { WebSocketServer } from "ws";
+import { MATCH_SERVER_PORT, parseMsg, type ClientMsg } from "../app/game/protocol";
+import {
+  createRoom, joinRoom, resumeSeat, setInput, rematch, dropSeat, leaveRoom, tickRooms,
+  type Conn, type Seated,
+} from "./rooms";
+
+const port = Number(process.env.MATCH_SERVER_PORT) || MATCH_SERVER_PORT;
+const wss  = new WebSocketServer({ port });
+
+wss.on("connection", ws => {
+  let seated: Seated | null = null;
+  const conn: Conn = {
+    send: msg => { if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(msg)); },
+  };
+  const sit = (res: Seated | string) => {
+    if (typeof res === "string") conn.send({ t: "error", message: res });
+    else seated = res;
+  };
+
+  ws.on("message", data => {
+    const msg = parseMsg<ClientMsg>(data.toString());
+    if (!msg) return;
+    const now = performance.now();
+    switch (msg.t) {
+      case "ping":    conn.send({ t: "pong", at: msg.at }); break;
+      case "create":  if (!seated) sit(createRoom(conn, msg.name, msg.difficulty, msg.ruleset, msg.bestOf, now)); break;
+      case "join":    if (!seated) sit(joinRoom(conn, msg.code, msg.name, now)); break;
+      case "resume":  if (!seated) sit(resumeSeat(conn, msg.code, msg.token, now)); break;
+      case "input":   if (seated) setInput(seated.room, seated.side, msg.x, now); break;
+      case "rematch": if (seated) rematch(seated.room, now); break;
+      case "leave":
+        if (seated) leaveRoom(seated.room, seated.side, now);
+        seated = null;
+        break;
+    }
+  });
+
+  ws.on("close", () => {
+    if (seated) dropSeat(seated.room, seated.side, conn, performance.now());
+  });
+});
+
+let last = performance.now();
+setInterval(() => {
+  const now = performance.now();
+  tickRooms(now, (now - last) / 1000);
+  last = now;
+}, 4);
+
+console.log(`match server listening on ws://localhost:${port}`);
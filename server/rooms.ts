@@ -0,0 +1,275 @@
+// ─── Match rooms ─────────────────────────────────────────────
+// Server-authoritative 1v1 matches. Each room runs the same headless rally
+// sim the browser uses for solo play, fed by the latest paddle input from
+// each seat, and owns the score, serve order and between-point timers.
+import { randomBytes, randomInt } from "node:crypto";
+import { DIFF, MAX_PADDLE_SPEED, type Difficulty } from "../app/game/constants";
+import { newMatch, rulesFor, scorePoint, RULESETS, type BestOf, type MatchScore, type Rules } from "../app/game/match";
+import { randomSeed } from "../app/game/rng";
+import {
+  createSim, serve, step, other, maxPaddleX, SIM_DT,
+  type Fault, type SimEvent, type SimState, type Side,
+} from "../app/game/simulation";
+import {
+  RECONNECT_GRACE_MS, ROOM_CODE_LENGTH,
+  type RoomInfo, type RoomPhase, type ServerMsg,
+} from "../app/game/protocol";
+
+export interface Conn { send(msg: ServerMsg): void }
+
+interface Seat {
+  name: string;
+  token: string;
+  conn: Conn | null;
+  input: number;
+  inputAt: number;        // when the last input arrived
+  droppedAt: number | null;
+}
+
+export interface Room {
+  code: string;
+  difficulty: Difficulty;
+  rules: Rules;
+  phase: RoomPhase;
+  seats: Record<Side, Seat | null>;
+  sim: SimState;
+  score: MatchScore;
+  lastFault: Fault | null;
+  winner: Side | null;
+  resumeAt: number;       // when the current "between" pause ends
+  acc: number;            // real time not yet simulated, seconds
+  events: SimEvent[];     // collected since the last snapshot
+  sinceSnap: number;      // ticks since the last snapshot
+  emptySince: number | null;
+}
+
+export type Seated = { room: Room; side: Side };
+
+const BETWEEN_MS = 1200;
+const BETWEEN_GAMES_MS = 3500;
+const SNAP_EVERY = 4;            // ticks per snapshot → 30 Hz
+const EMPTY_ROOM_TTL_MS = 60_000;
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ"; // no I or O to misread
+const NAME_MAX = 12;
+
+const rooms = new Map<string, Room>();
+
+function newCode(): string {
+  for (;;) {
+    let code = "";
+    for (let i = 0; i < ROOM_CODE_LENGTH; i++) code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    if (!rooms.has(code)) return code;
+  }
+}
+
+function cleanName(name: unknown, fallback: string): string {
+  const n = typeof name === "string" ? name.trim().toUpperCase().slice(0, NAME_MAX) : "";
+  return n || fallback;
+}
+
+function newSeat(conn: Conn, name: string, now: number): Seat {
+  return { name, token: randomBytes(12).toString("hex"), conn, input: 0, inputAt: now, droppedAt: null };
+}
+
+function info(r: Room): RoomInfo {
+  return {
+    code: r.code,
+    difficulty: r.difficulty,
+    rules: r.rules,
+    phase: r.phase,
+    names:     { player: r.seats.player?.name ?? null, ai: r.seats.ai?.name ?? null },
+    connected: { player: !!r.seats.player?.conn,       ai: !!r.seats.ai?.conn },
+    score: r.score,
+    lastFault: r.lastFault,
+    winner: r.winner,
+  };
+}
+
+function broadcast(r: Room, msg: ServerMsg) {
+  r.seats.player?.conn?.send(msg);
+  r.seats.ai?.conn?.send(msg);
+}
+
+const announce = (r: Room) => broadcast(r, { t: "room", room: info(r) });
+
+function snapshot(r: Room) {
+  broadcast(r, { t: "snap", state: r.sim, events: r.events });
+  r.events = [];
+  r.sinceSnap = 0;
+}
+
+function startMatch(r: Room, now: number) {
+  r.sim = createSim(randomSeed());
+  r.score = newMatch();
+  r.lastFault = null;
+  r.winner = null;
+  r.phase = "between";
+  r.resumeAt = now + BETWEEN_MS;
+}
+
+function bothConnected(r: Room): boolean {
+  return !!r.seats.player?.conn && !!r.seats.ai?.conn;
+}
+
+// ─── Lobby ───────────────────────────────────────────────────
+export function createRoom(conn: Conn, name: unknown, difficulty: unknown, ruleset: unknown, bestOf: unknown, now: number): Seated | string {
+  if (typeof difficulty !== "string" || !Object.hasOwn(DIFF, difficulty)) return "Unknown difficulty";
+  if (typeof ruleset !== "string" || !Object.hasOwn(RULESETS, ruleset)) return "Unknown ruleset";
+  if (!RULESETS[ruleset as Rules["ruleset"]].online) return "That ruleset is local play only";
+  if (![1, 3, 5, 7].includes(bestOf as number)) return "Matches are best of 1, 3, 5 or 7";
+  const code = newCode();
+  const room: Room = {
+    code,
+    difficulty: difficulty as Difficulty,
+    rules: rulesFor(ruleset as Rules["ruleset"], bestOf as BestOf),
+    phase: "waiting",
+    seats: { player: newSeat(conn, cleanName(name, "HOST"), now), ai: null },
+    sim: createSim(0),
+    score: newMatch(),
+    lastFault: null,
+    winner: null,
+    resumeAt: 0,
+    acc: 0,
+    events: [],
+    sinceSnap: 0,
+    emptySince: null,
+  };
+  rooms.set(code, room);
+  conn.send({ t: "seat", code, side: "player", token: room.seats.player!.token });
+  announce(room);
+  return { room, side: "player" };
+}
+
+export function joinRoom(conn: Conn, code: unknown, name: unknown, now: number): Seated | string {
+  const room = typeof code === "string" ? rooms.get(code.toUpperCase()) : undefined;
+  if (!room) return "No room with that code";
+  if (room.seats.ai) return "That room is full";
+  room.seats.ai = newSeat(conn, cleanName(name, "GUEST"), now);
+  conn.send({ t: "seat", code: room.code, side: "ai", token: room.seats.ai.token });
+  startMatch(room, now);
+  // A host who dropped while waiting gets the match served once they're back
+  if (!bothConnected(room)) room.phase = "paused";
+  announce(room);
+  return { room, side: "ai" };
+}
+
+/** Reattaches a dropped connection to its seat. */
+export function resumeSeat(conn: Conn, code: unknown, token: unknown, now: number): Seated | string {
+  const room = typeof code === "string" ? rooms.get(code.toUpperCase()) : undefined;
+  const side = room && (["player", "ai"] as const).find(s => room.seats[s]?.token === token);
+  if (!room || !side) return "That match is over";
+  const seat = room.seats[side]!;
+  seat.conn?.send({ t: "left" });
+  seat.conn = conn;
+  seat.droppedAt = null;
+  room.emptySince = null;
+  conn.send({ t: "seat", code: room.code, side, token: seat.token });
+  if (room.phase === "paused" && bothConnected(room)) {
+    room.phase = "between";
+    room.resumeAt = now + BETWEEN_MS;
+  }
+  announce(room);
+  if (room.phase !== "waiting") conn.send({ t: "snap", state: room.sim, events: [] });
+  return { room, side };
+}
+
+/**
+ * Takes a seat's paddle position. A paddle can only have travelled so far
+ * since the last one arrived, so a client can't jump it onto the ball.
+ */
+export function setInput(r: Room, side: Side, x: unknown, now: number) {
+  const seat = r.seats[side];
+  if (!seat || typeof x !== "number" || !Number.isFinite(x)) return;
+  const reach = MAX_PADDLE_SPEED * Math.max(0, now - seat.inputAt) / 1000;
+  const maxX  = maxPaddleX();
+  seat.input   = Math.max(-maxX, Math.min(maxX, seat.input + Math.max(-reach, Math.min(reach, x - seat.input))));
+  seat.inputAt = now;
+}
+
+export function rematch(r: Room, now: number) {
+  if (r.phase !== "won" || !bothConnected(r)) return;
+  startMatch(r, now);
+  announce(r);
+}
+
+/** The socket closed. The seat is held for RECONNECT_GRACE_MS. */
+export function dropSeat(r: Room, side: Side, conn: Conn, now: number) {
+  const seat = r.seats[side];
+  if (!seat || seat.conn !== conn) return; // already replaced by a resumed connection
+  seat.conn = null;
+  seat.droppedAt = now;
+  if (r.phase === "playing" || r.phase === "between") {
+    // The rally in progress is void; it is served again once both are back
+    r.phase = "paused";
+  }
+  if (!r.seats.player?.conn && !r.seats.ai?.conn) r.emptySince = now;
+  announce(r);
+}
+
+/** Walking away on purpose: the seat is gone and an unfinished match is lost. */
+export function leaveRoom(r: Room, side: Side, now: number) {
+  const seat = r.seats[side];
+  if (!seat) return;
+  seat.conn?.send({ t: "left" });
+  r.seats[side] = null;
+  forfeit(r, side);
+  if (!r.seats.player && !r.seats.ai) { rooms.delete(r.code); return; }
+  if (!r.seats.player?.conn && !r.seats.ai?.conn) r.emptySince = now;
+  announce(r);
+}
+
+function forfeit(r: Room, loser: Side) {
+  if (r.phase === "waiting" || r.phase === "won") return;
+  r.phase = "won";
+  r.winner = other(loser);
+}
+
+// ─── Clock ───────────────────────────────────────────────────
+/** Advances every room to `now`. Call often; time is accumulated, not assumed. */
+export function tickRooms(now: number, dt: number) {
+  for (const r of rooms.values()) {
+    if (r.emptySince !== null && now - r.emptySince > EMPTY_ROOM_TTL_MS) { rooms.delete(r.code); continue; }
+
+    for (const side of ["player", "ai"] as const) {
+      const seat = r.seats[side];
+      if (seat?.droppedAt != null && now - seat.droppedAt > RECONNECT_GRACE_MS && r.phase !== "won") {
+        forfeit(r, side);
+        announce(r);
+      }
+    }
+
+    if (r.phase === "between" && now >= r.resumeAt) {
+      r.sim = serve(r.sim, r.score.server === "ai");
+      r.phase = "playing";
+      r.acc = 0;
+      announce(r);
+      snapshot(r);
+    }
+    if (r.phase !== "playing") continue;
+
+    r.acc += Math.min(dt, 0.25);
+    while (r.acc >= SIM_DT && !r.sim.scorer) {
+      r.acc -= SIM_DT;
+      const res = step(r.sim, { playerX: r.seats.player?.input ?? 0, aiX: r.seats.ai?.input ?? 0 }, DIFF[r.difficulty]);
+      r.sim = res.state;
+      r.events.push(...res.events);
+      if (++r.sinceSnap >= SNAP_EVERY) snapshot(r);
+    }
+
+    const { scorer, fault } = r.sim;
+    if (scorer) {
+      snapshot(r);
+      const games = r.score.history.length;
+      r.score = scorePoint(r.score, scorer, r.rules);
+      r.lastFault = fault;
+      if (r.score.winner) {
+        r.phase = "won";
+        r.winner = r.score.winner;
+      } else {
+        r.phase = "between";
+        r.resumeAt = now + (r.score.history.length > games ? BETWEEN_GAMES_MS : BETWEEN_MS);
+      }
+      announce(r);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+// ─── Score store ─────────────────────────────────────────────
+// Leaderboard entries in one JSON file, for the /api route handlers under a
+// local `next dev`. The file is data/leaderboard.json unless
+// LEADERBOARD_FILE says otherwise. Writes go through a temp file and a
+// rename, one at a time, so a crash or two requests at once can't leave it
+// half written.
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { compareEntries, entryOf, verifyMatch, type Entry, type Submission } from "../app/game/leaderboard";
+
+const FILE = resolve(process.env.LEADERBOARD_FILE ?? "data/leaderboard.json");
+
+interface StoreFile {
+  version: 1;
+  entries: Entry[];
+}
+
+export async function readEntries(): Promise<Entry[]> {
+  try {
+    const f = JSON.parse(await readFile(FILE, "utf8")) as StoreFile;
+    return Array.isArray(f.entries) ? f.entries : [];
+  } catch {
+    return []; // no scores yet, or a file we can't read: start over rather than fail every request
+  }
+}
+
+async function writeEntries(entries: Entry[]) {
+  await mkdir(dirname(FILE), { recursive: true });
+  const tmp = `${FILE}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify({ version: 1, entries } satisfies StoreFile));
+  await rename(tmp, FILE);
+}
+
+// Adds queue behind each other so none is lost to a concurrent read-modify-write
+let queue: Promise<unknown> = Promise.resolve();
+
+export type AddResult =
+  | { ok: true; entry: Entry; rank: number }
+  | { ok: false; status: number; error: string };
+
+/** Verifies a (shape-checked) submission and stores it. Rank is 1-based, all-time, at its difficulty. */
+export function addScore(sub: Submission): Promise<AddResult> {
+  const run = async (): Promise<AddResult> => {
+    const score = verifyMatch(sub);
+    if (typeof score === "string") return { ok: false, status: 422, error: score };
+    const entries = await readEntries();
+    if (entries.some(e => e.seed === sub.replay.seed)) return { ok: false, status: 409, error: "This match is already on the board" };
+    const entry = entryOf(sub, score, randomUUID(), new Date().toISOString());
+    await writeEntries([...entries, entry]);
+    const rank = entries.filter(e => e.difficulty === entry.difficulty && compareEntries(e, entry) < 0).length + 1;
+    return { ok: true, entry, rank };
+  };
+  const next = queue.then(run, run);
+  queue = next.catch(() => {});
+  return next;
+}